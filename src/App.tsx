@@ -1,9 +1,9 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
 import {
   Box,
   Container,
-  createTheme,
   CssBaseline,
+  GlobalStyles,
   ThemeProvider,
   Typography,
   Chip,
@@ -14,49 +14,220 @@ import {
   DialogActions,
   Button,
   LinearProgress,
+  RadioGroup,
+  FormControlLabel,
+  Radio,
+  Alert,
+  Snackbar,
+  Menu,
+  MenuItem,
+  Divider,
+  ListSubheader,
+  Select,
+  useMediaQuery,
 } from "@mui/material";
-import { Cancel, Settings } from "@mui/icons-material";
-import JSZip from "jszip";
+import {
+  Bookmarks,
+  DeleteOutline,
+  Description,
+  FilterList,
+  Settings,
+  Tag,
+  TaskAlt,
+} from "@mui/icons-material";
 import { saveAs } from "file-saver";
 
 import Header from "./components/Header";
 import Timeline from "./components/Timeline";
 import MessageInput from "./components/MessageInput";
+import ChannelSidebar from "./components/ChannelSidebar";
+import TrashDialog from "./components/TrashDialog";
+import EditHistoryDialog from "./components/EditHistoryDialog";
+import EditConflictDialog from "./components/EditConflictDialog";
+import PendingAttachments from "./components/PendingAttachments";
+import ImageCompressionPanel from "./components/ImageCompressionPanel";
+import AppearancePanel from "./components/AppearancePanel";
+import ProfilePanel from "./components/ProfilePanel";
+import ProfileSwitcher from "./components/ProfileSwitcher";
+import StorageDashboard from "./components/StorageDashboard";
+import UpdatePrompt from "./components/UpdatePrompt";
+import PinnedMessages from "./components/PinnedMessages";
+import SavedItemsDialog from "./components/SavedItemsDialog";
+import TasksDialog from "./components/TasksDialog";
+import CommandPalette, {
+  type PaletteCommand,
+} from "./components/CommandPalette";
+import { useUndoRedo, type UndoableAction } from "./hooks/useUndoRedo";
 import {
   loadMessagesFromDB,
+  countMessagesInDB,
+  countUnreadMessagesInDB,
+  loadChannelsFromDB,
+  loadProfilesFromDB,
+  saveProfileToDB,
+  deleteProfileFromDB,
+  putChannelToDB,
+  deleteChannelFromDB,
   saveMessagesToDB,
-  clearAllMessagesFromDB,
+  putMessagesToDB,
+  addMessageToDB,
+  modifyMessageInDB,
+  trashMessageInDB,
+  trashReplyInDB,
+  trashAllMessagesInDB,
+  restoreFromTrashInDB,
+  loadTrashFromDB,
+  deleteFromTrashInDB,
+  purgeTrashInDB,
+  saveAttachmentToDB,
+  deleteAttachmentsFromDB,
+  loadAllAttachmentsFromDB,
+  loadSettingFromDB,
+  saveSettingToDB,
+  subscribeDBStatus,
+  searchMessagesInDB,
+  loadMessageIdsByTagFromDB,
+  loadTagCountsFromDB,
+  renameTagInDB,
+  loadDraftsFromDB,
+  saveDraftToDB,
+  deleteDraftsFromDB,
+  DBMigrationError,
+  type DBStatus,
+  type TrashEntry,
 } from "./db";
-
-const darkTheme = createTheme({
-  palette: {
-    mode: "dark",
-    primary: {
-      main: "#1976d2",
-    },
-    background: {
-      default: "#1a1d21",
-      paper: "#222529",
-    },
-  },
-});
+import { splitSearchWords } from "./search";
+import { isValidTag, normalizeTag } from "./tags";
+import { hasReaction, toggleReaction } from "./reactions";
+import { toggleTaskAt } from "./tasks";
+import {
+  DATE_PERIODS,
+  formatFullDateTime,
+  formatPeriod,
+  startOfPeriod,
+  toLocalDateKey,
+  type DatePeriod,
+} from "./dateUtils";
+import { importMessagesFromZip } from "./zipImport";
+import { exportMessagesToZip } from "./zipExport";
+import { subscribeSync, type SyncEvent } from "./tabSync";
+import {
+  createDraft,
+  draftKey,
+  findDraft,
+  isDraftChanged,
+  replaceDraft,
+  type Draft,
+  type DraftTarget,
+} from "./drafts";
+import { isComposing, isTypingTarget } from "./keyboard";
+import { consumeSharedData, SHARE_TARGET_QUERY } from "./shareTarget";
+import {
+  DEFAULT_IMAGE_COMPRESSION,
+  IMAGE_COMPRESSION_SETTING_KEY,
+  compressImageForStorage,
+  type ImageCompressionSettings,
+} from "./imageCompression";
+import {
+  DEFAULT_CHANNEL_ID,
+  createChannel,
+  createDefaultChannel,
+  normalizeChannelName,
+  validateChannelName,
+} from "./channels";
+import {
+  CURRENT_PROFILE_SETTING_KEY,
+  DEFAULT_PROFILE_ID,
+  createDefaultProfile,
+  toAuthor,
+  type Profile,
+} from "./profiles";
+import {
+  createBackup,
+  parseBackup,
+  mergeMessagesById,
+  type Backup,
+  type RestoreMode,
+} from "./backup";
+import {
+  detectLocale,
+  isLocale,
+  LOCALE_NAMES,
+  LOCALE_SETTING_KEY,
+  setLocale,
+  t,
+  type Locale,
+} from "./i18n";
+import type { MessageKey } from "./locales/ja";
+import { useI18n } from "./hooks/useI18n";
+import {
+  APPEARANCE_SETTING_KEY,
+  CODE_HIGHLIGHT_STYLES,
+  createAppTheme,
+  DEFAULT_APPEARANCE,
+  type AppearanceSettings,
+} from "./theme";
 
 // 型定義
+interface Attachment {
+  id: string;
+  name: string;
+  type: string;
+  size: number;
+  originalSize?: number; // 圧縮して保存した場合の元のサイズ
+}
+
+interface EditHistoryEntry {
+  text: string;
+  savedAt: string;
+}
+
+// 投稿者。idでプロフィールと結び付け、名前などは書き出し用の写し
+interface Author {
+  id?: number;
+  name: string;
+  avatar: string;
+  color?: string;
+}
+
+interface Reaction {
+  emoji: string;
+  users: number[]; // リアクションを付けたプロフィールのID
+}
+
 interface Reply {
   id: number;
-  user: { name: string; avatar: string };
+  user: Author;
   text: string;
-  timestamp: string;
-  image?: string;
+  createdAt: string;
+  attachments: Attachment[];
+  editedAt?: string;
+  history?: EditHistoryEntry[];
+  starred?: boolean; // スター付き（保存済みの一覧に出す）
+  reactions?: Reaction[];
 }
 
 interface Message {
   id: number;
-  user: { name: string; avatar: string };
+  user: Author;
   text: string;
-  timestamp: string;
+  createdAt: string;
   replies: Reply[];
-  image?: string;
+  attachments: Attachment[];
+  channelId: number;
+  editedAt?: string;
+  history?: EditHistoryEntry[];
+  pinned?: boolean; // タイムラインの上部に固定する
+  starred?: boolean;
+  reactions?: Reaction[];
+}
+
+interface Channel {
+  id: number;
+  name: string;
+  archived: boolean;
+  createdAt: string;
+  lastReadAt: string;
 }
 
 interface EditingMessage {
@@ -65,73 +236,1105 @@ interface EditingMessage {
   replyId?: number;
 }
 
-const initialMessages: Message[] = [
-  {
-    id: 1,
-    user: { name: "Hello", avatar: "A" },
-    text: "どこでもSlackのTimesチャンネルのようなメモが作れるWebアプリです。書き込んだ内容はキャッシュに保存するため、再度ブラウザを開いても保存されています。必要に応じてメモした内容をマークダウンに出力できます。",
-    timestamp: "10:30",
-    replies: [
-      {
-        id: 4,
-        user: { name: "Hello", avatar: "A" },
-        text: "スレッド機能もついてます。また画像の貼り付けも可能です。ぜひ色々試してみてください！",
-        timestamp: "10:35",
-      },
-    ],
-  },
-];
-
-// Base64のデータURLからMIMEタイプとBase64データを抽出する
-const decodeDataURL = (
-  dataURL: string
-): { mime: string; data: string } | null => {
-  const match = dataURL.match(/^data:(.+?);base64,(.+)$/);
-  if (!match) return null;
-  return { mime: match[1], data: match[2] };
+// 編集で変わる項目（元に戻すときはこれを丸ごと戻す）
+interface EditableFields {
+  text: string;
+  editedAt?: string;
+  history?: EditHistoryEntry[];
+}
+
+// タイムラインを絞り込む印（スター付き・ピン留め）
+type FlagFilter = "starred" | "pinned";
+
+const FLAG_FILTER_LABEL_KEYS: Record<FlagFilter, MessageKey> = {
+  starred: "filter.starred",
+  pinned: "filter.pinned",
+};
+
+// ゴミ箱に入れたメッセージを完全に削除するまでの日数
+const TRASH_RETENTION_DAYS = 30;
+
+// 使用量がクォータのこの割合を超えたら、書き込みに失敗する前に警告する
+const STORAGE_WARNING_RATIO = 0.8;
+
+// 入力が止まってから下書きを保存するまでの時間（ミリ秒）
+const DRAFT_SAVE_DELAY_MS = 500;
+
+// 投稿欄の下書きの対象（返信中なら返信先の投稿）
+const toComposerTarget = (
+  channelId: number,
+  replyTo: number | null
+): DraftTarget =>
+  replyTo !== null
+    ? { kind: "reply", channelId, messageId: replyTo }
+    : { kind: "post", channelId };
+
+const toEditTarget = (
+  channelId: number,
+  editing: EditingMessage
+): DraftTarget => ({
+  kind: "edit",
+  channelId,
+  messageId: editing.id,
+  replyId: editing.replyId,
+});
+
+// 初期メッセージを作成済みか（設定ストアに保存する）
+// 投稿をすべてゴミ箱に移してから開き直しても、もう一度作らないようにする
+const INITIAL_MESSAGES_SETTING_KEY = "initialMessagesCreated";
+
+// 初期メッセージ（初回起動時の日時で作成する）
+// 最初のプロフィールの投稿にして、編集や削除もできるようにする
+const createInitialMessages = (channelId: number): Message[] => {
+  const now = Date.now();
+  const user = toAuthor(createDefaultProfile());
+  return [
+    {
+      id: now,
+      user,
+      text: t("seed.welcome"),
+      createdAt: new Date(now).toISOString(),
+      replies: [
+        {
+          id: now + 1,
+          user,
+          text: t("seed.reply"),
+          createdAt: new Date(now + 1).toISOString(),
+          attachments: [],
+        },
+      ],
+      attachments: [],
+      channelId,
+    },
+  ];
+};
+
+// 起動時に開くチャンネル（最後に開いたもの）
+const pickLastOpenedChannel = (channels: Channel[]): Channel =>
+  channels.reduce((latest, channel) =>
+    channel.lastReadAt > latest.lastReadAt ? channel : latest
+  );
+
+// チャンネルごとの未読件数を数える
+const countUnreadMessages = async (
+  channels: Channel[]
+): Promise<Record<number, number>> => {
+  const counts = await Promise.all(
+    channels.map((channel) =>
+      countUnreadMessagesInDB(channel.id, channel.lastReadAt)
+    )
+  );
+  return Object.fromEntries(
+    channels.map((channel, i) => [channel.id, counts[i]])
+  );
+};
+
+// 投稿（replyIdがあればその返信）の本文と編集履歴を置き換える
+const replaceEditableFields = (
+  message: Message,
+  replyId: number | undefined,
+  fields: EditableFields
+): Message =>
+  replyId
+    ? {
+        ...message,
+        replies: message.replies.map((reply) =>
+          reply.id === replyId ? { ...reply, ...fields } : reply
+        ),
+      }
+    : { ...message, ...fields };
+
+// 投稿（replyIdがあればその返信）にupdateを当てる
+const updateEntry = (
+  message: Message,
+  replyId: number | undefined,
+  update: <T extends Message | Reply>(entry: T) => T
+): Message =>
+  replyId
+    ? {
+        ...message,
+        replies: message.replies.map((reply) =>
+          reply.id === replyId ? update(reply) : reply
+        ),
+      }
+    : update(message);
+
+// 投稿（replyIdがあればその返信）のスターを切り替える
+const toggleStar = (message: Message, replyId: number | undefined): Message =>
+  updateEntry(message, replyId, (entry) => ({
+    ...entry,
+    starred: !entry.starred,
+  }));
+
+// 期間内の投稿か返信に、その絵文字のリアクションが付いているか
+const matchesReactionFilter = (
+  message: Message,
+  emoji: string,
+  since: string | null
+): boolean =>
+  [message, ...message.replies].some(
+    (entry) =>
+      hasReaction(entry, emoji) && (since === null || entry.createdAt >= since)
+  );
+
+// 絞り込みの条件に合う投稿か（スターは返信に付いたものも含める）
+const matchesFlagFilter = (message: Message, filter: FlagFilter): boolean =>
+  filter === "pinned"
+    ? message.pinned === true
+    : message.starred === true ||
+      message.replies.some((reply) => reply.starred);
+
+// 投稿（replyIdがあればその返信）を探す
+const findEntry = (
+  message: Message,
+  replyId: number | undefined
+): Message | Reply | undefined =>
+  replyId ? message.replies.find((reply) => reply.id === replyId) : message;
+
+// 待たずに始めたDBの読み書きが失敗したら、スナックバーで知らせる
+// 容量不足は画面上部の警告で知らせるため、重ねて出さない
+const reportDBError =
+  (
+    showSnackbar: (snackbar: { message: string }) => void,
+    key: "db.loadFailed" | "db.saveFailed"
+  ) =>
+  (error: unknown) => {
+    console.error(t(key), error);
+    if (error instanceof DOMException && error.name === "QuotaExceededError") {
+      return;
+    }
+    showSnackbar({ message: t(key) });
+  };
+
+// DB上の最新の投稿に、編集の内容を書き込む（元に戻す・やり直す用）
+const writeEditableFields = async (
+  id: number,
+  replyId: number | undefined,
+  fields: EditableFields
+) => {
+  await modifyMessageInDB(id, (message) =>
+    replaceEditableFields(message, replyId, fields)
+  );
+};
+
+// DB上の最新の投稿の所属チャンネルを変える（元に戻す・やり直す用）
+const writeMessageChannel = async (id: number, channelId: number) => {
+  await modifyMessageInDB(id, (message) => ({ ...message, channelId }));
+};
+
+// ストレージの使用量とクォータ（取得できないブラウザではnull）
+const estimateStorageUsage = async (): Promise<{
+  used: number;
+  quota: number;
+} | null> => {
+  if (!navigator.storage || !navigator.storage.estimate) return null;
+  const { usage, quota } = await navigator.storage.estimate();
+  return { used: usage || 0, quota: quota || 0 };
+};
+
+const loadOrCreateProfiles = async (): Promise<Profile[]> => {
+  const storedProfiles = await loadProfilesFromDB();
+  if (storedProfiles.length > 0) return storedProfiles;
+  const profile = createDefaultProfile();
+  await saveProfileToDB(profile);
+  return [profile];
+};
+
+// 保存した言語。未保存ならブラウザの言語から選ぶ
+const loadSavedLocale = async (): Promise<Locale> => {
+  const saved = await loadSettingFromDB<string>(LOCALE_SETTING_KEY);
+  return isLocale(saved) ? saved : detectLocale();
+};
+
+// 項目が増えても古い保存内容で動くよう、既定値に重ねる
+const loadAppearance = async (): Promise<AppearanceSettings> => ({
+  ...DEFAULT_APPEARANCE,
+  ...(await loadSettingFromDB<Partial<AppearanceSettings>>(
+    APPEARANCE_SETTING_KEY
+  )),
+});
+
+// DBにチャンネルがなければ最初のチャンネルを作成して返す
+const loadOrCreateChannels = async (): Promise<Channel[]> => {
+  const storedChannels = await loadChannelsFromDB();
+  if (storedChannels.length > 0) return storedChannels;
+  const channel = createDefaultChannel();
+  await putChannelToDB(channel);
+  return [channel];
 };
 
 function App() {
+  const { locale } = useI18n();
   const [messages, setMessages] = useState<Message[]>([]);
+  const [channels, setChannels] = useState<Channel[]>([]);
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  // 投稿やリアクションに使うプロフィール
+  const [currentProfileId, setCurrentProfileId] = useState(DEFAULT_PROFILE_ID);
+  const [activeChannelId, setActiveChannelId] = useState<number | null>(null);
+  const [unreadCounts, setUnreadCounts] = useState<Record<number, number>>({});
+  // 開いたチャンネルの、前回読んだ日時（未読の区切りの位置）
+  const [unreadSince, setUnreadSince] = useState<string | null>(null);
+  const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const [newMessage, setNewMessage] = useState("");
   const [replyingTo, setReplyingTo] = useState<number | null>(null);
   const [editingMessage, setEditingMessage] = useState<EditingMessage | null>(
     null
   );
-  const [imagePreview, setImagePreview] = useState<string | null>(null);
+  const [pendingFiles, setPendingFiles] = useState<File[]>([]);
+  // 編集中の本文（編集を始めたときの本文はeditingMessage.text）
+  const [editText, setEditText] = useState("");
+  // DBに保存済みの下書き
+  const [drafts, setDrafts] = useState<Draft[]>([]);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
-  const [storageUsage, setStorageUsage] = useState<{ used: number; quota: number } | null>(null);
+  const [storageUsage, setStorageUsage] = useState<{
+    used: number;
+    quota: number;
+  } | null>(null);
 
-  const isInitialLoad = useRef(true);
+  const [isImporting, setIsImporting] = useState(false);
+  const [pendingBackup, setPendingBackup] = useState<Backup | null>(null);
+  const [restoreMode, setRestoreMode] = useState<RestoreMode>("merge");
+  const [dbStatus, setDbStatus] = useState<DBStatus | null>(null);
+  const [dbError, setDbError] = useState<string | null>(null);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [searchResults, setSearchResults] = useState<number[] | null>(null);
+  const [searchPosition, setSearchPosition] = useState(0);
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [tagResults, setTagResults] = useState<number[] | null>(null);
+  const [flagFilter, setFlagFilter] = useState<FlagFilter | null>(null);
+  const [filterMenuAnchor, setFilterMenuAnchor] = useState<HTMLElement | null>(
+    null
+  );
+  const [reactionFilter, setReactionFilter] = useState<{
+    emoji: string;
+    period: DatePeriod;
+  } | null>(null);
+  const [isSavedOpen, setIsSavedOpen] = useState(false);
+  const [isTasksOpen, setIsTasksOpen] = useState(false);
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
+  // j/kで選んでいる投稿（r・eの対象）
+  const [selectedMessageId, setSelectedMessageId] = useState<number | null>(
+    null
+  );
+  // 保存済みやピン留めから移動するときに、表示されたら画面内に出す投稿
+  const [jumpTarget, setJumpTarget] = useState<number | null>(null);
+  const [tagCounts, setTagCounts] = useState<{ tag: string; count: number }[]>(
+    []
+  );
+  const [isTrashOpen, setIsTrashOpen] = useState(false);
+  const [trashEntries, setTrashEntries] = useState<TrashEntry[]>([]);
+  const [historyTarget, setHistoryTarget] = useState<{
+    id: number;
+    replyId?: number;
+  } | null>(null);
+  const [snackbar, setSnackbar] = useState<{
+    message: string;
+    action?: "undo" | "redo";
+  } | null>(null);
+  const [editConflict, setEditConflict] = useState<{
+    id: number;
+    replyId?: number;
+    mine: string;
+    theirs: string;
+  } | null>(null);
+  const [appearance, setAppearance] =
+    useState<AppearanceSettings>(DEFAULT_APPEARANCE);
+  const prefersDark = useMediaQuery("(prefers-color-scheme: dark)");
+  const theme = useMemo(
+    () => createAppTheme(appearance, prefersDark),
+    [appearance, prefersDark]
+  );
+  const [imageCompression, setImageCompression] =
+    useState<ImageCompressionSettings>(DEFAULT_IMAGE_COMPRESSION);
+  const { push: pushUndo, undo, redo } = useUndoRedo();
+
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const messageInputRef = useRef<HTMLTextAreaElement>(null);
+  const searchInputRef = useRef<HTMLInputElement>(null);
+  const backupInputRef = useRef<HTMLInputElement>(null);
+  // 送信中の投稿（添付ファイルとメッセージの保存を待っている間）があるか
+  const sendingRef = useRef(false);
 
-  // 初回ロード時にDBからメッセージを読み込む
+  // 初回ロード時にDBからチャンネルを読み込み、最後に開いたチャンネルを開く
   useEffect(() => {
     const loadData = async () => {
-      const storedMessages = await loadMessagesFromDB();
-      if (storedMessages && storedMessages.length > 0) {
-        setMessages(storedMessages);
-      } else {
-        setMessages(initialMessages);
-        await saveMessagesToDB(initialMessages);
+      try {
+        // 初期メッセージなども選んだ言語で作るよう、最初に言語を決める
+        setLocale(await loadSavedLocale());
+        setAppearance(await loadAppearance());
+        // 保存期間を過ぎたゴミ箱の項目を完全に削除する
+        await purgeTrashInDB(
+          new Date(
+            Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000
+          ).toISOString()
+        );
+        const storedProfiles = await loadOrCreateProfiles();
+        setProfiles(storedProfiles);
+        const savedProfileId = await loadSettingFromDB<number>(
+          CURRENT_PROFILE_SETTING_KEY
+        );
+        if (
+          savedProfileId !== undefined &&
+          storedProfiles.some((profile) => profile.id === savedProfileId)
+        ) {
+          setCurrentProfileId(savedProfileId);
+        }
+        const storedChannels = await loadOrCreateChannels();
+        const initialChannel = pickLastOpenedChannel(storedChannels);
+        // 既存のデータ（ゴミ箱や添付ファイル）を消さないよう、置き換えずに追加する
+        if (!(await loadSettingFromDB<boolean>(INITIAL_MESSAGES_SETTING_KEY))) {
+          if ((await countMessagesInDB()) === 0) {
+            await putMessagesToDB(createInitialMessages(initialChannel.id));
+          }
+          await saveSettingToDB(INITIAL_MESSAGES_SETTING_KEY, true);
+        }
+        const opened = {
+          ...initialChannel,
+          lastReadAt: new Date().toISOString(),
+        };
+        await putChannelToDB(opened);
+        setChannels(
+          storedChannels.map((channel) =>
+            channel.id === opened.id ? opened : channel
+          )
+        );
+        setUnreadCounts(await countUnreadMessages(storedChannels));
+        setUnreadSince(initialChannel.lastReadAt);
+        const storedDrafts = await loadDraftsFromDB();
+        setDrafts(storedDrafts);
+        const draft = findDraft(
+          storedDrafts,
+          toComposerTarget(initialChannel.id, null)
+        );
+        setNewMessage(draft?.text ?? "");
+        setPendingFiles(draft?.files ?? []);
+        setActiveChannelId(initialChannel.id);
+        // 他のアプリから共有されて開かれたときは、共有された内容を入力欄に入れる
+        const params = new URLSearchParams(window.location.search);
+        if (params.has(SHARE_TARGET_QUERY)) {
+          params.delete(SHARE_TARGET_QUERY);
+          const query = params.toString();
+          window.history.replaceState(
+            null,
+            "",
+            `${window.location.pathname}${query ? `?${query}` : ""}`
+          );
+          const shared = await consumeSharedData();
+          if (shared) {
+            if (shared.text) {
+              setNewMessage(
+                draft?.text ? `${draft.text}\n${shared.text}` : shared.text
+              );
+            }
+            setPendingFiles([...(draft?.files ?? []), ...shared.files]);
+            setSnackbar({ message: t("share.added") });
+          }
+        }
+        // 項目が増えても古い保存内容で動くよう、既定値に重ねる
+        const savedCompression = await loadSettingFromDB<
+          Partial<ImageCompressionSettings>
+        >(IMAGE_COMPRESSION_SETTING_KEY);
+        setImageCompression({
+          ...DEFAULT_IMAGE_COMPRESSION,
+          ...savedCompression,
+        });
+        const usage = await estimateStorageUsage();
+        if (usage) setStorageUsage(usage);
+        // 他のタブが閉じられて更新が進んだら、待機中の表示を消す
+        setDbStatus((prev) => (prev === "blocked" ? null : prev));
+      } catch (error) {
+        setDbError(
+          error instanceof DBMigrationError
+            ? t("db.migrationFailed", { version: error.version })
+            : t("db.openFailed")
+        );
       }
-      isInitialLoad.current = false;
     };
     loadData();
   }, []);
 
-  // messagesが変更されるたびにDBに保存
+  // 開いているチャンネルのメッセージを読み込む
   useEffect(() => {
-    if (!isInitialLoad.current) {
-      saveMessagesToDB(messages);
+    if (activeChannelId === null) return;
+    let cancelled = false;
+    loadMessagesFromDB(activeChannelId)
+      .then((storedMessages) => {
+        if (!cancelled) setMessages(storedMessages);
+      })
+      .catch(reportDBError(setSnackbar, "db.loadFailed"));
+    return () => {
+      cancelled = true;
+    };
+  }, [activeChannelId]);
+
+  const isStorageNearlyFull =
+    storageUsage !== null &&
+    storageUsage.quota > 0 &&
+    storageUsage.used / storageUsage.quota >= STORAGE_WARNING_RATIO;
+
+  const activeChannel = channels.find(
+    (channel) => channel.id === activeChannelId
+  );
+  // 選んでいたプロフィールが別のタブで削除されたら、最初のプロフィールを使う
+  const currentProfile =
+    profiles.find((profile) => profile.id === currentProfileId) ??
+    profiles[0] ??
+    createDefaultProfile();
+
+  // 入力中の対象。下書きはこの対象ごとに保存する
+  const composerTarget =
+    activeChannelId !== null
+      ? toComposerTarget(activeChannelId, replyingTo)
+      : null;
+  const editTarget =
+    activeChannelId !== null && editingMessage
+      ? toEditTarget(activeChannelId, editingMessage)
+      : null;
+  // 編集を始めたときの本文のままなら、編集の下書きは残さない
+  const editDraftText =
+    editingMessage && editText !== editingMessage.text ? editText : "";
+  // まだDBに保存していない入力があるか
+  const hasUnsavedDraft =
+    (composerTarget !== null &&
+      isDraftChanged(drafts, composerTarget, newMessage, pendingFiles)) ||
+    (editTarget !== null && isDraftChanged(drafts, editTarget, editDraftText));
+
+  // 入力が落ち着いたら、投稿欄の内容を下書きとして保存する
+  useEffect(() => {
+    if (activeChannelId === null) return;
+    const target = toComposerTarget(activeChannelId, replyingTo);
+    if (!isDraftChanged(drafts, target, newMessage, pendingFiles)) return;
+    const timer = setTimeout(() => {
+      const draft = createDraft(target, newMessage, pendingFiles);
+      saveDraftToDB(draft)
+        .then(() => setDrafts((prev) => replaceDraft(prev, draft)))
+        .catch(reportDBError(setSnackbar, "db.saveFailed"));
+    }, DRAFT_SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [activeChannelId, replyingTo, newMessage, pendingFiles, drafts]);
+
+  // 編集中の本文も同じように下書きとして保存する
+  useEffect(() => {
+    if (activeChannelId === null || !editingMessage) return;
+    const target = toEditTarget(activeChannelId, editingMessage);
+    const text = editText !== editingMessage.text ? editText : "";
+    if (!isDraftChanged(drafts, target, text)) return;
+    const timer = setTimeout(() => {
+      const draft = createDraft(target, text);
+      saveDraftToDB(draft)
+        .then(() => setDrafts((prev) => replaceDraft(prev, draft)))
+        .catch(reportDBError(setSnackbar, "db.saveFailed"));
+    }, DRAFT_SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [activeChannelId, editingMessage, editText, drafts]);
+
+  // 保存前の入力があるうちは、ページを離れる前に確認する
+  useEffect(() => {
+    if (!hasUnsavedDraft) return;
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+    };
+    window.addEventListener("beforeunload", handleBeforeUnload);
+    return () => window.removeEventListener("beforeunload", handleBeforeUnload);
+  }, [hasUnsavedDraft]);
+
+  // 自動保存を待たずに、入力中の内容を下書きとして保存する（入力する対象を切り替える前など）
+  // 保存後の下書きの一覧を返す
+  const flushDrafts = (): Draft[] => {
+    const pending = [
+      ...(composerTarget &&
+      isDraftChanged(drafts, composerTarget, newMessage, pendingFiles)
+        ? [createDraft(composerTarget, newMessage, pendingFiles)]
+        : []),
+      ...(editTarget && isDraftChanged(drafts, editTarget, editDraftText)
+        ? [createDraft(editTarget, editDraftText)]
+        : []),
+    ];
+    if (pending.length === 0) return drafts;
+    pending.forEach((draft) =>
+      saveDraftToDB(draft).catch(reportDBError(setSnackbar, "db.saveFailed"))
+    );
+    const saved = pending.reduce(replaceDraft, drafts);
+    setDrafts(saved);
+    return saved;
+  };
+
+  // 送信・保存した内容や、やめた編集の下書きを削除する
+  const discardDrafts = (keys: string[]) => {
+    if (keys.length === 0) return;
+    setDrafts((prev) => prev.filter((draft) => !keys.includes(draft.key)));
+    deleteDraftsFromDB(keys).catch(reportDBError(setSnackbar, "db.saveFailed"));
+  };
+
+  // 投稿欄をチャンネル（replyToがあればその投稿への返信）に切り替え、下書きを戻す
+  const restoreComposer = (
+    saved: Draft[],
+    channelId: number,
+    replyTo: number | null
+  ) => {
+    const draft = findDraft(saved, toComposerTarget(channelId, replyTo));
+    setReplyingTo(replyTo);
+    setNewMessage(draft?.text ?? "");
+    setPendingFiles(draft?.files ?? []);
+  };
+
+  // タブを隠したとき（スマートフォンでアプリを切り替えたときなど）は、
+  // そのまま閉じられても残るよう自動保存を待たずに保存する
+  const flushHandler = useRef(flushDrafts);
+  useEffect(() => {
+    flushHandler.current = flushDrafts;
+  });
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "hidden") flushHandler.current();
+    };
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    return () =>
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+  }, []);
+
+  // 他のタブとのバージョン競合を監視する
+  useEffect(() => subscribeDBStatus(setDbStatus), []);
+
+  // 入力が落ち着いてから索引を検索する（メッセージが変わったときも検索し直す）
+  useEffect(() => {
+    if (searchQuery.trim() === "") {
+      setSearchResults(null);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      searchMessagesInDB(searchQuery)
+        .then((ids) => {
+          if (!cancelled) setSearchResults(ids);
+        })
+        .catch(reportDBError(setSnackbar, "db.loadFailed"));
+    }, 200);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [searchQuery, messages]);
+
+  // 開いているチャンネルのタグと件数を数え直す
+  useEffect(() => {
+    if (activeChannelId === null) return;
+    let cancelled = false;
+    loadTagCountsFromDB(activeChannelId)
+      .then((counts) => {
+        if (!cancelled) setTagCounts(counts);
+      })
+      .catch(reportDBError(setSnackbar, "db.loadFailed"));
+    return () => {
+      cancelled = true;
+    };
+  }, [activeChannelId, messages]);
+
+  // タグの索引から、絞り込み中のタグが付いたメッセージを引く
+  useEffect(() => {
+    if (tagFilter === null) {
+      setTagResults(null);
+      return;
+    }
+    let cancelled = false;
+    loadMessageIdsByTagFromDB(tagFilter)
+      .then((ids) => {
+        if (!cancelled) setTagResults(ids);
+      })
+      .catch(reportDBError(setSnackbar, "db.loadFailed"));
+    return () => {
+      cancelled = true;
+    };
+  }, [tagFilter, messages]);
+
+  const handleSearchChange = (query: string) => {
+    setSearchQuery(query);
+    setSearchPosition(0);
+  };
+
+  const handleSearchStep = (step: number) => {
+    if (!channelSearchResults || channelSearchResults.length === 0) return;
+    setSearchPosition(
+      (prev) =>
+        (prev + step + channelSearchResults.length) %
+        channelSearchResults.length
+    );
+  };
+
+  const searchWords = useMemo(
+    () => splitSearchWords(searchQuery),
+    [searchQuery]
+  );
+  // 検索結果は開いているチャンネルのものに絞る
+  const channelSearchResults = useMemo(() => {
+    if (!searchResults) return null;
+    const ids = new Set(messages.map((msg) => msg.id));
+    return searchResults.filter((id) => ids.has(id));
+  }, [messages, searchResults]);
+  // 検索・タグ・スターとピン留め・リアクションの絞り込みは重ねて適用する
+  const visibleMessages = useMemo(() => {
+    const filters = [channelSearchResults, tagResults]
+      .filter((ids): ids is number[] => ids !== null)
+      .map((ids) => new Set(ids));
+    if (filters.length === 0 && flagFilter === null && reactionFilter === null)
+      return messages;
+    const since = reactionFilter
+      ? (startOfPeriod(reactionFilter.period)?.toISOString() ?? null)
+      : null;
+    return messages.filter(
+      (msg) =>
+        filters.every((ids) => ids.has(msg.id)) &&
+        (flagFilter === null || matchesFlagFilter(msg, flagFilter)) &&
+        (reactionFilter === null ||
+          matchesReactionFilter(msg, reactionFilter.emoji, since))
+    );
+  }, [messages, channelSearchResults, tagResults, flagFilter, reactionFilter]);
+  // 絞り込みメニューに出す、チャンネル内で使われているリアクション
+  const usedReactions = useMemo(
+    () => [
+      ...new Set(
+        messages
+          .flatMap((msg) => [msg, ...msg.replies])
+          .flatMap((entry) => entry.reactions ?? [])
+          .map((reaction) => reaction.emoji)
+      ),
+    ],
+    [messages]
+  );
+  const pinnedMessages = useMemo(
+    () => messages.filter((msg) => msg.pinned),
+    [messages]
+  );
+  const isFiltered =
+    channelSearchResults !== null ||
+    tagResults !== null ||
+    flagFilter !== null ||
+    reactionFilter !== null;
+
+  // 移動先の投稿が表示されたら、画面の中央まで移動する
+  useEffect(() => {
+    if (jumpTarget === null) return;
+    const element = document.getElementById(`message-${jumpTarget}`);
+    if (!element) return;
+    element.scrollIntoView({ behavior: "smooth", block: "center" });
+    setJumpTarget(null);
+  }, [jumpTarget, visibleMessages]);
+  // 選んだ投稿が絞り込みなどで表示されなくなったら、選んでいないものとして扱う
+  const selectedIndex = visibleMessages.findIndex(
+    (msg) => msg.id === selectedMessageId
+  );
+  const focusedMessageId =
+    channelSearchResults && channelSearchResults.length > 0
+      ? channelSearchResults[
+          Math.min(searchPosition, channelSearchResults.length - 1)
+        ]
+      : selectedIndex >= 0
+        ? visibleMessages[selectedIndex].id
+        : null;
+
+  // チャンネルを開き、既読にする（未読の区切りは前回読んだ位置に出す）
+  // 投稿欄にはsavedにあるそのチャンネルの下書きを戻す
+  const openChannel = (channel: Channel, saved: Draft[] = drafts) => {
+    const opened = { ...channel, lastReadAt: new Date().toISOString() };
+    setChannels((prev) =>
+      prev.map((item) => (item.id === opened.id ? opened : item))
+    );
+    putChannelToDB(opened).catch(reportDBError(setSnackbar, "db.saveFailed"));
+    setUnreadCounts((prev) => ({ ...prev, [channel.id]: 0 }));
+    setUnreadSince(channel.lastReadAt);
+    restoreComposer(saved, channel.id, null);
+    setEditingMessage(null);
+    setSelectedMessageId(null);
+    setSearchPosition(0);
+    setActiveChannelId(channel.id);
+  };
+
+  // 離れるチャンネルには下書きと、ここまで読んだことを保存してから移る
+  const switchChannel = (target: Channel) => {
+    const saved = flushDrafts();
+    if (activeChannel) {
+      const left = {
+        ...activeChannel,
+        lastReadAt: new Date().toISOString(),
+      };
+      setChannels((prev) =>
+        prev.map((channel) => (channel.id === left.id ? left : channel))
+      );
+      putChannelToDB(left).catch(reportDBError(setSnackbar, "db.saveFailed"));
+    }
+    openChannel(target, saved);
+  };
+
+  const handleSelectChannel = (channelId: number) => {
+    if (channelId === activeChannelId) return;
+    const target = channels.find((channel) => channel.id === channelId);
+    if (target) switchChannel(target);
+  };
+
+  // インポートや復元のあとに、チャンネルと開いているチャンネルのメッセージを読み直す
+  const reloadChannels = async () => {
+    const storedChannels = await loadOrCreateChannels();
+    setChannels(storedChannels);
+    setUnreadCounts(await countUnreadMessages(storedChannels));
+    const current = storedChannels.find(
+      (channel) => channel.id === activeChannelId
+    );
+    if (current) {
+      setMessages(await loadMessagesFromDB(current.id));
+    } else {
+      openChannel(pickLastOpenedChannel(storedChannels));
+    }
+  };
+
+  // 書き込みに失敗したら知らせて、先に更新した画面の状態をDBの内容に戻す
+  const recoverFromWriteError = (error: unknown) => {
+    reportDBError(setSnackbar, "db.saveFailed")(error);
+    reloadChannels().catch(reportDBError(setSnackbar, "db.loadFailed"));
+  };
+
+  const handleCreateChannel = async () => {
+    const input = window.prompt(t("channel.promptName"));
+    if (input === null) return;
+    const name = normalizeChannelName(input);
+    const error = validateChannelName(name, channels);
+    if (error) {
+      window.alert(error);
+      return;
+    }
+    const channel = createChannel(name);
+    try {
+      await putChannelToDB(channel);
+    } catch (error) {
+      reportDBError(setSnackbar, "db.saveFailed")(error);
+      return;
+    }
+    setChannels((prev) => [...prev, channel]);
+    switchChannel(channel);
+  };
+
+  const handleRenameChannel = async (channel: Channel) => {
+    const input = window.prompt(t("channel.promptRename"), channel.name);
+    if (input === null) return;
+    const name = normalizeChannelName(input);
+    if (name === channel.name) return;
+    const error = validateChannelName(name, channels, channel.id);
+    if (error) {
+      window.alert(error);
+      return;
+    }
+    const updated = { ...channel, name };
+    setChannels((prev) =>
+      prev.map((item) => (item.id === updated.id ? updated : item))
+    );
+    await putChannelToDB(updated).catch(recoverFromWriteError);
+  };
+
+  const handleToggleArchive = async (channel: Channel) => {
+    const updated = { ...channel, archived: !channel.archived };
+    setChannels((prev) =>
+      prev.map((item) => (item.id === updated.id ? updated : item))
+    );
+    await putChannelToDB(updated).catch(recoverFromWriteError);
+  };
+
+  // チャンネルを削除する（メッセージはゴミ箱に移す）
+  const handleDeleteChannel = async (channel: Channel) => {
+    if (channels.length <= 1) return;
+    if (!window.confirm(t("channel.confirmDelete", { name: channel.name }))) {
+      return;
     }
-  }, [messages]);
+    let trashIds: number[];
+    try {
+      trashIds = await deleteChannelFromDB(channel.id);
+    } catch (error) {
+      reportDBError(setSnackbar, "db.saveFailed")(error);
+      return;
+    }
+    const remaining = channels.filter((item) => item.id !== channel.id);
+    setChannels(remaining);
+    if (channel.id === activeChannelId) {
+      openChannel(remaining.find((item) => !item.archived) ?? remaining[0]);
+    }
+    discardDrafts(
+      drafts
+        .filter((draft) => draft.channelId === channel.id)
+        .map((draft) => draft.key)
+    );
+    recordAction({
+      label: t("channel.deleted", { name: channel.name }),
+      undo: async () => {
+        await putChannelToDB(channel);
+        await restoreFromTrashInDB(trashIds, channel.id);
+      },
+      redo: async () => {
+        trashIds = await deleteChannelFromDB(channel.id);
+      },
+    });
+  };
+
+  // 投稿を返信ごと別のチャンネルに移動する
+  const handleMoveMessage = async (messageId: number, channelId: number) => {
+    const target = messages.find((msg) => msg.id === messageId);
+    if (!target) return;
+    setMessages((prev) => prev.filter((msg) => msg.id !== messageId));
+    try {
+      await modifyMessageInDB(messageId, (latest) => ({
+        ...latest,
+        channelId,
+      }));
+    } catch (error) {
+      recoverFromWriteError(error);
+      return;
+    }
+    const destination = channels.find((channel) => channel.id === channelId);
+    recordAction({
+      label: t("message.moved", { name: destination?.name ?? "" }),
+      undo: () => writeMessageChannel(messageId, target.channelId),
+      redo: () => writeMessageChannel(messageId, channelId),
+    });
+  };
+
+  // 元に戻せる操作を記録し、スナックバーで知らせる
+  const recordAction = (action: UndoableAction) => {
+    pushUndo(action);
+    setSnackbar({ message: action.label, action: "undo" });
+  };
+
+  const handleUndo = async () => {
+    try {
+      const action = await undo();
+      if (!action) return;
+      await reloadChannels();
+      setSnackbar({
+        message: t("undo.undone", { label: action.label }),
+        action: "redo",
+      });
+    } catch {
+      setSnackbar({ message: t("undo.undoFailed") });
+    }
+  };
+
+  const handleRedo = async () => {
+    try {
+      const action = await redo();
+      if (!action) return;
+      await reloadChannels();
+      setSnackbar({
+        message: t("undo.redone", { label: action.label }),
+        action: "undo",
+      });
+    } catch {
+      setSnackbar({ message: t("undo.redoFailed") });
+    }
+  };
+
+  // 入力欄の外で押した1文字のキーでタイムラインを操作する（Slackに近い操作）
+  const handleTimelineKey = (event: KeyboardEvent) => {
+    // ダイアログやメニューを開いている間は、その中の操作を優先する
+    if (
+      event.target instanceof HTMLElement &&
+      event.target.closest("[role='presentation']")
+    ) {
+      return;
+    }
+    const selected = selectedIndex >= 0 ? visibleMessages[selectedIndex] : null;
+    switch (event.key) {
+      case "j":
+      case "k": {
+        if (visibleMessages.length === 0) return;
+        // 選んでいなければ、いちばん新しい投稿から始める
+        const next =
+          selectedIndex < 0
+            ? visibleMessages.length - 1
+            : Math.min(
+                visibleMessages.length - 1,
+                Math.max(0, selectedIndex + (event.key === "j" ? 1 : -1))
+              );
+        setSelectedMessageId(visibleMessages[next].id);
+        break;
+      }
+      case "r":
+        if (!selected || !activeChannel || activeChannel.archived) return;
+        handleStartReply(selected.id);
+        messageInputRef.current?.focus();
+        break;
+      case "e":
+        if (!selected || selected.user.id !== currentProfile.id) return;
+        handleStartEdit({ id: selected.id, text: selected.text });
+        break;
+      case "/":
+        searchInputRef.current?.focus();
+        break;
+      case "Escape":
+        if (editingMessage) {
+          handleCancelEdit();
+        } else if (replyingTo !== null) {
+          handleCancelReply();
+        } else {
+          setSelectedMessageId(null);
+        }
+        return;
+      default:
+        return;
+    }
+    event.preventDefault();
+  };
+
+  // Ctrl+Z / Ctrl+Y（Ctrl+Shift+Z）で元に戻す・やり直す
+  // Ctrl+K（Macは⌘+K）は入力欄の中からでもコマンドパレットを開く
+  const shortcutHandlers = useRef({
+    undo: handleUndo,
+    redo: handleRedo,
+    togglePalette: () => setIsPaletteOpen((prev) => !prev),
+    timelineKey: handleTimelineKey,
+  });
+  useEffect(() => {
+    shortcutHandlers.current = {
+      undo: handleUndo,
+      redo: handleRedo,
+      togglePalette: () => setIsPaletteOpen((prev) => !prev),
+      timelineKey: handleTimelineKey,
+    };
+  });
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isComposing(event)) return;
+      const key = event.key.toLowerCase();
+      const hasModifier = event.ctrlKey || event.metaKey;
+      if (hasModifier && key === "k") {
+        event.preventDefault();
+        shortcutHandlers.current.togglePalette();
+        return;
+      }
+      // 入力欄の中では、ブラウザ標準の文字入力の取り消しを使う
+      if (isTypingTarget(event.target)) return;
+      if (!hasModifier) {
+        if (!event.altKey) shortcutHandlers.current.timelineKey(event);
+        return;
+      }
+      if (key === "z" && !event.shiftKey) {
+        event.preventDefault();
+        shortcutHandlers.current.undo();
+      } else if (key === "y" || (key === "z" && event.shiftKey)) {
+        event.preventDefault();
+        shortcutHandlers.current.redo();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  // 他のタブでの書き込みを、DBから読み直して反映する
+  const handleSyncEvent = async ({ scopes }: SyncEvent) => {
+    if (scopes.includes("settings")) {
+      const savedCompression = await loadSettingFromDB<
+        Partial<ImageCompressionSettings>
+      >(IMAGE_COMPRESSION_SETTING_KEY);
+      setImageCompression({
+        ...DEFAULT_IMAGE_COMPRESSION,
+        ...savedCompression,
+      });
+      setLocale(await loadSavedLocale());
+      setAppearance(await loadAppearance());
+    }
+    if (scopes.includes("profiles")) {
+      setProfiles(await loadOrCreateProfiles());
+    }
+    if (scopes.includes("drafts")) {
+      // 入力中の対象の下書きはこのタブのものを残す
+      // （書き戻し合って、タブ同士で下書きを上書きし続けないようにする）
+      const localKeys = [composerTarget, editTarget].flatMap((target) =>
+        target ? [draftKey(target)] : []
+      );
+      const storedDrafts = await loadDraftsFromDB();
+      setDrafts((prev) => [
+        ...storedDrafts.filter((draft) => !localKeys.includes(draft.key)),
+        ...prev.filter((draft) => localKeys.includes(draft.key)),
+      ]);
+    }
+    if (scopes.includes("trash") && isTrashOpen) {
+      setTrashEntries(await loadTrashFromDB());
+    }
+    if (!scopes.includes("channels") && !scopes.includes("messages")) return;
+
+    const storedChannels = await loadOrCreateChannels();
+    const current = storedChannels.find(
+      (channel) => channel.id === activeChannelId
+    );
+    if (!current) {
+      // 開いていたチャンネルが別のタブで削除された
+      setChannels(storedChannels);
+      setUnreadCounts(await countUnreadMessages(storedChannels));
+      openChannel(pickLastOpenedChannel(storedChannels));
+      return;
+    }
+    // 開いているチャンネルの既読日時はこのタブのものを残す
+    setChannels((prev) =>
+      storedChannels.map((channel) => {
+        const local = prev.find((item) => item.id === channel.id);
+        return channel.id === current.id && local
+          ? { ...channel, lastReadAt: local.lastReadAt }
+          : channel;
+      })
+    );
+    const counts = await countUnreadMessages(storedChannels);
+    setUnreadCounts({ ...counts, [current.id]: 0 });
+    if (scopes.includes("messages")) {
+      setMessages(await loadMessagesFromDB(current.id));
+    }
+  };
+
+  const syncHandler = useRef(handleSyncEvent);
+  useEffect(() => {
+    syncHandler.current = handleSyncEvent;
+  });
+  useEffect(() => subscribeSync((event) => syncHandler.current(event)), []);
+
+  // ゴミ箱を開く
+  const handleOpenTrash = async () => {
+    try {
+      setTrashEntries(await loadTrashFromDB());
+      setIsTrashOpen(true);
+    } catch (error) {
+      reportDBError(setSnackbar, "db.loadFailed")(error);
+    }
+  };
+
+  const handleRestoreFromTrash = async (trashIds: number[]) => {
+    try {
+      await restoreFromTrashInDB(
+        trashIds,
+        activeChannelId ?? DEFAULT_CHANNEL_ID
+      );
+      setTrashEntries(await loadTrashFromDB());
+      await reloadChannels();
+      setSnackbar({ message: t("trash.restored") });
+    } catch (error) {
+      recoverFromWriteError(error);
+    }
+  };
+
+  const handleDeleteForever = async (trashIds: number[]) => {
+    if (
+      !window.confirm(
+        t("trash.confirmDeleteForever", { count: trashIds.length })
+      )
+    ) {
+      return;
+    }
+    try {
+      await deleteFromTrashInDB(trashIds);
+      setTrashEntries(await loadTrashFromDB());
+    } catch (error) {
+      reportDBError(setSnackbar, "db.saveFailed")(error);
+    }
+    updateStorageUsage();
+  };
 
   // ストレージ使用量を更新する関数
   const updateStorageUsage = async () => {
-    if (navigator.storage && navigator.storage.estimate) {
-      const { usage, quota } = await navigator.storage.estimate();
-      setStorageUsage({ used: usage || 0, quota: quota || 0 });
-    }
+    const usage = await estimateStorageUsage();
+    if (usage) setStorageUsage(usage);
   };
 
   // 設定ダイアログを開く
@@ -140,282 +1343,1068 @@ function App() {
     updateStorageUsage(); // ダイアログを開くときに使用量を更新
   };
 
+  const handleSelectProfile = (id: number) => {
+    setCurrentProfileId(id);
+    saveSettingToDB(CURRENT_PROFILE_SETTING_KEY, id).catch(
+      reportDBError(setSnackbar, "db.saveFailed")
+    );
+  };
+
+  // 名前などを変えたときは、投稿に保存した投稿者の写しも書き換わるため読み直す
+  const handleSaveProfile = async (profile: Profile) => {
+    try {
+      await saveProfileToDB(profile);
+      setProfiles(await loadOrCreateProfiles());
+      if (activeChannelId !== null) {
+        setMessages(await loadMessagesFromDB(activeChannelId));
+      }
+    } catch (error) {
+      reportDBError(setSnackbar, "db.saveFailed")(error);
+    }
+  };
+
+  const handleDeleteProfile = async (id: number) => {
+    try {
+      await deleteProfileFromDB(id);
+      setProfiles(await loadOrCreateProfiles());
+    } catch (error) {
+      reportDBError(setSnackbar, "db.saveFailed")(error);
+    }
+  };
+
+  const handleChangeLocale = (next: Locale) => {
+    setLocale(next);
+    saveSettingToDB(LOCALE_SETTING_KEY, next).catch(
+      reportDBError(setSnackbar, "db.saveFailed")
+    );
+  };
+
+  const handleChangeAppearance = (settings: AppearanceSettings) => {
+    setAppearance(settings);
+    saveSettingToDB(APPEARANCE_SETTING_KEY, settings).catch(
+      reportDBError(setSnackbar, "db.saveFailed")
+    );
+  };
+
+  const handleChangeImageCompression = (settings: ImageCompressionSettings) => {
+    setImageCompression(settings);
+    saveSettingToDB(IMAGE_COMPRESSION_SETTING_KEY, settings).catch(
+      reportDBError(setSnackbar, "db.saveFailed")
+    );
+  };
+
+  // 再圧縮や古い画像の削除で添付ファイルが変わるため、表示中のメッセージを読み直す
+  const handleAttachmentsChanged = async () => {
+    if (activeChannelId !== null) {
+      setMessages(await loadMessagesFromDB(activeChannelId));
+    }
+    updateStorageUsage();
+  };
+
   // 設定ダイアログを閉じる
   const handleCloseSettings = () => {
     setIsSettingsOpen(false);
   };
 
-  // キャッシュをクリアする
+  // すべてのチャンネルのメッセージをゴミ箱に移す
   const handleClearCache = async () => {
-    if (
-      window.confirm(
-        "本当にすべてのメッセージを削除しますか？この操作は元に戻せません。"
-      )
-    ) {
-      await clearAllMessagesFromDB();
+    if (window.confirm(t("settings.confirmTrashAll"))) {
+      let trashIds: number[];
+      try {
+        trashIds = await trashAllMessagesInDB();
+      } catch (error) {
+        reportDBError(setSnackbar, "db.saveFailed")(error);
+        return;
+      }
       setMessages([]); // メッセージを空にする
       handleCloseSettings(); // ダイアログを閉じる
-      updateStorageUsage(); // 使用量を更新
+      setUnreadCounts({});
+      recordAction({
+        label: t("settings.trashedAll"),
+        undo: () =>
+          restoreFromTrashInDB(trashIds, activeChannelId ?? DEFAULT_CHANNEL_ID),
+        redo: async () => {
+          trashIds = await trashAllMessagesInDB();
+        },
+      });
     }
   };
 
+  // すべてのチャンネルを チャンネル名/YYYY-MM-DD/YYYY-MM-DD.md の形で書き出す
   const handleExportZip = async () => {
-    const zip = new JSZip();
-    const dailyMessages: { [key: string]: Message[] } = {};
-
-    // 日付ごとにメッセージをグループ化
-    messages.forEach((msg) => {
-      const date = new Date(msg.id).toISOString().split("T")[0]; // YYYY-MM-DD
-      if (!dailyMessages[date]) {
-        dailyMessages[date] = [];
+    try {
+      const [allMessages, allChannels, allProfiles] = await Promise.all([
+        loadMessagesFromDB(),
+        loadChannelsFromDB(),
+        loadProfilesFromDB(),
+      ]);
+      const content = await exportMessagesToZip(
+        allMessages,
+        allChannels,
+        allProfiles
+      );
+      saveAs(content, "anytimes-export.zip");
+    } catch (error) {
+      reportDBError(setSnackbar, "db.loadFailed")(error);
+    }
+  };
+
+  // エクスポートしたZIPからメッセージを復元する
+  const handleImportZip = async (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const file = event.target.files?.[0];
+    // 同じファイルを連続で選択できるように、inputの値をリセットする
+    event.target.value = "";
+    if (!file) return;
+
+    if (activeChannelId === null) return;
+    setIsImporting(true);
+    try {
+      const imported = await importMessagesFromZip(
+        file,
+        await loadMessagesFromDB(),
+        channels,
+        activeChannelId,
+        profiles
+      );
+      if (imported.messages.length === 0) {
+        window.alert(t("import.nothingNew"));
+        return;
       }
-      dailyMessages[date].push(msg);
-    });
+      await putMessagesToDB(
+        imported.messages,
+        imported.attachments,
+        imported.channels
+      );
+      await reloadChannels();
+      updateStorageUsage();
+      window.alert(t("import.imported", { count: imported.messages.length }));
+    } catch (error) {
+      console.error("ZIPのインポートに失敗しました", error);
+      window.alert(t("import.failed"));
+    } finally {
+      setIsImporting(false);
+    }
+  };
 
-    for (const date in dailyMessages) {
-      const dateFolder = zip.folder(date);
-      if (!dateFolder) continue;
+  // DBの内容をそのままJSONとして保存する
+  const handleCreateBackup = async () => {
+    try {
+      const backup = await createBackup(
+        await loadMessagesFromDB(),
+        await loadAllAttachmentsFromDB(),
+        await loadChannelsFromDB(),
+        await loadProfilesFromDB()
+      );
+      const blob = new Blob([JSON.stringify(backup, null, 2)], {
+        type: "application/json",
+      });
+      const date = toLocalDateKey(new Date());
+      saveAs(blob, `anytimes-backup-${date}.json`);
+    } catch (error) {
+      reportDBError(setSnackbar, "db.loadFailed")(error);
+    }
+  };
 
-      let markdownContent = `# ${date}\n\n`;
-      let imageCounter = 1;
+  // バックアップファイルを検証し、復元方法の確認ダイアログを開く
+  const handleSelectBackup = async (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
 
-      for (const msg of dailyMessages[date]) {
-        markdownContent += `## ${msg.timestamp} ${msg.user.name}\n`;
-        markdownContent += `${msg.text}\n`;
+    try {
+      setPendingBackup(parseBackup(await file.text()));
+      setRestoreMode("merge");
+    } catch (error) {
+      window.alert(
+        t("backup.loadFailed", { message: (error as Error).message })
+      );
+    }
+  };
 
-        if (msg.image) {
-          const decoded = decodeDataURL(msg.image);
-          if (decoded) {
-            const extension = decoded.mime.split("/")[1] || "png";
-            const imageName = `image-${imageCounter++}.${extension}`;
-            dateFolder.file(imageName, decoded.data, { base64: true });
-            markdownContent += `![画像](./${imageName})\n`;
-          }
-        }
+  const handleRestoreBackup = async () => {
+    if (!pendingBackup) return;
+    if (
+      restoreMode === "replace" &&
+      !window.confirm(t("backup.confirmReplace"))
+    ) {
+      return;
+    }
 
-        for (const reply of msg.replies) {
-          markdownContent += `### ${reply.timestamp}\n`;
-          markdownContent += `${reply.text}\n`;
-          if (reply.image) {
-            const decoded = decodeDataURL(reply.image);
-            if (decoded) {
-              const extension = decoded.mime.split("/")[1] || "png";
-              const imageName = `image-${imageCounter++}.${extension}`;
-              dateFolder.file(imageName, decoded.data, { base64: true });
-              markdownContent += `![画像](./${imageName})\n`;
-            }
-          }
-        }
-        markdownContent += `\n`;
+    try {
+      if (restoreMode === "replace") {
+        await saveMessagesToDB(
+          pendingBackup.messages,
+          pendingBackup.attachments,
+          pendingBackup.channels,
+          pendingBackup.profiles
+        );
+      } else {
+        // 同じIDのチャンネルとプロフィールはバックアップの内容で上書きする
+        await putMessagesToDB(
+          mergeMessagesById(await loadMessagesFromDB(), pendingBackup.messages),
+          pendingBackup.attachments,
+          pendingBackup.channels,
+          pendingBackup.profiles
+        );
       }
-      dateFolder.file(`${date}.md`, markdownContent);
+      setProfiles(await loadOrCreateProfiles());
+      await reloadChannels();
+      setPendingBackup(null);
+      updateStorageUsage();
+    } catch {
+      window.alert(t("backup.restoreFailed"));
     }
-
-    const content = await zip.generateAsync({ type: "blob" });
-    saveAs(content, "anytimes-export.zip");
   };
 
-  const handleFileSelect = (file: File) => {
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      setImagePreview(reader.result as string);
-    };
-    reader.readAsDataURL(file);
+  const handleFilesSelect = (files: File[]) => {
+    setPendingFiles((prev) => [...prev, ...files]);
   };
 
-  const handleRemovePreview = () => {
-    setImagePreview(null);
+  const handleRemovePendingFile = (index: number) => {
+    setPendingFiles((prev) => prev.filter((_, i) => i !== index));
   };
 
-  const handleSendMessage = () => {
-    if (newMessage.trim() === "" && !imagePreview) return;
+  const handleSendMessage = async () => {
+    if (activeChannelId === null || sendingRef.current) return;
+    if (newMessage.trim() === "" && pendingFiles.length === 0) return;
+    const target =
+      replyingTo !== null
+        ? messages.find((msg) => msg.id === replyingTo)
+        : undefined;
+    if (replyingTo !== null && !target) return;
 
-    if (replyingTo !== null) {
-      const newReply: Reply = {
-        id: Date.now(),
-        user: { name: "Me", avatar: "M" },
-        text: newMessage,
-        timestamp: new Date().toLocaleTimeString("ja-JP", {
-          hour: "2-digit",
-          minute: "2-digit",
-        }),
-        image: imagePreview || undefined,
-      };
-      const updatedMessages = messages.map((msg) =>
-        msg.id === replyingTo
-          ? { ...msg, replies: [...msg.replies, newReply] }
-          : msg
+    // 保存が終わるまでは入力欄と下書きを残し、失敗したらそのまま送り直せるようにする
+    // 保存を待つ間の二重送信はsendingRefで防ぐ
+    sendingRef.current = true;
+    const text = newMessage;
+    const files = pendingFiles;
+    const key = draftKey(toComposerTarget(activeChannelId, replyingTo));
+    // 自分が書き込んだら、それより前は読んだものとして未読の区切りを消す
+    setUnreadSince(null);
+    // 新しい投稿まで移動できるよう、j/kでの選択をやめる
+    setSelectedMessageId(null);
+
+    // ファイル本体は添付ファイルストアに保存し、メッセージにはIDと名前・種類・サイズを持たせる
+    // 画像は設定に従って縮小・圧縮してから保存する
+    const attachments: Attachment[] = [];
+    const discardAttachments = () =>
+      deleteAttachmentsFromDB(
+        attachments.map((attachment) => attachment.id)
+      ).catch((error) =>
+        console.error("添付ファイルの削除に失敗しました", error)
       );
-      setMessages(updatedMessages);
-    } else {
-      const newMessageObj: Message = {
-        id: Date.now(),
-        user: { name: "Me", avatar: "M" },
-        text: newMessage,
-        timestamp: new Date().toLocaleTimeString("ja-JP", {
-          hour: "2-digit",
-          minute: "2-digit",
-        }),
-        replies: [],
-        image: imagePreview || undefined,
-      };
-      setMessages([...messages, newMessageObj]);
-    }
+    try {
+      for (const file of files) {
+        const { blob, name, originalSize } = await compressImageForStorage(
+          file,
+          file.name || "image.png",
+          imageCompression
+        );
+        const id = await saveAttachmentToDB(blob);
+        attachments.push({
+          id,
+          name,
+          type: blob.type || "application/octet-stream",
+          size: blob.size,
+          originalSize,
+        });
+      }
+      const now = new Date();
 
-    setNewMessage("");
-    setImagePreview(null);
+      if (target) {
+        const newReply: Reply = {
+          id: now.getTime(),
+          user: toAuthor(currentProfile),
+          text,
+          createdAt: now.toISOString(),
+          attachments,
+        };
+        // 他のタブで追加された返信を消さないよう、DB上の最新の投稿に追加する
+        const saved = await modifyMessageInDB(target.id, (latest) => ({
+          ...latest,
+          replies: [...latest.replies, newReply],
+        }));
+        if (!saved) {
+          discardAttachments();
+          setSnackbar({ message: t("reply.targetDeleted") });
+          return;
+        }
+        setMessages((prev) =>
+          prev.map((msg) => (msg.id === saved.id ? saved : msg))
+        );
+      } else {
+        const newMessageObj: Message = {
+          id: now.getTime(),
+          user: toAuthor(currentProfile),
+          text,
+          createdAt: now.toISOString(),
+          replies: [],
+          attachments,
+          channelId: activeChannelId,
+        };
+        await addMessageToDB(newMessageObj);
+        setMessages((prev) => [...prev, newMessageObj]);
+      }
+      // 保存を待つ間に書き足された入力は残す
+      setNewMessage((current) => (current === text ? "" : current));
+      setPendingFiles((current) => (current === files ? [] : current));
+      discardDrafts([key]);
+    } catch (error) {
+      console.error("メッセージの送信に失敗しました", error);
+      discardAttachments();
+      setSnackbar({ message: t("message.sendFailed") });
+    } finally {
+      sendingRef.current = false;
+      updateStorageUsage();
+    }
   };
 
+  // 返信を始める・やめるときは、それまでの入力を下書きに残して投稿欄を切り替える
   const handleStartReply = (messageId: number) => {
+    if (activeChannelId === null) return;
+    const saved = flushDrafts();
     setEditingMessage(null);
-    setReplyingTo(messageId);
+    restoreComposer(saved, activeChannelId, messageId);
   };
 
   const handleCancelReply = () => {
-    setReplyingTo(null);
+    if (activeChannelId === null) return;
+    restoreComposer(flushDrafts(), activeChannelId, null);
   };
 
-  const handleDeleteMessage = (messageId: number, replyId?: number) => {
-    if (
-      window.confirm(
-        "本当にこのメッセージを削除しますか？この操作は元に戻せません。"
-      )
-    ) {
+  // メッセージをゴミ箱に移す（スナックバーから元に戻せる）
+  const handleDeleteMessage = async (messageId: number, replyId?: number) => {
+    const fallbackChannelId = activeChannelId ?? DEFAULT_CHANNEL_ID;
+    // 消した投稿（返信なら消した返信）への返信・編集の下書きも捨てる
+    discardDrafts(
+      drafts
+        .filter(
+          (draft) =>
+            draft.kind !== "post" &&
+            draft.messageId === messageId &&
+            (!replyId || (draft.kind === "edit" && draft.replyId === replyId))
+        )
+        .map((draft) => draft.key)
+    );
+    try {
       if (replyId) {
-        const updatedMessages = messages.map((msg) => {
-          if (msg.id === messageId) {
-            const updatedReplies = msg.replies.filter(
-              (reply) => reply.id !== replyId
-            );
-            return { ...msg, replies: updatedReplies };
-          }
-          return msg;
+        setMessages((prev) =>
+          prev.map((msg) =>
+            msg.id === messageId
+              ? {
+                  ...msg,
+                  replies: msg.replies.filter((reply) => reply.id !== replyId),
+                }
+              : msg
+          )
+        );
+        let trashIds = await trashReplyInDB(messageId, replyId);
+        recordAction({
+          label: t("reply.trashed"),
+          undo: () => restoreFromTrashInDB(trashIds, fallbackChannelId),
+          redo: async () => {
+            trashIds = await trashReplyInDB(messageId, replyId);
+          },
         });
-        setMessages(updatedMessages);
       } else {
-        const updatedMessages = messages.filter((msg) => msg.id !== messageId);
-        setMessages(updatedMessages);
+        setMessages((prev) => prev.filter((msg) => msg.id !== messageId));
+        let trashIds = await trashMessageInDB(messageId);
+        recordAction({
+          label: t("message.trashed"),
+          undo: () => restoreFromTrashInDB(trashIds, fallbackChannelId),
+          redo: async () => {
+            trashIds = await trashMessageInDB(messageId);
+          },
+        });
       }
+    } catch (error) {
+      recoverFromWriteError(error);
     }
   };
 
+  // 書きかけの編集があれば、その続きから編集する
   const handleStartEdit = (editInfo: EditingMessage) => {
-    setReplyingTo(null);
+    if (activeChannelId === null) return;
+    const saved = flushDrafts();
+    if (replyingTo !== null) restoreComposer(saved, activeChannelId, null);
     setEditingMessage(editInfo);
+    setEditText(
+      findDraft(saved, toEditTarget(activeChannelId, editInfo))?.text ??
+        editInfo.text
+    );
   };
 
+  // 編集をやめたら、書きかけの本文も捨てる
   const handleCancelEdit = () => {
+    if (editTarget) discardDrafts([draftKey(editTarget)]);
     setEditingMessage(null);
   };
 
+  // 本文を更新し、それまでの本文を編集履歴に残す
+  // baseTextは編集を始めたときの本文。別のタブで先に変更されていたら、保存せずに競合を知らせる
+  // （nullなら確認せずに上書きする）
+  const saveEdit = async (
+    target: { id: number; replyId?: number },
+    text: string,
+    baseText: string | null
+  ) => {
+    const { id, replyId } = target;
+    const result: {
+      before?: EditableFields;
+      after?: EditableFields;
+      theirs?: string;
+      missing?: boolean;
+    } = {};
+    const saved = await modifyMessageInDB(id, (latest) => {
+      const entry = findEntry(latest, replyId);
+      if (!entry) {
+        result.missing = true;
+        return null;
+      }
+      if (entry.text === text) return null;
+      if (baseText !== null && entry.text !== baseText) {
+        result.theirs = entry.text;
+        return null;
+      }
+      result.before = {
+        text: entry.text,
+        editedAt: entry.editedAt,
+        history: entry.history,
+      };
+      result.after = {
+        text,
+        editedAt: new Date().toISOString(),
+        history: [
+          ...(entry.history ?? []),
+          { text: entry.text, savedAt: entry.editedAt ?? entry.createdAt },
+        ],
+      };
+      return replaceEditableFields(latest, replyId, result.after);
+    });
+
+    if (result.theirs !== undefined) {
+      setEditConflict({ id, replyId, mine: text, theirs: result.theirs });
+      return;
+    }
+    if (result.missing) {
+      setSnackbar({ message: t("message.editTargetDeleted") });
+      return;
+    }
+    const { before, after } = result;
+    if (!saved || !before || !after) return;
+    setMessages((prev) => prev.map((msg) => (msg.id === id ? saved : msg)));
+    recordAction({
+      label: t("message.edited"),
+      undo: () => writeEditableFields(id, replyId, before),
+      redo: () => writeEditableFields(id, replyId, after),
+    });
+  };
+
   const handleUpdateMessage = (editInfo: EditingMessage) => {
     const { id, replyId, text } = editInfo;
     if (text.trim() === "") return;
+    const baseText = editingMessage?.text ?? null;
+    if (editTarget) discardDrafts([draftKey(editTarget)]);
+    setEditingMessage(null);
+    saveEdit({ id, replyId }, text, baseText).catch(
+      reportDBError(setSnackbar, "db.saveFailed")
+    );
+  };
 
-    const updatedMessages = messages.map((msg) => {
-      if (msg.id === id) {
-        if (replyId) {
-          const updatedReplies = msg.replies.map((reply) =>
-            reply.id === replyId ? { ...reply, text } : reply
-          );
-          return { ...msg, replies: updatedReplies };
-        } else {
-          return { ...msg, text };
-        }
+  // タグの名前を変える。既にあるタグの名前にすると、そのタグに統合する
+  const handleRenameTag = async (tag: string) => {
+    const input = window.prompt(t("tag.promptRename"), tag);
+    if (input === null) return;
+    const renamed = normalizeTag(input.trim());
+    if (renamed === tag) return;
+    if (!isValidTag(renamed)) {
+      window.alert(t("tag.invalid"));
+      return;
+    }
+    try {
+      const count = await renameTagInDB(tag, renamed);
+      if (tagFilter === tag) setTagFilter(renamed);
+      if (activeChannelId !== null) {
+        setMessages(await loadMessagesFromDB(activeChannelId));
       }
-      return msg;
-    });
-    setMessages(updatedMessages);
-    setEditingMessage(null);
+      setSnackbar({
+        message: t("tag.renamed", { from: tag, to: renamed, count }),
+      });
+    } catch (error) {
+      reportDBError(setSnackbar, "db.saveFailed")(error);
+    }
+  };
+
+  const handleTogglePin = async (messageId: number) => {
+    try {
+      const saved = await modifyMessageInDB(messageId, (latest) => ({
+        ...latest,
+        pinned: !latest.pinned,
+      }));
+      if (saved) {
+        setMessages((prev) =>
+          prev.map((msg) => (msg.id === messageId ? saved : msg))
+        );
+      }
+    } catch (error) {
+      reportDBError(setSnackbar, "db.saveFailed")(error);
+    }
+  };
+
+  const handleToggleStar = async (target: { id: number; replyId?: number }) => {
+    try {
+      const saved = await modifyMessageInDB(target.id, (latest) =>
+        toggleStar(latest, target.replyId)
+      );
+      if (saved) {
+        setMessages((prev) =>
+          prev.map((msg) => (msg.id === target.id ? saved : msg))
+        );
+      }
+    } catch (error) {
+      reportDBError(setSnackbar, "db.saveFailed")(error);
+    }
+  };
+
+  // 選択中のプロフィールでリアクションを付け外しする
+  const handleToggleReaction = async (
+    target: { id: number; replyId?: number },
+    emoji: string
+  ) => {
+    try {
+      const saved = await modifyMessageInDB(target.id, (latest) =>
+        updateEntry(latest, target.replyId, (entry) => ({
+          ...entry,
+          reactions: toggleReaction(entry.reactions, emoji, currentProfile.id),
+        }))
+      );
+      if (saved) {
+        setMessages((prev) =>
+          prev.map((msg) => (msg.id === target.id ? saved : msg))
+        );
+      }
+    } catch (error) {
+      reportDBError(setSnackbar, "db.saveFailed")(error);
+    }
   };
 
+  // チェックボックスの切り替えは編集として扱わない（履歴や編集日時を残さない）
+  const handleToggleTask = async (
+    target: { id: number; replyId?: number },
+    line: number
+  ) => {
+    try {
+      const saved = await modifyMessageInDB(target.id, (latest) =>
+        updateEntry(latest, target.replyId, (entry) => ({
+          ...entry,
+          text: toggleTaskAt(entry.text, line),
+        }))
+      );
+      if (saved) {
+        setMessages((prev) =>
+          prev.map((msg) => (msg.id === target.id ? saved : msg))
+        );
+      }
+    } catch (error) {
+      reportDBError(setSnackbar, "db.saveFailed")(error);
+    }
+  };
+
+  // 投稿のあるチャンネルを開き、前後の投稿も見えるよう絞り込みを解除して移動する
+  const handleJumpToMessage = (target: { channelId: number; id: number }) => {
+    setIsSavedOpen(false);
+    setIsTasksOpen(false);
+    setSearchQuery("");
+    setTagFilter(null);
+    setFlagFilter(null);
+    setReactionFilter(null);
+    const channel = channels.find((item) => item.id === target.channelId);
+    if (channel && channel.id !== activeChannelId) switchChannel(channel);
+    setJumpTarget(target.id);
+  };
+
+  // 選んだ日以降の最初の投稿まで移動する（開いているチャンネルの中で探す）
+  const handleJumpToDate = (dateKey: string) => {
+    const target = messages.find(
+      (msg) => toLocalDateKey(new Date(msg.createdAt)) >= dateKey
+    );
+    if (!target) {
+      setSnackbar({ message: t("palette.noPostsAfter") });
+      return;
+    }
+    handleJumpToMessage(target);
+    setSelectedMessageId(target.id);
+  };
+
+  // 入力欄が空のときに↑で、このチャンネルの自分の最後の投稿（返信を含む）を編集する
+  const handleEditLastPost = () => {
+    let latest: { target: EditingMessage; createdAt: string } | null = null;
+    for (const msg of messages) {
+      for (const entry of [msg, ...msg.replies]) {
+        if (entry.user.id !== currentProfile.id) continue;
+        if (latest && latest.createdAt > entry.createdAt) continue;
+        latest = {
+          target: {
+            id: msg.id,
+            replyId: entry === msg ? undefined : entry.id,
+            text: entry.text,
+          },
+          createdAt: entry.createdAt,
+        };
+      }
+    }
+    if (latest) handleStartEdit(latest.target);
+  };
+
+  // コマンドパレットに並べる操作（日付へ移動はパレット側で加える）
+  const paletteCommands: PaletteCommand[] = [
+    {
+      id: "export",
+      label: t("palette.export"),
+      icon: <Description fontSize="small" />,
+      run: handleExportZip,
+    },
+    {
+      id: "settings",
+      label: t("palette.openSettings"),
+      icon: <Settings fontSize="small" />,
+      run: handleOpenSettings,
+    },
+    {
+      id: "saved",
+      label: t("saved.title"),
+      icon: <Bookmarks fontSize="small" />,
+      run: () => setIsSavedOpen(true),
+    },
+    {
+      id: "tasks",
+      label: t("tasks.title"),
+      icon: <TaskAlt fontSize="small" />,
+      run: () => setIsTasksOpen(true),
+    },
+    {
+      id: "trash",
+      label: t("trash.title"),
+      icon: <DeleteOutline fontSize="small" />,
+      run: handleOpenTrash,
+    },
+    ...channels
+      .filter((channel) => !channel.archived && channel.id !== activeChannelId)
+      .map((channel) => ({
+        id: `channel-${channel.id}`,
+        label: `#${channel.name}`,
+        icon: <Tag fontSize="small" />,
+        run: () => switchChannel(channel),
+      })),
+  ];
+
+  // 競合したときに、自分の本文で上書きする（別のタブでの本文は編集履歴に残る）
+  const handleKeepMyEdit = () => {
+    if (!editConflict) return;
+    saveEdit(editConflict, editConflict.mine, null).catch(
+      reportDBError(setSnackbar, "db.saveFailed")
+    );
+    setEditConflict(null);
+  };
+
+  // 競合したときに、自分の本文を捨てて別のタブでの変更を表示する
+  const handleKeepTheirEdit = async () => {
+    setEditConflict(null);
+    if (activeChannelId !== null) {
+      setMessages(await loadMessagesFromDB(activeChannelId));
+    }
+  };
+
+  // 編集履歴の版に戻す（戻す前の本文も履歴に残る）
+  const handleRollback = (text: string) => {
+    if (!historyTarget) return;
+    const target = messages.find((msg) => msg.id === historyTarget.id);
+    const entry = target && findEntry(target, historyTarget.replyId);
+    if (text.trim() !== "" && entry) {
+      saveEdit(historyTarget, text, entry.text).catch(
+        reportDBError(setSnackbar, "db.saveFailed")
+      );
+    }
+    setHistoryTarget(null);
+  };
+
+  const historyMessage = historyTarget
+    ? messages.find((msg) => msg.id === historyTarget.id)
+    : undefined;
+  const historyEntry = historyTarget?.replyId
+    ? historyMessage?.replies.find(
+        (reply) => reply.id === historyTarget.replyId
+      )
+    : historyMessage;
+
+  // 下書きの印。今入力中の対象には付けない
+  const activeDraftKeys = [composerTarget, editTarget].flatMap((target) =>
+    target ? [draftKey(target)] : []
+  );
+  const draftChannelIds = [...new Set(drafts.map((draft) => draft.channelId))];
+  const timelineDraftKeys = drafts
+    .filter(
+      (draft) => draft.kind !== "post" && !activeDraftKeys.includes(draft.key)
+    )
+    .map((draft) => draft.key);
+
   const replyingToMessage = replyingTo
     ? messages.find((m) => m.id === replyingTo)
     : null;
 
   return (
-    <ThemeProvider theme={darkTheme}>
+    <ThemeProvider theme={theme}>
       <CssBaseline />
+      <GlobalStyles styles={CODE_HIGHLIGHT_STYLES[theme.palette.mode]} />
       <Box sx={{ display: "flex", flexDirection: "column", height: "100vh" }}>
-        <Header onExportMarkdown={handleExportZip}>
+        <Header
+          channelName={activeChannel?.name}
+          onToggleSidebar={() => setIsSidebarOpen((prev) => !prev)}
+          onExportMarkdown={handleExportZip}
+          searchQuery={searchQuery}
+          onSearchChange={handleSearchChange}
+          searchResultCount={
+            channelSearchResults ? channelSearchResults.length : null
+          }
+          onSearchPrev={() => handleSearchStep(-1)}
+          onSearchNext={() => handleSearchStep(1)}
+          searchInputRef={searchInputRef}
+        >
+          <IconButton
+            color="inherit"
+            aria-label="saved items"
+            onClick={() => setIsSavedOpen(true)}
+          >
+            <Bookmarks />
+          </IconButton>
+          <IconButton
+            color="inherit"
+            aria-label="tasks"
+            onClick={() => setIsTasksOpen(true)}
+          >
+            <TaskAlt />
+          </IconButton>
+          <IconButton
+            color="inherit"
+            aria-label="filter"
+            onClick={(e) => setFilterMenuAnchor(e.currentTarget)}
+          >
+            <FilterList />
+          </IconButton>
           <IconButton color="inherit" onClick={handleOpenSettings}>
             <Settings />
           </IconButton>
+          <ProfileSwitcher
+            profiles={profiles}
+            currentProfile={currentProfile}
+            onSelect={handleSelectProfile}
+            onManage={handleOpenSettings}
+          />
         </Header>
 
-        <Box sx={{ flexGrow: 1, overflowY: "auto", p: 2 }}>
-          <Container maxWidth="lg">
-            <Timeline
-              messages={messages}
-              editingMessage={editingMessage}
-              onStartReply={handleStartReply}
-              onDeleteMessage={handleDeleteMessage}
-              onStartEdit={handleStartEdit}
-              onCancelEdit={handleCancelEdit}
-              onUpdateMessage={handleUpdateMessage}
-            />
-          </Container>
-        </Box>
+        {dbError && (
+          <Alert
+            severity="error"
+            action={
+              <Button
+                color="inherit"
+                size="small"
+                onClick={() => window.location.reload()}
+              >
+                {t("db.reload")}
+              </Button>
+            }
+          >
+            {dbError}
+          </Alert>
+        )}
+        {dbStatus === "blocked" && (
+          <Alert severity="warning">{t("db.blocked")}</Alert>
+        )}
+        {dbStatus === "versionchange" && (
+          <Alert
+            severity="info"
+            action={
+              <Button
+                color="inherit"
+                size="small"
+                onClick={() => window.location.reload()}
+              >
+                {t("db.reload")}
+              </Button>
+            }
+          >
+            {t("db.versionChange")}
+          </Alert>
+        )}
+        {dbStatus === "quotaexceeded" ? (
+          <Alert
+            severity="error"
+            action={
+              <Button color="inherit" size="small" onClick={handleOpenSettings}>
+                {t("storage.manage")}
+              </Button>
+            }
+            onClose={() => setDbStatus(null)}
+          >
+            {t("storage.quotaExceeded")}
+          </Alert>
+        ) : (
+          isStorageNearlyFull && (
+            <Alert
+              severity="warning"
+              action={
+                <Button
+                  color="inherit"
+                  size="small"
+                  onClick={handleOpenSettings}
+                >
+                  {t("storage.manage")}
+                </Button>
+              }
+            >
+              {t("storage.nearlyFull", {
+                percent: Math.round(STORAGE_WARNING_RATIO * 100),
+              })}
+            </Alert>
+          )
+        )}
 
-        {!editingMessage && (
-          <Box sx={{ p: 2, backgroundColor: "background.paper" }}>
-            <Container maxWidth="lg">
-              {imagePreview && (
-                <Box sx={{ mb: 1, position: "relative", width: "fit-content" }}>
-                  <img
-                    src={imagePreview}
-                    alt="Preview"
-                    style={{ maxHeight: "100px", borderRadius: "8px" }}
+        <Box sx={{ display: "flex", flexGrow: 1, minHeight: 0 }}>
+          {activeChannelId !== null && (
+            <ChannelSidebar
+              channels={channels}
+              activeChannelId={activeChannelId}
+              unreadCounts={unreadCounts}
+              draftChannelIds={draftChannelIds}
+              open={isSidebarOpen}
+              onClose={() => setIsSidebarOpen(false)}
+              onSelectChannel={handleSelectChannel}
+              onCreateChannel={handleCreateChannel}
+              onRenameChannel={handleRenameChannel}
+              onToggleArchive={handleToggleArchive}
+              onDeleteChannel={handleDeleteChannel}
+              tags={tagCounts}
+              activeTag={tagFilter}
+              onSelectTag={setTagFilter}
+              onRenameTag={handleRenameTag}
+            />
+          )}
+          <Box
+            sx={{
+              display: "flex",
+              flexDirection: "column",
+              flexGrow: 1,
+              minWidth: 0,
+            }}
+          >
+            <Box sx={{ flexGrow: 1, overflowY: "auto", p: 2 }}>
+              <Container maxWidth="lg">
+                {(tagFilter !== null ||
+                  flagFilter !== null ||
+                  reactionFilter !== null) && (
+                  <Box
+                    sx={{ mb: 1, display: "flex", gap: 1, flexWrap: "wrap" }}
+                  >
+                    {tagFilter !== null && (
+                      <Chip
+                        label={t("filter.byTag", {
+                          tag: tagFilter,
+                          count: visibleMessages.length,
+                        })}
+                        color="primary"
+                        onDelete={() => setTagFilter(null)}
+                      />
+                    )}
+                    {flagFilter !== null && (
+                      <Chip
+                        label={t("filter.byFlag", {
+                          flag: t(FLAG_FILTER_LABEL_KEYS[flagFilter]),
+                          count: visibleMessages.length,
+                        })}
+                        color="primary"
+                        onDelete={() => setFlagFilter(null)}
+                      />
+                    )}
+                    {reactionFilter !== null && (
+                      <>
+                        <Chip
+                          label={t("filter.byReaction", {
+                            emoji: reactionFilter.emoji,
+                            count: visibleMessages.length,
+                          })}
+                          color="primary"
+                          onDelete={() => setReactionFilter(null)}
+                        />
+                        <Select
+                          size="small"
+                          value={reactionFilter.period}
+                          onChange={(e) =>
+                            setReactionFilter({
+                              ...reactionFilter,
+                              period: e.target.value as DatePeriod,
+                            })
+                          }
+                          sx={{ height: 32 }}
+                        >
+                          {DATE_PERIODS.map((period) => (
+                            <MenuItem key={period} value={period}>
+                              {formatPeriod(period)}
+                            </MenuItem>
+                          ))}
+                        </Select>
+                      </>
+                    )}
+                  </Box>
+                )}
+                {!isFiltered && (
+                  <PinnedMessages
+                    messages={pinnedMessages}
+                    onJump={(id) => setJumpTarget(id)}
+                    onUnpin={handleTogglePin}
                   />
-                  <IconButton
-                    size="small"
-                    onClick={handleRemovePreview}
-                    sx={{
-                      position: "absolute",
-                      top: -10,
-                      right: -10,
-                      backgroundColor: "rgba(0,0,0,0.7)",
-                    }}
+                )}
+                <Timeline
+                  messages={visibleMessages}
+                  highlightWords={searchWords}
+                  focusedMessageId={focusedMessageId}
+                  editingMessage={editingMessage}
+                  editText={editText}
+                  onEditTextChange={setEditText}
+                  draftKeys={timelineDraftKeys}
+                  onStartReply={handleStartReply}
+                  onDeleteMessage={handleDeleteMessage}
+                  onStartEdit={handleStartEdit}
+                  onCancelEdit={handleCancelEdit}
+                  onUpdateMessage={handleUpdateMessage}
+                  unreadSince={isFiltered ? null : unreadSince}
+                  moveTargets={channels.filter(
+                    (channel) =>
+                      !channel.archived && channel.id !== activeChannelId
+                  )}
+                  onMoveMessage={handleMoveMessage}
+                  onShowHistory={setHistoryTarget}
+                  activeTag={tagFilter}
+                  onSelectTag={setTagFilter}
+                  onTogglePin={handleTogglePin}
+                  onToggleStar={handleToggleStar}
+                  onToggleReaction={handleToggleReaction}
+                  onToggleTask={handleToggleTask}
+                  profiles={profiles}
+                  currentProfileId={currentProfile.id}
+                  dense={appearance.density === "compact"}
+                />
+              </Container>
+            </Box>
+
+            {activeChannel?.archived && (
+              <Box sx={{ p: 2, backgroundColor: "background.paper" }}>
+                <Container
+                  maxWidth="lg"
+                  sx={{ display: "flex", alignItems: "center", gap: 2 }}
+                >
+                  <Typography variant="body2" sx={{ flexGrow: 1 }}>
+                    {t("channel.archivedNotice", { name: activeChannel.name })}
+                  </Typography>
+                  <Button
+                    variant="outlined"
+                    onClick={() => handleToggleArchive(activeChannel)}
                   >
-                    <Cancel fontSize="small" />
-                  </IconButton>
-                </Box>
-              )}
-              {replyingToMessage && (
-                <Box sx={{ mb: 1 }}>
-                  <Chip
-                    label={`返信中: "${replyingToMessage.text.substring(0, 20)}"...`}
-                    onDelete={handleCancelReply}
-                    color="primary"
-                    size="small"
+                    {t("channel.unarchive")}
+                  </Button>
+                </Container>
+              </Box>
+            )}
+            {!editingMessage && activeChannel && !activeChannel.archived && (
+              <Box sx={{ p: 2, backgroundColor: "background.paper" }}>
+                <Container maxWidth="lg">
+                  <PendingAttachments
+                    files={pendingFiles}
+                    onRemove={handleRemovePendingFile}
                   />
-                </Box>
-              )}
-              <MessageInput
-                newMessage={newMessage}
-                setNewMessage={setNewMessage}
-                handleSendMessage={handleSendMessage}
-                onFileSelect={handleFileSelect}
-              />
-            </Container>
+                  {replyingToMessage && (
+                    <Box sx={{ mb: 1 }}>
+                      <Chip
+                        label={t("reply.replyingTo", {
+                          text: replyingToMessage.text.substring(0, 20),
+                        })}
+                        onDelete={handleCancelReply}
+                        color="primary"
+                        size="small"
+                      />
+                    </Box>
+                  )}
+                  <MessageInput
+                    newMessage={newMessage}
+                    setNewMessage={setNewMessage}
+                    handleSendMessage={handleSendMessage}
+                    onFilesSelect={handleFilesSelect}
+                    onEditLast={handleEditLastPost}
+                    onCancel={handleCancelReply}
+                    inputRef={messageInputRef}
+                  />
+                </Container>
+              </Box>
+            )}
           </Box>
-        )}
+        </Box>
       </Box>
 
       {/* 設定ダイアログ */}
       <Dialog open={isSettingsOpen} onClose={handleCloseSettings}>
-        <DialogTitle>設定</DialogTitle>
+        <DialogTitle>{t("settings.title")}</DialogTitle>
         <DialogContent>
           <Typography variant="h6" gutterBottom>
-            ストレージ使用量
+            {t("settings.language")}
+          </Typography>
+          <Select
+            size="small"
+            fullWidth
+            value={locale}
+            onChange={(e) => handleChangeLocale(e.target.value as Locale)}
+            slotProps={{ input: { "aria-label": "language" } }}
+          >
+            {(Object.keys(LOCALE_NAMES) as Locale[]).map((item) => (
+              <MenuItem key={item} value={item}>
+                {LOCALE_NAMES[item]}
+              </MenuItem>
+            ))}
+          </Select>
+          <Typography variant="h6" sx={{ mt: 3 }} gutterBottom>
+            {t("settings.appearance")}
+          </Typography>
+          <AppearancePanel
+            settings={appearance}
+            onChange={handleChangeAppearance}
+          />
+          <Typography variant="h6" sx={{ mt: 3 }} gutterBottom>
+            {t("settings.profiles")}
+          </Typography>
+          <ProfilePanel
+            profiles={profiles}
+            currentProfileId={currentProfile.id}
+            onSave={handleSaveProfile}
+            onDelete={handleDeleteProfile}
+            onSelect={handleSelectProfile}
+          />
+          <Typography variant="h6" sx={{ mt: 3 }} gutterBottom>
+            {t("settings.storageUsage")}
           </Typography>
           {storageUsage ? (
             <Box>
               <Typography variant="body2">
-                使用済み: {(storageUsage.used / (1024 * 1024)).toFixed(2)} MB
+                {t("settings.used", {
+                  size: (storageUsage.used / (1024 * 1024)).toFixed(2),
+                })}
               </Typography>
               <Typography variant="body2">
-                クォータ: {(storageUsage.quota / (1024 * 1024)).toFixed(2)} MB
+                {t("settings.quota", {
+                  size: (storageUsage.quota / (1024 * 1024)).toFixed(2),
+                })}
               </Typography>
               <LinearProgress
                 variant="determinate"
@@ -424,26 +2413,232 @@ function App() {
               />
             </Box>
           ) : (
-            <Typography variant="body2">使用量を読み込み中...</Typography>
+            <Typography variant="body2">
+              {t("settings.loadingUsage")}
+            </Typography>
           )}
+          <StorageDashboard
+            channels={channels}
+            onImagesDeleted={handleAttachmentsChanged}
+          />
+          <Typography variant="h6" sx={{ mt: 3 }} gutterBottom>
+            {t("settings.imageCompression")}
+          </Typography>
+          <ImageCompressionPanel
+            settings={imageCompression}
+            onChange={handleChangeImageCompression}
+            onRecompressed={handleAttachmentsChanged}
+          />
           <Typography variant="h6" sx={{ mt: 3 }} gutterBottom>
-            データ管理
+            {t("settings.data")}
           </Typography>
+          <input
+            type="file"
+            accept=".zip,application/zip"
+            ref={importInputRef}
+            onChange={handleImportZip}
+            style={{ display: "none" }}
+          />
+          <Button
+            variant="outlined"
+            onClick={() => importInputRef.current?.click()}
+            disabled={isImporting}
+            fullWidth
+            sx={{ mb: 1 }}
+          >
+            {isImporting ? t("settings.importing") : t("settings.importZip")}
+          </Button>
+          <Button
+            variant="outlined"
+            onClick={handleCreateBackup}
+            fullWidth
+            sx={{ mb: 1 }}
+          >
+            {t("settings.createBackup")}
+          </Button>
+          <input
+            type="file"
+            accept=".json,application/json"
+            ref={backupInputRef}
+            onChange={handleSelectBackup}
+            style={{ display: "none" }}
+          />
+          <Button
+            variant="outlined"
+            onClick={() => backupInputRef.current?.click()}
+            fullWidth
+            sx={{ mb: 1 }}
+          >
+            {t("backup.restoreTitle")}
+          </Button>
+          <Button
+            variant="outlined"
+            onClick={handleOpenTrash}
+            fullWidth
+            sx={{ mb: 1 }}
+          >
+            {t("trash.title")}
+          </Button>
           <Button
             variant="contained"
             color="error"
             onClick={handleClearCache}
             fullWidth
           >
-            すべてのメッセージを削除
+            {t("settings.trashAll")}
           </Button>
         </DialogContent>
         <DialogActions>
-          <Button onClick={handleCloseSettings}>閉じる</Button>
+          <Button onClick={handleCloseSettings}>{t("common.close")}</Button>
+        </DialogActions>
+      </Dialog>
+
+      <TrashDialog
+        open={isTrashOpen}
+        entries={trashEntries}
+        channels={channels}
+        retentionDays={TRASH_RETENTION_DAYS}
+        onClose={() => setIsTrashOpen(false)}
+        onRestore={handleRestoreFromTrash}
+        onDeleteForever={handleDeleteForever}
+      />
+
+      <EditConflictDialog
+        conflict={editConflict}
+        onKeepMine={handleKeepMyEdit}
+        onKeepTheirs={handleKeepTheirEdit}
+      />
+      <EditHistoryDialog
+        entry={historyEntry ?? null}
+        onClose={() => setHistoryTarget(null)}
+        onRollback={handleRollback}
+      />
+
+      {/* タイムラインをスター付き・ピン留め・リアクションで絞り込むメニュー */}
+      <Menu
+        anchorEl={filterMenuAnchor}
+        open={filterMenuAnchor !== null}
+        onClose={() => setFilterMenuAnchor(null)}
+      >
+        {(Object.keys(FLAG_FILTER_LABEL_KEYS) as FlagFilter[]).map((filter) => (
+          <MenuItem
+            key={filter}
+            selected={filter === flagFilter}
+            onClick={() => {
+              setFlagFilter(filter === flagFilter ? null : filter);
+              setFilterMenuAnchor(null);
+            }}
+          >
+            {t(FLAG_FILTER_LABEL_KEYS[filter])}
+          </MenuItem>
+        ))}
+        {usedReactions.length > 0 && <Divider />}
+        {usedReactions.length > 0 && (
+          <ListSubheader>{t("filter.reactions")}</ListSubheader>
+        )}
+        {usedReactions.map((emoji) => (
+          <MenuItem
+            key={emoji}
+            selected={emoji === reactionFilter?.emoji}
+            onClick={() => {
+              setReactionFilter(
+                emoji === reactionFilter?.emoji
+                  ? null
+                  : { emoji, period: reactionFilter?.period ?? "all" }
+              );
+              setFilterMenuAnchor(null);
+            }}
+          >
+            {emoji}
+          </MenuItem>
+        ))}
+      </Menu>
+      <SavedItemsDialog
+        open={isSavedOpen}
+        channels={channels}
+        onClose={() => setIsSavedOpen(false)}
+        onJump={handleJumpToMessage}
+        onUnstar={handleToggleStar}
+      />
+      <TasksDialog
+        open={isTasksOpen}
+        channels={channels}
+        onClose={() => setIsTasksOpen(false)}
+        onJump={handleJumpToMessage}
+        onToggleTask={handleToggleTask}
+      />
+      <CommandPalette
+        open={isPaletteOpen}
+        commands={paletteCommands}
+        onClose={() => setIsPaletteOpen(false)}
+        onJumpToDate={handleJumpToDate}
+      />
+
+      <UpdatePrompt />
+      <Snackbar
+        open={snackbar !== null}
+        autoHideDuration={6000}
+        onClose={(_, reason) => {
+          if (reason !== "clickaway") setSnackbar(null);
+        }}
+        message={snackbar?.message}
+        action={
+          snackbar?.action && (
+            <Button
+              color="primary"
+              size="small"
+              onClick={snackbar.action === "undo" ? handleUndo : handleRedo}
+            >
+              {snackbar.action === "undo" ? t("undo.undo") : t("undo.redo")}
+            </Button>
+          )
+        }
+      />
+
+      {/* バックアップ復元ダイアログ */}
+      <Dialog
+        open={pendingBackup !== null}
+        onClose={() => setPendingBackup(null)}
+      >
+        <DialogTitle>{t("backup.restoreTitle")}</DialogTitle>
+        <DialogContent>
+          {pendingBackup && (
+            <Typography variant="body2" gutterBottom>
+              {pendingBackup.exportedAt
+                ? t("backup.summaryWithDate", {
+                    count: pendingBackup.messages.length,
+                    date: formatFullDateTime(pendingBackup.exportedAt),
+                  })
+                : t("backup.summary", { count: pendingBackup.messages.length })}
+            </Typography>
+          )}
+          <RadioGroup
+            value={restoreMode}
+            onChange={(e) => setRestoreMode(e.target.value as RestoreMode)}
+          >
+            <FormControlLabel
+              value="merge"
+              control={<Radio />}
+              label={t("backup.merge")}
+            />
+            <FormControlLabel
+              value="replace"
+              control={<Radio />}
+              label={t("backup.replace")}
+            />
+          </RadioGroup>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setPendingBackup(null)}>
+            {t("common.cancel")}
+          </Button>
+          <Button variant="contained" onClick={handleRestoreBackup}>
+            {t("backup.restore")}
+          </Button>
         </DialogActions>
       </Dialog>
     </ThemeProvider>
   );
 }
 
-export default App;
\ No newline at end of file
+export default App;
@@ -0,0 +1,581 @@
+import {
+  base64ByteLength,
+  base64ToBlob,
+  blobToBase64,
+  decodeDataURL,
+  extensionFromMime,
+} from "./blobUtils";
+import { createAttachmentId, type AttachmentRecord } from "./db";
+import { createdAtFromLegacy } from "./dateUtils";
+import { DEFAULT_CHANNEL_ID, createDefaultChannel } from "./channels";
+import { t } from "./i18n";
+import { type NamedReaction, resolveReactionUsers } from "./reactions";
+import {
+  PROFILE_COLORS,
+  createDefaultProfile,
+  isLegacyOwnAuthor,
+  toAuthor,
+  type Profile,
+} from "./profiles";
+
+// 型定義をファイル内に再定義
+interface Attachment {
+  id: string;
+  name: string;
+  type: string;
+  size: number;
+  originalSize?: number; // 圧縮して保存した場合の元のサイズ
+}
+
+interface EditHistoryEntry {
+  text: string;
+  savedAt: string;
+}
+
+// 投稿者。idでプロフィールと結び付け、名前などは書き出し用の写し
+interface Author {
+  id?: number;
+  name: string;
+  avatar: string;
+  color?: string;
+}
+
+interface Reaction {
+  emoji: string;
+  users: number[]; // リアクションを付けたプロフィールのID
+}
+
+interface Reply {
+  id: number;
+  user: Author;
+  text: string;
+  createdAt: string;
+  attachments: Attachment[];
+  editedAt?: string;
+  history?: EditHistoryEntry[];
+  starred?: boolean; // スター付き（保存済みの一覧に出す）
+  reactions?: Reaction[];
+}
+
+interface Message {
+  id: number;
+  user: Author;
+  text: string;
+  createdAt: string;
+  replies: Reply[];
+  attachments: Attachment[];
+  channelId: number;
+  editedAt?: string;
+  history?: EditHistoryEntry[];
+  pinned?: boolean; // タイムラインの上部に固定する
+  starred?: boolean;
+  reactions?: Reaction[];
+}
+
+interface Channel {
+  id: number;
+  name: string;
+  archived: boolean;
+  createdAt: string;
+  lastReadAt: string;
+}
+
+export type RestoreMode = "replace" | "merge";
+
+// バックアップ形式のバージョン。形式を変えたら上げ、backupUpgradesに旧形式からの変換を足す
+// 1: 画像をデータURLとして本文に埋め込む
+// 2: 画像をattachmentsにBase64で分けて持つ
+// 3: 時刻（timestamp: HH:MM）の代わりにISO形式の作成日時（createdAt）を持つ
+// 4: チャンネル（channels）を持ち、投稿がchannelIdで所属を示す
+// 5: 画像1件のID（imageId）の代わりに、添付ファイルの一覧（attachments）を持つ
+// 6: 投稿者（user）がプロフィールのID（id）と色（color）を持つ
+// 7: チャンネルが入力途中の下書き（draft）を持たない（下書きはバックアップしない）
+// 8: プロフィール（profiles）を持ち、リアクションを付けた人（users）をプロフィールのIDで示す
+export const BACKUP_FORMAT_VERSION = 8;
+const BACKUP_FORMAT_NAME = "anytimes-backup";
+
+interface BackupAttachment {
+  id: string;
+  type: string;
+  data: string;
+}
+
+// ファイルに書き出す形式
+interface BackupFile {
+  format: typeof BACKUP_FORMAT_NAME;
+  version: number;
+  exportedAt: string;
+  messages: Message[];
+  attachments: BackupAttachment[];
+  channels: Channel[];
+  profiles: Profile[];
+}
+
+// 読み込んだバックアップ（添付ファイルはBlobに戻したもの）
+export interface Backup {
+  exportedAt: string;
+  messages: Message[];
+  attachments: AttachmentRecord[];
+  channels: Channel[];
+  profiles: Profile[];
+}
+
+export const createBackup = async (
+  messages: Message[],
+  attachments: AttachmentRecord[],
+  channels: Channel[],
+  profiles: Profile[]
+): Promise<BackupFile> => ({
+  format: BACKUP_FORMAT_NAME,
+  version: BACKUP_FORMAT_VERSION,
+  exportedAt: new Date().toISOString(),
+  messages,
+  channels,
+  profiles,
+  attachments: await Promise.all(
+    attachments.map(async ({ id, blob }) => ({
+      id,
+      type: blob.type,
+      data: await blobToBase64(blob),
+    }))
+  ),
+});
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// 旧形式を変換する途中のデータ。項目の型は変換後に検証する
+type RawEntry = Record<string, unknown>;
+type RawMessage = RawEntry & { replies: RawEntry[] };
+interface RawBackup {
+  messages: RawMessage[];
+  attachments: BackupAttachment[];
+  channels: RawEntry[];
+  profiles: RawEntry[];
+}
+
+// 投稿と返信の両方に変換を適用する
+const mapEntries = (
+  messages: RawMessage[],
+  convert: (entry: RawEntry) => RawEntry
+): RawMessage[] =>
+  messages.map((message) => ({
+    ...convert(message),
+    replies: message.replies.map(convert),
+  }));
+
+// バージョンnからn+1への変換。キーは変換元のバージョン
+const backupUpgrades: Record<number, (backup: RawBackup) => RawBackup> = {
+  // 埋め込み画像を添付ファイルに分ける
+  1: ({ messages, attachments, channels, profiles }) => {
+    const extracted = [...attachments];
+    const convert = ({ image, ...entry }: RawEntry): RawEntry => {
+      const decoded = typeof image === "string" ? decodeDataURL(image) : null;
+      if (!decoded) return entry;
+      const id = createAttachmentId();
+      extracted.push({ id, type: decoded.mime, data: decoded.data });
+      return { ...entry, imageId: id };
+    };
+    return {
+      messages: mapEntries(messages, convert),
+      attachments: extracted,
+      channels,
+      profiles,
+    };
+  },
+  // 時刻を作成日時に変換する
+  2: ({ messages, attachments, channels, profiles }) => {
+    const convert = ({ timestamp, ...entry }: RawEntry): RawEntry => ({
+      ...entry,
+      createdAt: createdAtFromLegacy(
+        entry.id as number,
+        typeof timestamp === "string" ? timestamp : undefined
+      ),
+    });
+    return {
+      messages: mapEntries(messages, convert),
+      attachments,
+      channels,
+      profiles,
+    };
+  },
+  // すべての投稿を最初のチャンネルに入れる
+  3: ({ messages, attachments, profiles }) => ({
+    messages: messages.map((message) => ({
+      ...message,
+      channelId: DEFAULT_CHANNEL_ID,
+    })),
+    attachments,
+    channels: [{ ...createDefaultChannel() }],
+    profiles,
+  }),
+  // 画像のIDを、名前・種類・サイズ付きの添付ファイル一覧にする
+  4: ({ messages, attachments, channels, profiles }) => {
+    const attachmentById = new Map(
+      attachments.map((attachment) => [attachment.id, attachment])
+    );
+    const convert = ({ imageId, ...entry }: RawEntry): RawEntry => {
+      const attachment =
+        typeof imageId === "string" ? attachmentById.get(imageId) : undefined;
+      return {
+        ...entry,
+        attachments: attachment
+          ? [
+              {
+                id: attachment.id,
+                name: `image.${extensionFromMime(attachment.type)}`,
+                type: attachment.type,
+                size: base64ByteLength(attachment.data),
+              },
+            ]
+          : [],
+      };
+    };
+    return {
+      messages: mapEntries(messages, convert),
+      attachments,
+      channels,
+      profiles,
+    };
+  },
+  // 自分（Me）の投稿と返信を、最初のプロフィールのものにする
+  5: ({ messages, attachments, channels, profiles }) => {
+    const convert = (entry: RawEntry): RawEntry =>
+      isObject(entry.user) &&
+      isLegacyOwnAuthor(entry.user as { name: string; avatar: string })
+        ? { ...entry, user: toAuthor(createDefaultProfile()) }
+        : entry;
+    return {
+      messages: mapEntries(messages, convert),
+      attachments,
+      channels,
+      profiles,
+    };
+  },
+  // チャンネルから下書きを外す
+  6: ({ messages, attachments, channels, profiles }) => ({
+    messages,
+    attachments,
+    channels: channels.map((channel) => {
+      const converted = { ...channel };
+      delete converted.draft;
+      return converted;
+    }),
+    profiles,
+  }),
+  // 投稿者の写しからプロフィールを作る（IDのない投稿者は誰のものでもないため作らない）
+  // 同じIDの投稿者が複数あれば、最後に投稿した時点の名前と色を使う
+  // リアクションを付けた人は、名前が同じプロフィールのIDにする
+  7: ({ messages, attachments, channels }) => {
+    const profileById = new Map<number, RawEntry>();
+    messages
+      .flatMap((message) => [message, ...message.replies])
+      .sort((a, b) => (a.id as number) - (b.id as number))
+      .forEach(({ user }) => {
+        if (!isObject(user) || typeof user.id !== "number") return;
+        profileById.set(user.id, {
+          id: user.id,
+          name: user.name,
+          initials: user.avatar,
+          color: typeof user.color === "string" ? user.color : PROFILE_COLORS[0],
+        });
+      });
+    const profiles = [...profileById.values()];
+    // 形の不正なリアクションは変換せず、後の検証で知らせる
+    const convert = (entry: RawEntry): RawEntry => {
+      const { reactions, ...rest } = entry;
+      if (
+        !Array.isArray(reactions) ||
+        !reactions.every(
+          (reaction) => isObject(reaction) && Array.isArray(reaction.users)
+        )
+      ) {
+        return entry;
+      }
+      const converted = resolveReactionUsers(
+        reactions as NamedReaction[],
+        profiles as { id: number; name: string }[]
+      );
+      return converted.length > 0 ? { ...rest, reactions: converted } : rest;
+    };
+    return {
+      messages: mapEntries(messages, convert),
+      attachments,
+      channels,
+      profiles,
+    };
+  },
+};
+
+// 投稿と返信に共通する項目を検証し、問題があればその内容を返す
+const validateEntry = (value: RawEntry, path: string): string | null => {
+  if (typeof value.id !== "number" || !Number.isFinite(value.id)) {
+    return t("backup.notNumber", { path: `${path}.id` });
+  }
+  const user = value.user;
+  if (
+    !isObject(user) ||
+    typeof user.name !== "string" ||
+    typeof user.avatar !== "string" ||
+    (user.id !== undefined && typeof user.id !== "number") ||
+    (user.color !== undefined && typeof user.color !== "string")
+  ) {
+    return t("backup.invalid", { path: `${path}.user` });
+  }
+  if (typeof value.text !== "string") {
+    return t("backup.notString", { path: `${path}.text` });
+  }
+  if (
+    typeof value.createdAt !== "string" ||
+    Number.isNaN(Date.parse(value.createdAt))
+  ) {
+    return t("backup.notDate", { path: `${path}.createdAt` });
+  }
+  if (
+    !Array.isArray(value.attachments) ||
+    !value.attachments.every(
+      (attachment) =>
+        isObject(attachment) &&
+        typeof attachment.id === "string" &&
+        typeof attachment.name === "string" &&
+        typeof attachment.type === "string" &&
+        typeof attachment.size === "number" &&
+        (attachment.originalSize === undefined ||
+          typeof attachment.originalSize === "number")
+    )
+  ) {
+    return t("backup.invalid", { path: `${path}.attachments` });
+  }
+  if (value.editedAt !== undefined && typeof value.editedAt !== "string") {
+    return t("backup.notString", { path: `${path}.editedAt` });
+  }
+  for (const flag of ["pinned", "starred"]) {
+    if (value[flag] !== undefined && typeof value[flag] !== "boolean") {
+      return t("backup.notBoolean", { path: `${path}.${flag}` });
+    }
+  }
+  if (
+    value.reactions !== undefined &&
+    (!Array.isArray(value.reactions) ||
+      !value.reactions.every(
+        (reaction) =>
+          isObject(reaction) &&
+          typeof reaction.emoji === "string" &&
+          Array.isArray(reaction.users) &&
+          reaction.users.every((user) => typeof user === "number")
+      ))
+  ) {
+    return t("backup.invalid", { path: `${path}.reactions` });
+  }
+  if (
+    value.history !== undefined &&
+    (!Array.isArray(value.history) ||
+      !value.history.every(
+        (version) =>
+          isObject(version) &&
+          typeof version.text === "string" &&
+          typeof version.savedAt === "string"
+      ))
+  ) {
+    return t("backup.invalid", { path: `${path}.history` });
+  }
+  return null;
+};
+
+// 変換前に、投稿と返信の入れ物の形だけを確認する
+const validateStructure = (messages: unknown): string | null => {
+  if (!Array.isArray(messages))
+    return t("backup.notArray", { path: "messages" });
+  for (let i = 0; i < messages.length; i++) {
+    const message = messages[i];
+    if (!isObject(message)) {
+      return t("backup.notObject", { path: `messages[${i}]` });
+    }
+    if (!Array.isArray(message.replies)) {
+      return t("backup.notArray", { path: `messages[${i}].replies` });
+    }
+    for (let j = 0; j < message.replies.length; j++) {
+      if (!isObject(message.replies[j])) {
+        return t("backup.notObject", { path: `messages[${i}].replies[${j}]` });
+      }
+    }
+  }
+  return null;
+};
+
+const validateChannels = (channels: unknown): string | null => {
+  if (!Array.isArray(channels))
+    return t("backup.notArray", { path: "channels" });
+  const ids = new Set<number>();
+  for (let i = 0; i < channels.length; i++) {
+    const channel = channels[i];
+    if (
+      !isObject(channel) ||
+      typeof channel.id !== "number" ||
+      typeof channel.name !== "string" ||
+      typeof channel.archived !== "boolean" ||
+      typeof channel.createdAt !== "string" ||
+      typeof channel.lastReadAt !== "string"
+    ) {
+      return t("backup.invalid", { path: `channels[${i}]` });
+    }
+    if (ids.has(channel.id))
+      return t("backup.duplicate", { path: `channels[${i}].id` });
+    ids.add(channel.id);
+  }
+  if (ids.size === 0) return t("backup.empty", { path: "channels" });
+  return null;
+};
+
+const validateProfiles = (profiles: unknown): string | null => {
+  if (!Array.isArray(profiles))
+    return t("backup.notArray", { path: "profiles" });
+  const ids = new Set<number>();
+  for (let i = 0; i < profiles.length; i++) {
+    const profile = profiles[i];
+    if (
+      !isObject(profile) ||
+      typeof profile.id !== "number" ||
+      typeof profile.name !== "string" ||
+      typeof profile.initials !== "string" ||
+      typeof profile.color !== "string" ||
+      (profile.image !== undefined && typeof profile.image !== "string")
+    ) {
+      return t("backup.invalid", { path: `profiles[${i}]` });
+    }
+    if (ids.has(profile.id))
+      return t("backup.duplicate", { path: `profiles[${i}].id` });
+    ids.add(profile.id);
+  }
+  return null;
+};
+
+const validateMessages = (
+  messages: RawMessage[],
+  channels: RawEntry[]
+): string | null => {
+  const ids = new Set<number>();
+  const channelIds = new Set(channels.map((channel) => channel.id));
+  for (let i = 0; i < messages.length; i++) {
+    const message = messages[i];
+    const error = validateEntry(message, `messages[${i}]`);
+    if (error) return error;
+    if (!channelIds.has(message.channelId)) {
+      return t("backup.missingChannel", { path: `messages[${i}].channelId` });
+    }
+    for (let j = 0; j < message.replies.length; j++) {
+      const replyError = validateEntry(
+        message.replies[j],
+        `messages[${i}].replies[${j}]`
+      );
+      if (replyError) return replyError;
+    }
+    if (ids.has(message.id as number)) {
+      return t("backup.duplicate", { path: `messages[${i}].id` });
+    }
+    ids.add(message.id as number);
+  }
+  return null;
+};
+
+const validateAttachments = (attachments: unknown): string | null => {
+  if (!Array.isArray(attachments))
+    return t("backup.notArray", { path: "attachments" });
+  for (let i = 0; i < attachments.length; i++) {
+    const attachment = attachments[i];
+    if (
+      !isObject(attachment) ||
+      typeof attachment.id !== "string" ||
+      typeof attachment.type !== "string" ||
+      typeof attachment.data !== "string"
+    ) {
+      return t("backup.invalid", { path: `attachments[${i}]` });
+    }
+  }
+  return null;
+};
+
+// JSON文字列を検証してバックアップとして読み込む。不正な場合は例外を投げる
+export const parseBackup = (json: string): Backup => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error(t("backup.invalidJson"));
+  }
+  if (!isObject(data) || data.format !== BACKUP_FORMAT_NAME) {
+    throw new Error(t("backup.notBackup"));
+  }
+  if (
+    typeof data.version !== "number" ||
+    !Number.isInteger(data.version) ||
+    data.version < 1
+  ) {
+    throw new Error(t("backup.invalidVersion"));
+  }
+  if (data.version > BACKUP_FORMAT_VERSION) {
+    throw new Error(t("backup.newerVersion", { version: data.version }));
+  }
+  const structureError = validateStructure(data.messages);
+  if (structureError) throw new Error(structureError);
+  // バージョン1には添付ファイルの項目がない
+  const attachments = data.version === 1 ? [] : data.attachments;
+  const attachmentError = validateAttachments(attachments);
+  if (attachmentError) throw new Error(attachmentError);
+  // バージョン3まではチャンネルの項目がない（変換で作成する）
+  const channels = data.version < 4 ? [] : data.channels;
+  if (data.version >= 4) {
+    const channelError = validateChannels(channels);
+    if (channelError) throw new Error(channelError);
+  }
+  // バージョン7まではプロフィールの項目がない（変換で作成する）
+  const profiles = data.version < 8 ? [] : data.profiles;
+
+  // 旧形式のバックアップを順に現在の形式へ変換してから、内容を検証する
+  let backup: RawBackup = {
+    messages: data.messages as RawMessage[],
+    attachments: attachments as BackupAttachment[],
+    channels: channels as RawEntry[],
+    profiles: profiles as RawEntry[],
+  };
+  for (let version = data.version; version < BACKUP_FORMAT_VERSION; version++) {
+    backup = backupUpgrades[version](backup);
+  }
+  const error =
+    validateProfiles(backup.profiles) ??
+    validateMessages(backup.messages, backup.channels);
+  if (error) throw new Error(error);
+
+  return {
+    exportedAt: typeof data.exportedAt === "string" ? data.exportedAt : "",
+    messages: backup.messages as unknown as Message[],
+    channels: backup.channels as unknown as Channel[],
+    profiles: backup.profiles as unknown as Profile[],
+    attachments: backup.attachments.map(({ id, type, data }) => ({
+      id,
+      blob: base64ToBlob(data, type),
+    })),
+  };
+};
+
+// IDが同じ投稿・返信はバックアップ側の内容で上書きし、それ以外は両方を残す
+export const mergeMessagesById = (
+  current: Message[],
+  incoming: Message[]
+): Message[] => {
+  const merged = new Map(current.map((msg) => [msg.id, msg]));
+  incoming.forEach((msg) => {
+    const existing = merged.get(msg.id);
+    if (!existing) {
+      merged.set(msg.id, msg);
+      return;
+    }
+    const replies = new Map(existing.replies.map((reply) => [reply.id, reply]));
+    msg.replies.forEach((reply) => replies.set(reply.id, reply));
+    merged.set(msg.id, {
+      ...msg,
+      replies: [...replies.values()].sort((a, b) => a.id - b.id),
+    });
+  });
+  return [...merged.values()].sort((a, b) => a.id - b.id);
+};
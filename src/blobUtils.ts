@@ -0,0 +1,81 @@
+// Base64のデータURLからMIMEタイプとBase64データを抽出する
+export const decodeDataURL = (
+  dataURL: string
+): { mime: string; data: string } | null => {
+  const match = dataURL.match(/^data:(.+?);base64,(.+)$/);
+  if (!match) return null;
+  return { mime: match[1], data: match[2] };
+};
+
+// Base64文字列をBlobに変換する（IndexedDBのアップグレード中でも使えるよう同期処理にしている）
+export const base64ToBlob = (data: string, mime: string): Blob => {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mime });
+};
+
+// Base64文字列を復元したときのバイト数
+export const base64ByteLength = (data: string): number => {
+  const padding = data.endsWith("==") ? 2 : data.endsWith("=") ? 1 : 0;
+  return Math.floor((data.length * 3) / 4) - padding;
+};
+
+export const dataURLToBlob = (dataURL: string): Blob | null => {
+  const decoded = decodeDataURL(dataURL);
+  if (!decoded) return null;
+  return base64ToBlob(decoded.data, decoded.mime);
+};
+
+export const blobToBase64 = async (blob: Blob): Promise<string> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = "";
+  // 大きな画像でも引数の上限を超えないよう、少しずつ文字列にする
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+};
+
+// MIMEタイプから保存時の拡張子を決める
+export const extensionFromMime = (mime: string): string => {
+  const subtype = mime.split("/")[1] || "png";
+  if (subtype === "svg+xml") return "svg";
+  return subtype;
+};
+
+// 拡張子からMIMEタイプを推定する（ZIPから読み込んだファイルには種類の情報がない）
+const MIME_BY_EXTENSION: Record<string, string> = {
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  gif: "image/gif",
+  webp: "image/webp",
+  avif: "image/avif",
+  bmp: "image/bmp",
+  svg: "image/svg+xml",
+  pdf: "application/pdf",
+  txt: "text/plain",
+  log: "text/plain",
+  md: "text/markdown",
+  csv: "text/csv",
+  json: "application/json",
+  zip: "application/zip",
+};
+
+export const mimeFromFileName = (fileName: string): string => {
+  const extension = fileName.includes(".")
+    ? fileName.split(".").pop()!.toLowerCase()
+    : "";
+  return MIME_BY_EXTENSION[extension] ?? "application/octet-stream";
+};
+
+// ファイルサイズを読みやすい単位で表示する
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
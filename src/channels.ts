@@ -0,0 +1,54 @@
+// チャンネル（#times-me のようなメモの置き場所）に関する定数と関数
+import { t } from "./i18n";
+
+// 既存のメッセージを移すための最初のチャンネル。どの環境でも同じIDにして、
+// バックアップを別のブラウザでマージしても重複しないようにする
+export const DEFAULT_CHANNEL_ID = 1;
+export const DEFAULT_CHANNEL_NAME = "times-me";
+
+// 型定義をファイル内に再定義
+interface Channel {
+  id: number;
+  name: string;
+  archived: boolean;
+  createdAt: string;
+  lastReadAt: string; // この日時より新しいメッセージを未読とする
+}
+
+export const createDefaultChannel = (now = new Date()): Channel => ({
+  id: DEFAULT_CHANNEL_ID,
+  name: DEFAULT_CHANNEL_NAME,
+  archived: false,
+  createdAt: now.toISOString(),
+  lastReadAt: now.toISOString(),
+});
+
+// 新しいチャンネル。IDはメッセージと同じく作成時刻から採番する
+export const createChannel = (name: string, now = new Date()): Channel => ({
+  id: now.getTime(),
+  name,
+  archived: false,
+  createdAt: now.toISOString(),
+  lastReadAt: now.toISOString(),
+});
+
+// 入力されたチャンネル名を整える（先頭の#を外し、空白はハイフンにする）
+export const normalizeChannelName = (name: string): string =>
+  name.trim().replace(/^#+/, "").replace(/\s+/g, "-").replace(/[/\\]/g, "-");
+
+// チャンネル名の検証。問題があればその内容を返す
+export const validateChannelName = (
+  name: string,
+  channels: Channel[],
+  excludeId?: number
+): string | null => {
+  if (name === "") return t("channel.nameRequired");
+  if (name.length > 80) return t("channel.nameTooLong", { max: 80 });
+  const duplicate = channels.some(
+    (channel) =>
+      channel.id !== excludeId &&
+      channel.name.toLowerCase() === name.toLowerCase()
+  );
+  if (duplicate) return t("channel.nameDuplicate", { name });
+  return null;
+};
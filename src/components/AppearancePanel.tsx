@@ -0,0 +1,137 @@
+import React from "react";
+import {
+  Box,
+  FormControl,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  Select,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from "@mui/material";
+import { Check } from "@mui/icons-material";
+import {
+  ACCENT_COLORS,
+  FONT_SCALES,
+  type AppearanceSettings,
+  type Density,
+  type ThemeMode,
+} from "../theme";
+import { useI18n } from "../hooks/useI18n";
+
+interface AppearancePanelProps {
+  settings: AppearanceSettings;
+  onChange: (settings: AppearanceSettings) => void;
+}
+
+// 配色・アクセントの色・表示密度・文字の大きさの設定
+const AppearancePanel: React.FC<AppearancePanelProps> = ({
+  settings,
+  onChange,
+}) => {
+  const { t } = useI18n();
+
+  const update = (changes: Partial<AppearanceSettings>) => {
+    onChange({ ...settings, ...changes });
+  };
+
+  return (
+    <Box sx={{ display: "flex", flexDirection: "column", gap: 1.5 }}>
+      <ToggleButtonGroup
+        size="small"
+        exclusive
+        fullWidth
+        value={settings.mode}
+        onChange={(_event, mode: ThemeMode | null) => mode && update({ mode })}
+        aria-label="color mode"
+      >
+        <ToggleButton value="light">{t("appearance.light")}</ToggleButton>
+        <ToggleButton value="dark">{t("appearance.dark")}</ToggleButton>
+        <ToggleButton value="system">{t("appearance.system")}</ToggleButton>
+      </ToggleButtonGroup>
+      <Box>
+        <Typography variant="body2" gutterBottom>
+          {t("appearance.accentColor")}
+        </Typography>
+        <Box sx={{ display: "flex", alignItems: "center", gap: 0.5 }}>
+          {ACCENT_COLORS.map((color) => (
+            <IconButton
+              key={color}
+              aria-label={`color ${color}`}
+              onClick={() => update({ accentColor: color })}
+              sx={{
+                width: 28,
+                height: 28,
+                bgcolor: color,
+                "&:hover": { bgcolor: color },
+              }}
+            >
+              {settings.accentColor === color && (
+                <Check fontSize="small" sx={{ color: "common.white" }} />
+              )}
+            </IconButton>
+          ))}
+          {/* 候補にない色はブラウザの色の選択で選ぶ */}
+          <Box
+            component="input"
+            type="color"
+            aria-label="custom color"
+            value={settings.accentColor}
+            onChange={(event: React.ChangeEvent<HTMLInputElement>) =>
+              update({ accentColor: event.target.value })
+            }
+            sx={{
+              width: 32,
+              height: 32,
+              p: 0,
+              border: 0,
+              bgcolor: "transparent",
+              cursor: "pointer",
+            }}
+          />
+        </Box>
+      </Box>
+      <Box sx={{ display: "flex", gap: 2 }}>
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={settings.density}
+          onChange={(_event, density: Density | null) =>
+            density && update({ density })
+          }
+          aria-label="density"
+          sx={{ flex: 1 }}
+        >
+          <ToggleButton value="comfortable" sx={{ flex: 1 }}>
+            {t("appearance.comfortable")}
+          </ToggleButton>
+          <ToggleButton value="compact" sx={{ flex: 1 }}>
+            {t("appearance.compact")}
+          </ToggleButton>
+        </ToggleButtonGroup>
+        <FormControl size="small" sx={{ flex: 1 }}>
+          <InputLabel id="font-scale-label">
+            {t("appearance.fontSize")}
+          </InputLabel>
+          <Select
+            labelId="font-scale-label"
+            label={t("appearance.fontSize")}
+            value={settings.fontScale}
+            onChange={(event) =>
+              update({ fontScale: Number(event.target.value) })
+            }
+          >
+            {FONT_SCALES.map((scale) => (
+              <MenuItem key={scale} value={scale}>
+                {Math.round(scale * 100)}%
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      </Box>
+    </Box>
+  );
+};
+
+export default AppearancePanel;
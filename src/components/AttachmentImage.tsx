@@ -0,0 +1,58 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Box } from "@mui/material";
+import { useAttachmentURL } from "../hooks/useAttachmentURL";
+
+interface AttachmentImageProps {
+  attachmentId: string;
+  alt: string;
+  style?: React.CSSProperties;
+}
+
+// 画面内に入ったときに初めてIndexedDBから画像を読み込む
+const AttachmentImage: React.FC<AttachmentImageProps> = ({
+  attachmentId,
+  alt,
+  style,
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [isVisible, setIsVisible] = useState(false);
+  const url = useAttachmentURL(attachmentId, isVisible);
+
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element || isVisible) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          setIsVisible(true);
+          observer.disconnect();
+        }
+      },
+      { rootMargin: "200px" }
+    );
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [isVisible]);
+
+  return (
+    <Box ref={containerRef} component="span" sx={{ display: "block" }}>
+      {url ? (
+        <img src={url} alt={alt} style={style} />
+      ) : (
+        <Box
+          component="span"
+          sx={{
+            display: "block",
+            width: 120,
+            height: 80,
+            borderRadius: "8px",
+            bgcolor: "action.hover",
+          }}
+        />
+      )}
+    </Box>
+  );
+};
+
+export default AttachmentImage;
@@ -0,0 +1,148 @@
+import React from "react";
+import { alpha, Box, Chip, IconButton, Tooltip } from "@mui/material";
+import { Download, InsertDriveFileOutlined } from "@mui/icons-material";
+import { saveAs } from "file-saver";
+import AttachmentImage from "./AttachmentImage";
+import { loadAttachmentFromDB } from "../db";
+import { formatFileSize } from "../blobUtils";
+import { useI18n } from "../hooks/useI18n";
+
+// 型定義をファイル内に再定義
+interface Attachment {
+  id: string;
+  name: string;
+  type: string;
+  size: number;
+  originalSize?: number; // 圧縮して保存した場合の元のサイズ
+}
+
+interface AttachmentListProps {
+  attachments: Attachment[];
+  onOpenImage?: (attachmentId: string) => void; // 画像をクリックしたときに拡大表示する
+}
+
+const THUMBNAIL_SIZE = 120;
+
+// 添付ファイルを元のファイル名でダウンロードする
+const downloadAttachment = async (attachment: Attachment) => {
+  const blob = await loadAttachmentFromDB(attachment.id);
+  if (blob) saveAs(blob, attachment.name);
+};
+
+// 画像はサムネイルの一覧、それ以外のファイルはダウンロード用のチップで表示する
+const AttachmentList: React.FC<AttachmentListProps> = ({
+  attachments,
+  onOpenImage,
+}) => {
+  const { t } = useI18n();
+  if (attachments.length === 0) return null;
+  const images = attachments.filter((attachment) =>
+    attachment.type.startsWith("image/")
+  );
+  const files = attachments.filter(
+    (attachment) => !attachment.type.startsWith("image/")
+  );
+  // ファイル名とサイズ。圧縮して保存したものは圧縮前のサイズも添える
+  const describeAttachment = (attachment: Attachment): string =>
+    attachment.originalSize !== undefined
+      ? t("attachment.compressedLabel", {
+          name: attachment.name,
+          size: formatFileSize(attachment.size),
+          originalSize: formatFileSize(attachment.originalSize),
+        })
+      : t("attachment.label", {
+          name: attachment.name,
+          size: formatFileSize(attachment.size),
+        });
+
+  // 画像が1枚だけのときは大きめに表示する
+  const imageStyle: React.CSSProperties =
+    images.length === 1
+      ? { maxWidth: "300px", maxHeight: "300px", borderRadius: "8px" }
+      : {
+          width: THUMBNAIL_SIZE,
+          height: THUMBNAIL_SIZE,
+          objectFit: "cover",
+          borderRadius: "8px",
+          display: "block",
+        };
+
+  return (
+    <Box component="span" sx={{ display: "block", mt: 1 }}>
+      {images.length > 0 && (
+        <Box
+          component="span"
+          sx={{ display: "flex", flexWrap: "wrap", gap: 1 }}
+        >
+          {images.map((attachment) => (
+            <Tooltip key={attachment.id} title={describeAttachment(attachment)}>
+              <Box
+                component="span"
+                sx={{
+                  position: "relative",
+                  display: "inline-block",
+                  "&:hover .attachment-download": { opacity: 1 },
+                }}
+              >
+                <Box
+                  component="span"
+                  onClick={() => onOpenImage?.(attachment.id)}
+                  sx={{
+                    display: "block",
+                    cursor: onOpenImage ? "zoom-in" : undefined,
+                  }}
+                >
+                  <AttachmentImage
+                    attachmentId={attachment.id}
+                    alt={attachment.name}
+                    style={imageStyle}
+                  />
+                </Box>
+                <IconButton
+                  className="attachment-download"
+                  size="small"
+                  aria-label="download"
+                  onClick={() => downloadAttachment(attachment)}
+                  sx={{
+                    position: "absolute",
+                    right: 4,
+                    bottom: 8,
+                    opacity: 0,
+                    transition: "opacity 0.2s",
+                    backgroundColor: (theme) =>
+                      alpha(theme.palette.common.black, 0.6),
+                    "&:hover": {
+                      backgroundColor: (theme) =>
+                        alpha(theme.palette.common.black, 0.8),
+                    },
+                  }}
+                >
+                  <Download fontSize="small" />
+                </IconButton>
+              </Box>
+            </Tooltip>
+          ))}
+        </Box>
+      )}
+      {files.length > 0 && (
+        <Box
+          component="span"
+          sx={{ display: "flex", flexWrap: "wrap", gap: 1, mt: 1 }}
+        >
+          {files.map((attachment) => (
+            <Tooltip key={attachment.id} title={t("common.download")}>
+              <Chip
+                icon={<InsertDriveFileOutlined />}
+                label={describeAttachment(attachment)}
+                onClick={() => downloadAttachment(attachment)}
+                variant="outlined"
+              />
+            </Tooltip>
+          ))}
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default AttachmentList;
@@ -0,0 +1,286 @@
+import React, { useState } from "react";
+import {
+  Badge,
+  Box,
+  Button,
+  Collapse,
+  Drawer,
+  IconButton,
+  List,
+  ListItem,
+  ListItemButton,
+  ListItemText,
+  ListSubheader,
+  Menu,
+  MenuItem,
+  Tooltip,
+  useMediaQuery,
+  useTheme,
+} from "@mui/material";
+import {
+  Add,
+  EditNote,
+  EditOutlined,
+  ExpandLess,
+  ExpandMore,
+  MoreVert,
+} from "@mui/icons-material";
+import { useI18n } from "../hooks/useI18n";
+
+// 型定義をファイル内に再定義
+interface Channel {
+  id: number;
+  name: string;
+  archived: boolean;
+  createdAt: string;
+  lastReadAt: string;
+}
+
+interface TagCount {
+  tag: string;
+  count: number;
+}
+
+interface ChannelSidebarProps {
+  channels: Channel[];
+  activeChannelId: number;
+  unreadCounts: Record<number, number>;
+  draftChannelIds?: number[]; // 下書きがあるチャンネル
+  open: boolean; // スマートフォン表示のときに開いているか
+  onClose: () => void;
+  onSelectChannel: (channelId: number) => void;
+  onCreateChannel: () => void;
+  onRenameChannel: (channel: Channel) => void;
+  onToggleArchive: (channel: Channel) => void;
+  onDeleteChannel: (channel: Channel) => void;
+  tags: TagCount[]; // 開いているチャンネルのタグと件数
+  activeTag: string | null;
+  onSelectTag: (tag: string | null) => void; // nullで絞り込みを解除
+  onRenameTag: (tag: string) => void;
+}
+
+const SIDEBAR_WIDTH = 240;
+
+const ChannelSidebar: React.FC<ChannelSidebarProps> = ({
+  channels,
+  activeChannelId,
+  unreadCounts,
+  draftChannelIds = [],
+  open,
+  onClose,
+  onSelectChannel,
+  onCreateChannel,
+  onRenameChannel,
+  onToggleArchive,
+  onDeleteChannel,
+  tags,
+  activeTag,
+  onSelectTag,
+  onRenameTag,
+}) => {
+  const { t } = useI18n();
+  const theme = useTheme();
+  const isDesktop = useMediaQuery(theme.breakpoints.up("md"));
+  const [showArchived, setShowArchived] = useState(false);
+  const [menu, setMenu] = useState<{
+    anchorEl: HTMLElement;
+    channel: Channel;
+  } | null>(null);
+
+  const activeChannels = channels.filter((channel) => !channel.archived);
+  const archivedChannels = channels.filter((channel) => channel.archived);
+
+  const handleSelect = (channelId: number) => {
+    onSelectChannel(channelId);
+    if (!isDesktop) onClose();
+  };
+
+  // 選択中のタグをもう一度選ぶと絞り込みを解除する
+  const handleSelectTag = (tag: string) => {
+    onSelectTag(tag === activeTag ? null : tag);
+    if (!isDesktop) onClose();
+  };
+
+  // メニューの操作を実行してからメニューを閉じる
+  const runMenuAction = (action: (channel: Channel) => void) => {
+    if (menu) action(menu.channel);
+    setMenu(null);
+  };
+
+  const renderChannel = (channel: Channel) => {
+    const unread =
+      channel.id === activeChannelId ? 0 : unreadCounts[channel.id] || 0;
+    return (
+      <ListItem
+        key={channel.id}
+        disablePadding
+        secondaryAction={
+          <IconButton
+            edge="end"
+            size="small"
+            aria-label="channel menu"
+            onClick={(e) => setMenu({ anchorEl: e.currentTarget, channel })}
+          >
+            <MoreVert fontSize="small" />
+          </IconButton>
+        }
+      >
+        <ListItemButton
+          selected={channel.id === activeChannelId}
+          onClick={() => handleSelect(channel.id)}
+        >
+          <ListItemText
+            primary={`# ${channel.name}`}
+            slotProps={{
+              primary: {
+                noWrap: true,
+                sx: {
+                  fontWeight: unread > 0 ? "bold" : undefined,
+                  color: channel.archived ? "text.secondary" : undefined,
+                },
+              },
+            }}
+          />
+          {channel.id !== activeChannelId &&
+            draftChannelIds.includes(channel.id) && (
+              <Tooltip title={t("drafts.hasDraft")}>
+                <EditNote
+                  fontSize="small"
+                  color="action"
+                  aria-label="draft"
+                  sx={{ ml: 0.5 }}
+                />
+              </Tooltip>
+            )}
+          <Badge badgeContent={unread} color="error" max={99} sx={{ mr: 2 }} />
+        </ListItemButton>
+      </ListItem>
+    );
+  };
+
+  const content = (
+    <Box sx={{ width: SIDEBAR_WIDTH, overflowY: "auto" }}>
+      <List
+        dense
+        subheader={
+          <ListSubheader disableSticky>{t("sidebar.channels")}</ListSubheader>
+        }
+      >
+        {activeChannels.map(renderChannel)}
+      </List>
+      <Box sx={{ px: 2 }}>
+        <Button
+          size="small"
+          startIcon={<Add />}
+          onClick={onCreateChannel}
+          fullWidth
+          sx={{ justifyContent: "flex-start" }}
+        >
+          {t("sidebar.addChannel")}
+        </Button>
+      </Box>
+      {archivedChannels.length > 0 && (
+        <List dense>
+          <ListItemButton onClick={() => setShowArchived((prev) => !prev)}>
+            <ListItemText
+              primary={t("sidebar.archived", {
+                count: archivedChannels.length,
+              })}
+              slotProps={{
+                primary: { variant: "body2", color: "text.secondary" },
+              }}
+            />
+            {showArchived ? <ExpandLess /> : <ExpandMore />}
+          </ListItemButton>
+          <Collapse in={showArchived}>
+            {archivedChannels.map(renderChannel)}
+          </Collapse>
+        </List>
+      )}
+
+      {tags.length > 0 && (
+        <List
+          dense
+          subheader={
+            <ListSubheader disableSticky>{t("sidebar.tags")}</ListSubheader>
+          }
+        >
+          {tags.map(({ tag, count }) => (
+            <ListItem
+              key={tag}
+              disablePadding
+              secondaryAction={
+                <IconButton
+                  edge="end"
+                  size="small"
+                  aria-label="rename tag"
+                  onClick={() => onRenameTag(tag)}
+                >
+                  <EditOutlined fontSize="small" />
+                </IconButton>
+              }
+            >
+              <ListItemButton
+                selected={tag === activeTag}
+                onClick={() => handleSelectTag(tag)}
+              >
+                <ListItemText
+                  primary={`#${tag}`}
+                  slotProps={{ primary: { noWrap: true } }}
+                />
+                <Box
+                  component="span"
+                  sx={{ mr: 2, color: "text.secondary", typography: "caption" }}
+                >
+                  {count}
+                </Box>
+              </ListItemButton>
+            </ListItem>
+          ))}
+        </List>
+      )}
+
+      <Menu
+        anchorEl={menu?.anchorEl}
+        open={menu !== null}
+        onClose={() => setMenu(null)}
+      >
+        <MenuItem onClick={() => runMenuAction(onRenameChannel)}>
+          {t("sidebar.rename")}
+        </MenuItem>
+        <MenuItem onClick={() => runMenuAction(onToggleArchive)}>
+          {menu?.channel.archived
+            ? t("channel.unarchive")
+            : t("sidebar.archive")}
+        </MenuItem>
+        <MenuItem
+          onClick={() => runMenuAction(onDeleteChannel)}
+          disabled={channels.length <= 1}
+          sx={{ color: "error.main" }}
+        >
+          {t("common.delete")}
+        </MenuItem>
+      </Menu>
+    </Box>
+  );
+
+  // PCでは常に表示し、スマートフォンではヘッダーのボタンで開閉する
+  return isDesktop ? (
+    <Drawer
+      variant="permanent"
+      sx={{
+        width: SIDEBAR_WIDTH,
+        flexShrink: 0,
+        "& .MuiDrawer-paper": { position: "relative" },
+      }}
+    >
+      {content}
+    </Drawer>
+  ) : (
+    <Drawer variant="temporary" open={open} onClose={onClose}>
+      {content}
+    </Drawer>
+  );
+};
+
+export default ChannelSidebar;
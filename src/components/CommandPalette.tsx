@@ -0,0 +1,174 @@
+import React, { useState } from "react";
+import {
+  Box,
+  Button,
+  Dialog,
+  List,
+  ListItemButton,
+  ListItemIcon,
+  ListItemText,
+  TextField,
+  Typography,
+} from "@mui/material";
+import { Event } from "@mui/icons-material";
+import { toLocalDateKey } from "../dateUtils";
+import { isComposing } from "../keyboard";
+import { useI18n } from "../hooks/useI18n";
+
+// パレットから実行できる操作
+export interface PaletteCommand {
+  id: string;
+  label: string;
+  icon?: React.ReactNode;
+  run: () => void;
+}
+
+interface CommandPaletteProps {
+  open: boolean;
+  commands: PaletteCommand[];
+  onClose: () => void;
+  onJumpToDate: (dateKey: string) => void; // その日（YYYY-MM-DD）以降の最初の投稿に移動する
+}
+
+const JUMP_TO_DATE_ID = "jump-to-date";
+
+// Ctrl+K（Macは⌘+K）で開く操作の一覧。名前で絞り込み、↑↓とEnterで選ぶ
+const CommandPalette: React.FC<CommandPaletteProps> = ({
+  open,
+  commands,
+  onClose,
+  onJumpToDate,
+}) => {
+  const { t } = useI18n();
+  const [query, setQuery] = useState("");
+  const [activeIndex, setActiveIndex] = useState(0);
+  // 日付へ移動を選んだら、日付の入力に切り替える
+  const [date, setDate] = useState<string | null>(null);
+
+  const allCommands: PaletteCommand[] = [
+    ...commands,
+    {
+      id: JUMP_TO_DATE_ID,
+      label: t("palette.jumpToDate"),
+      icon: <Event fontSize="small" />,
+      run: () => setDate(toLocalDateKey(new Date())),
+    },
+  ];
+  const normalizedQuery = query.trim().toLowerCase();
+  const visibleCommands = allCommands.filter((command) =>
+    command.label.toLowerCase().includes(normalizedQuery)
+  );
+  const selectedIndex = Math.min(activeIndex, visibleCommands.length - 1);
+
+  // 閉じ終わってから入力を消す（閉じるアニメーション中に表示が変わらないように）
+  const reset = () => {
+    setQuery("");
+    setActiveIndex(0);
+    setDate(null);
+  };
+
+  const runCommand = (command: PaletteCommand) => {
+    command.run();
+    if (command.id !== JUMP_TO_DATE_ID) onClose();
+  };
+
+  const handleJump = () => {
+    if (!date) return;
+    onJumpToDate(date);
+    onClose();
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (isComposing(event)) return;
+    if (event.key === "ArrowDown") {
+      event.preventDefault();
+      setActiveIndex((selectedIndex + 1) % visibleCommands.length);
+    } else if (event.key === "ArrowUp") {
+      event.preventDefault();
+      setActiveIndex(
+        (selectedIndex - 1 + visibleCommands.length) % visibleCommands.length
+      );
+    } else if (event.key === "Enter" && visibleCommands[selectedIndex]) {
+      event.preventDefault();
+      runCommand(visibleCommands[selectedIndex]);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onClose={onClose}
+      fullWidth
+      maxWidth="sm"
+      slotProps={{
+        transition: { onExited: reset },
+        paper: { sx: { alignSelf: "flex-start", mt: 10 } },
+      }}
+    >
+      {date !== null ? (
+        <Box sx={{ p: 2, display: "flex", gap: 1, alignItems: "center" }}>
+          <TextField
+            type="date"
+            size="small"
+            label={t("palette.jumpToDate")}
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && !isComposing(e)) {
+                e.preventDefault();
+                handleJump();
+              }
+            }}
+            autoFocus
+            sx={{ flexGrow: 1 }}
+            slotProps={{ inputLabel: { shrink: true } }}
+          />
+          <Button variant="contained" onClick={handleJump} disabled={!date}>
+            {t("palette.jump")}
+          </Button>
+        </Box>
+      ) : (
+        <>
+          <TextField
+            fullWidth
+            placeholder={t("palette.placeholder")}
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setActiveIndex(0);
+            }}
+            onKeyDown={handleKeyDown}
+            autoFocus
+            sx={{ p: 1 }}
+            slotProps={{ htmlInput: { "aria-label": "command" } }}
+          />
+          {visibleCommands.length > 0 ? (
+            <List dense sx={{ maxHeight: 360, overflowY: "auto", pt: 0 }}>
+              {visibleCommands.map((command, index) => (
+                <ListItemButton
+                  key={command.id}
+                  selected={index === selectedIndex}
+                  onClick={() => runCommand(command)}
+                  onMouseMove={() => setActiveIndex(index)}
+                >
+                  {command.icon && (
+                    <ListItemIcon sx={{ minWidth: 36 }}>
+                      {command.icon}
+                    </ListItemIcon>
+                  )}
+                  <ListItemText primary={command.label} />
+                </ListItemButton>
+              ))}
+            </List>
+          ) : (
+            <Typography variant="body2" sx={{ px: 2, pb: 2 }}>
+              {t("palette.noMatches")}
+            </Typography>
+          )}
+        </>
+      )}
+    </Dialog>
+  );
+};
+
+export default CommandPalette;
@@ -0,0 +1,74 @@
+import React from "react";
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Typography,
+} from "@mui/material";
+import { useI18n } from "../hooks/useI18n";
+
+interface EditConflict {
+  mine: string; // このタブで保存しようとした本文
+  theirs: string; // 他のタブで先に保存された本文
+}
+
+interface EditConflictDialogProps {
+  conflict: EditConflict | null; // nullなら閉じる
+  onKeepMine: () => void;
+  onKeepTheirs: () => void;
+}
+
+const renderVersion = (label: string, text: string) => (
+  <Box sx={{ mt: 2 }}>
+    <Typography variant="subtitle2">{label}</Typography>
+    <Box
+      sx={{
+        mt: 0.5,
+        p: 1,
+        borderRadius: 1,
+        bgcolor: "action.hover",
+        whiteSpace: "pre-wrap",
+        wordBreak: "break-word",
+        maxHeight: 200,
+        overflowY: "auto",
+      }}
+    >
+      <Typography variant="body2">{text}</Typography>
+    </Box>
+  </Box>
+);
+
+// 同じ投稿を別のタブでも編集していたときに、どちらの本文を残すか選ぶ
+const EditConflictDialog: React.FC<EditConflictDialogProps> = ({
+  conflict,
+  onKeepMine,
+  onKeepTheirs,
+}) => {
+  const { t } = useI18n();
+  return (
+    <Dialog
+      open={conflict !== null}
+      onClose={onKeepTheirs}
+      fullWidth
+      maxWidth="sm"
+    >
+      <DialogTitle>{t("conflict.title")}</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2">{t("conflict.description")}</Typography>
+        {conflict && renderVersion(t("conflict.theirs"), conflict.theirs)}
+        {conflict && renderVersion(t("conflict.mine"), conflict.mine)}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onKeepTheirs}>{t("conflict.discardMine")}</Button>
+        <Button variant="contained" onClick={onKeepMine}>
+          {t("conflict.keepMine")}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default EditConflictDialog;
@@ -0,0 +1,85 @@
+import React from "react";
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  Typography,
+} from "@mui/material";
+import MarkdownContent from "./MarkdownContent";
+import { formatFullDateTime } from "../dateUtils";
+import { useI18n } from "../hooks/useI18n";
+
+// 型定義をファイル内に再定義
+interface EditHistoryEntry {
+  text: string;
+  savedAt: string;
+}
+
+interface EditableEntry {
+  text: string;
+  createdAt: string;
+  editedAt?: string;
+  history?: EditHistoryEntry[];
+}
+
+interface EditHistoryDialogProps {
+  entry: EditableEntry | null; // 履歴を表示する投稿・返信（nullなら閉じる）
+  onClose: () => void;
+  onRollback: (text: string) => void;
+}
+
+const EditHistoryDialog: React.FC<EditHistoryDialogProps> = ({
+  entry,
+  onClose,
+  onRollback,
+}) => {
+  const { t } = useI18n();
+  // 現在の内容を先頭に、新しい版から順に並べる
+  const versions: EditHistoryEntry[] = entry
+    ? [
+        { text: entry.text, savedAt: entry.editedAt ?? entry.createdAt },
+        ...[...(entry.history ?? [])].reverse(),
+      ]
+    : [];
+
+  return (
+    <Dialog open={entry !== null} onClose={onClose} fullWidth maxWidth="sm">
+      <DialogTitle>{t("history.title")}</DialogTitle>
+      <DialogContent>
+        {versions.map((version, index) => (
+          <Box key={`${version.savedAt}-${index}`}>
+            {index > 0 && <Divider sx={{ my: 1 }} />}
+            <Box
+              sx={{
+                display: "flex",
+                alignItems: "center",
+                justifyContent: "space-between",
+              }}
+            >
+              <Typography variant="caption" color="text.secondary">
+                {formatFullDateTime(version.savedAt)}
+                {index === 0 ? t("history.current") : ""}
+                {index === versions.length - 1 ? t("history.first") : ""}
+              </Typography>
+              {index > 0 && (
+                <Button size="small" onClick={() => onRollback(version.text)}>
+                  {t("history.rollback")}
+                </Button>
+              )}
+            </Box>
+            <MarkdownContent text={version.text} />
+          </Box>
+        ))}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>{t("common.close")}</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default EditHistoryDialog;
@@ -1,19 +1,143 @@
 import React from "react";
-import { AppBar, Toolbar, Typography, Box, IconButton } from "@mui/material";
-import { Description } from "@mui/icons-material";
+import {
+  AppBar,
+  Toolbar,
+  Typography,
+  Box,
+  IconButton,
+  InputAdornment,
+  TextField,
+} from "@mui/material";
+import {
+  Clear,
+  Description,
+  KeyboardArrowDown,
+  KeyboardArrowUp,
+  Menu,
+  Search,
+} from "@mui/icons-material";
+import { useI18n } from "../hooks/useI18n";
+import { isComposing } from "../keyboard";
 
 interface HeaderProps {
   children?: React.ReactNode;
+  channelName?: string;
+  onToggleSidebar?: () => void; // スマートフォン表示でチャンネル一覧を開く
   onExportMarkdown?: () => void; // 新しいpropを追加
+  searchQuery?: string;
+  onSearchChange?: (query: string) => void;
+  searchResultCount?: number | null;
+  onSearchPrev?: () => void;
+  onSearchNext?: () => void;
+  searchInputRef?: React.Ref<HTMLInputElement>; // 「/」で検索欄に移るときに使う
 }
 
-const Header: React.FC<HeaderProps> = ({ children, onExportMarkdown }) => {
+const Header: React.FC<HeaderProps> = ({
+  children,
+  channelName,
+  onToggleSidebar,
+  onExportMarkdown,
+  searchQuery,
+  onSearchChange,
+  searchResultCount,
+  onSearchPrev,
+  onSearchNext,
+  searchInputRef,
+}) => {
+  const { t } = useI18n();
+  const hasResults = searchResultCount != null && searchResultCount > 0;
+
   return (
     <AppBar position="static">
       <Toolbar variant="dense">
-        <Typography variant="h6" sx={{ flexGrow: 1 }}>
-          #Anytimes
+        {onToggleSidebar && (
+          <IconButton
+            color="inherit"
+            edge="start"
+            aria-label="open channels"
+            onClick={onToggleSidebar}
+            sx={{ mr: 1, display: { md: "none" } }}
+          >
+            <Menu />
+          </IconButton>
+        )}
+        <Typography variant="h6" noWrap sx={{ flexGrow: 1 }}>
+          {channelName ? `#${channelName}` : "#Anytimes"}
         </Typography>
+        {onSearchChange && (
+          <Box sx={{ display: "flex", alignItems: "center", mr: 1 }}>
+            <TextField
+              size="small"
+              placeholder={t("header.search")}
+              value={searchQuery ?? ""}
+              onChange={(e) => onSearchChange(e.target.value)}
+              inputRef={searchInputRef}
+              onKeyDown={(e) => {
+                if (isComposing(e)) return;
+                if (e.key === "Enter") {
+                  e.preventDefault();
+                  if (e.shiftKey) {
+                    onSearchPrev?.();
+                  } else {
+                    onSearchNext?.();
+                  }
+                } else if (e.key === "Escape") {
+                  onSearchChange("");
+                }
+              }}
+              slotProps={{
+                input: {
+                  startAdornment: (
+                    <InputAdornment position="start">
+                      <Search fontSize="small" />
+                    </InputAdornment>
+                  ),
+                  endAdornment: searchQuery ? (
+                    <InputAdornment position="end">
+                      <IconButton
+                        size="small"
+                        edge="end"
+                        aria-label="clear search"
+                        onClick={() => onSearchChange("")}
+                      >
+                        <Clear fontSize="small" />
+                      </IconButton>
+                    </InputAdornment>
+                  ) : null,
+                },
+              }}
+              sx={{ width: { xs: 160, sm: 240 } }}
+            />
+            {searchResultCount != null && (
+              <>
+                <Typography
+                  variant="caption"
+                  sx={{ mx: 1, whiteSpace: "nowrap" }}
+                >
+                  {t("header.resultCount", { count: searchResultCount })}
+                </Typography>
+                <IconButton
+                  color="inherit"
+                  size="small"
+                  aria-label="previous result"
+                  onClick={onSearchPrev}
+                  disabled={!hasResults}
+                >
+                  <KeyboardArrowUp fontSize="small" />
+                </IconButton>
+                <IconButton
+                  color="inherit"
+                  size="small"
+                  aria-label="next result"
+                  onClick={onSearchNext}
+                  disabled={!hasResults}
+                >
+                  <KeyboardArrowDown fontSize="small" />
+                </IconButton>
+              </>
+            )}
+          </Box>
+        )}
         {onExportMarkdown && (
           <IconButton color="inherit" onClick={onExportMarkdown}>
             <Description />
@@ -0,0 +1,168 @@
+import React, { useState } from "react";
+import {
+  Box,
+  Button,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  LinearProgress,
+  MenuItem,
+  Select,
+  Slider,
+  Switch,
+  Typography,
+} from "@mui/material";
+import { formatFileSize } from "../blobUtils";
+import {
+  recompressStoredImages,
+  type ImageCompressionSettings,
+  type ImageOutputFormat,
+} from "../imageCompression";
+import { useI18n } from "../hooks/useI18n";
+
+interface ImageCompressionPanelProps {
+  settings: ImageCompressionSettings;
+  onChange: (settings: ImageCompressionSettings) => void;
+  onRecompressed: () => void; // 再圧縮が終わったら表示中のメッセージを読み直す
+}
+
+const MAX_DIMENSIONS = [1280, 1920, 2560, 3840];
+
+const ImageCompressionPanel: React.FC<ImageCompressionPanelProps> = ({
+  settings,
+  onChange,
+  onRecompressed,
+}) => {
+  const { t } = useI18n();
+  const [progress, setProgress] = useState<{
+    done: number;
+    total: number;
+  } | null>(null);
+  const [resultMessage, setResultMessage] = useState<string | null>(null);
+
+  const update = (changes: Partial<ImageCompressionSettings>) => {
+    onChange({ ...settings, ...changes });
+  };
+
+  const handleRecompress = async () => {
+    if (!window.confirm(t("compression.confirmRecompress"))) {
+      return;
+    }
+    setResultMessage(null);
+    try {
+      const result = await recompressStoredImages(settings, (done, total) =>
+        setProgress({ done, total })
+      );
+      setResultMessage(
+        result.compressed > 0
+          ? t("compression.recompressed", {
+              count: result.compressed,
+              total: result.total,
+              size: formatFileSize(Math.max(0, result.savedBytes)),
+            })
+          : t("compression.nothingToCompress")
+      );
+      onRecompressed();
+    } catch (error) {
+      console.error("画像の再圧縮に失敗しました", error);
+      setResultMessage(t("compression.recompressFailed"));
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <Box>
+      <FormControlLabel
+        control={
+          <Switch
+            checked={settings.enabled}
+            onChange={(event) => update({ enabled: event.target.checked })}
+          />
+        }
+        label={t("compression.enabled")}
+      />
+      <Box sx={{ display: "flex", gap: 2, mt: 1 }}>
+        <FormControl size="small" fullWidth disabled={!settings.enabled}>
+          <InputLabel id="max-dimension-label">
+            {t("compression.maxDimension")}
+          </InputLabel>
+          <Select
+            labelId="max-dimension-label"
+            label={t("compression.maxDimension")}
+            value={settings.maxDimension}
+            onChange={(event) =>
+              update({ maxDimension: Number(event.target.value) })
+            }
+          >
+            {MAX_DIMENSIONS.map((dimension) => (
+              <MenuItem key={dimension} value={dimension}>
+                {dimension}px
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <FormControl size="small" fullWidth disabled={!settings.enabled}>
+          <InputLabel id="image-format-label">
+            {t("compression.format")}
+          </InputLabel>
+          <Select
+            labelId="image-format-label"
+            label={t("compression.format")}
+            value={settings.format}
+            onChange={(event) =>
+              update({ format: event.target.value as ImageOutputFormat })
+            }
+          >
+            <MenuItem value="image/webp">WebP</MenuItem>
+            <MenuItem value="image/jpeg">JPEG</MenuItem>
+          </Select>
+        </FormControl>
+      </Box>
+      <Typography variant="body2" sx={{ mt: 2 }}>
+        {t("compression.quality", {
+          percent: Math.round(settings.quality * 100),
+        })}
+      </Typography>
+      <Slider
+        value={settings.quality}
+        min={0.5}
+        max={1}
+        step={0.05}
+        disabled={!settings.enabled}
+        onChange={(_event, value) => update({ quality: value as number })}
+      />
+      <Typography variant="caption" color="text.secondary" component="p">
+        {t("compression.note")}
+      </Typography>
+      <Button
+        variant="outlined"
+        onClick={handleRecompress}
+        disabled={progress !== null}
+        fullWidth
+        sx={{ mt: 1 }}
+      >
+        {progress
+          ? t("compression.recompressing", {
+              done: progress.done,
+              total: progress.total,
+            })
+          : t("compression.recompress")}
+      </Button>
+      {progress && progress.total > 0 && (
+        <LinearProgress
+          variant="determinate"
+          value={(progress.done / progress.total) * 100}
+          sx={{ mt: 1 }}
+        />
+      )}
+      {resultMessage && (
+        <Typography variant="body2" sx={{ mt: 1 }}>
+          {resultMessage}
+        </Typography>
+      )}
+    </Box>
+  );
+};
+
+export default ImageCompressionPanel;
@@ -0,0 +1,327 @@
+import React, { useRef, useState } from "react";
+import {
+  alpha,
+  Box,
+  Dialog,
+  IconButton,
+  Tooltip,
+  Typography,
+} from "@mui/material";
+import {
+  ChevronLeft,
+  ChevronRight,
+  Close,
+  Download,
+  FitScreen,
+  ZoomIn,
+  ZoomOut,
+} from "@mui/icons-material";
+import { saveAs } from "file-saver";
+import { useAttachmentURL } from "../hooks/useAttachmentURL";
+import { useI18n } from "../hooks/useI18n";
+
+// 表示する画像。保存済みのものはattachmentIdで、送信前のものはsrc（オブジェクトURL）で渡す
+export interface LightboxImage {
+  key: string;
+  name: string;
+  attachmentId?: string;
+  src?: string;
+}
+
+interface ImageLightboxProps {
+  images: LightboxImage[];
+  index: number | null; // 表示中の画像の位置（nullなら閉じる）
+  onIndexChange: (index: number) => void;
+  onClose: () => void;
+}
+
+// 拡大率と表示位置。keyの画像を表示している間だけ有効
+interface ViewState {
+  key: string;
+  scale: number;
+  x: number;
+  y: number;
+}
+
+const MIN_SCALE = 1;
+const MAX_SCALE = 5;
+const ZOOM_STEP = 1.25;
+
+const clampScale = (scale: number) =>
+  Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+
+const toolbarButtonSx = { color: "common.white" };
+
+// 全画面の画像ビューア。ホイール・ボタン・キーボードで拡大し、拡大中はドラッグで移動できる
+const ImageLightbox: React.FC<ImageLightboxProps> = ({
+  images,
+  index,
+  onIndexChange,
+  onClose,
+}) => {
+  const { t } = useI18n();
+  const current = index !== null ? images[index] : undefined;
+  const loadedURL = useAttachmentURL(
+    current?.src ? undefined : current?.attachmentId
+  );
+  const url = current?.src ?? loadedURL;
+  const [view, setView] = useState<ViewState | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const dragRef = useRef<{
+    pointerX: number;
+    pointerY: number;
+    x: number;
+    y: number;
+  } | null>(null);
+
+  // 別の画像に切り替えたら、拡大する前の状態から表示する
+  const { scale, x, y } =
+    view && current && view.key === current.key
+      ? view
+      : { scale: 1, x: 0, y: 0 };
+
+  const zoomTo = (nextScale: number) => {
+    if (!current) return;
+    const clamped = clampScale(nextScale);
+    // 画面の中央に見えている位置を保ったまま拡大・縮小する
+    const ratio = clamped / scale;
+    setView(
+      clamped === MIN_SCALE
+        ? null
+        : { key: current.key, scale: clamped, x: x * ratio, y: y * ratio }
+    );
+  };
+
+  const go = (nextIndex: number) => {
+    if (nextIndex < 0 || nextIndex >= images.length) return;
+    setView(null);
+    onIndexChange(nextIndex);
+  };
+
+  const handleClose = () => {
+    setView(null);
+    onClose();
+  };
+
+  const handleDownload = () => {
+    if (url && current) saveAs(url, current.name);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (index === null) return;
+    switch (event.key) {
+      case "ArrowLeft":
+        go(index - 1);
+        break;
+      case "ArrowRight":
+        go(index + 1);
+        break;
+      case "+":
+      case "=":
+        zoomTo(scale * ZOOM_STEP);
+        break;
+      case "-":
+        zoomTo(scale / ZOOM_STEP);
+        break;
+      case "0":
+        setView(null);
+        break;
+      default:
+        return;
+    }
+    event.preventDefault();
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLElement>) => {
+    if (scale === MIN_SCALE) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragRef.current = {
+      pointerX: event.clientX,
+      pointerY: event.clientY,
+      x,
+      y,
+    };
+    setIsDragging(true);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLElement>) => {
+    const drag = dragRef.current;
+    if (!drag || !current) return;
+    setView({
+      key: current.key,
+      scale,
+      x: drag.x + event.clientX - drag.pointerX,
+      y: drag.y + event.clientY - drag.pointerY,
+    });
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+    setIsDragging(false);
+  };
+
+  return (
+    <Dialog
+      open={current !== undefined}
+      onClose={handleClose}
+      onKeyDown={handleKeyDown}
+      fullScreen
+      slotProps={{
+        paper: {
+          sx: {
+            backgroundColor: (theme) => alpha(theme.palette.common.black, 0.92),
+          },
+        },
+      }}
+    >
+      <Box
+        sx={{
+          display: "flex",
+          alignItems: "center",
+          px: 2,
+          py: 1,
+          color: "common.white",
+        }}
+      >
+        <Typography variant="body2" noWrap sx={{ flexGrow: 1 }}>
+          {current?.name}
+          {images.length > 1 && index !== null
+            ? t("lightbox.position", {
+                index: index + 1,
+                total: images.length,
+              })
+            : ""}
+        </Typography>
+        <Tooltip title={t("lightbox.zoomOut")}>
+          <span>
+            <IconButton
+              sx={toolbarButtonSx}
+              aria-label="zoom out"
+              onClick={() => zoomTo(scale / ZOOM_STEP)}
+              disabled={scale === MIN_SCALE}
+            >
+              <ZoomOut />
+            </IconButton>
+          </span>
+        </Tooltip>
+        <Typography variant="caption" sx={{ width: 48, textAlign: "center" }}>
+          {Math.round(scale * 100)}%
+        </Typography>
+        <Tooltip title={t("lightbox.zoomIn")}>
+          <span>
+            <IconButton
+              sx={toolbarButtonSx}
+              aria-label="zoom in"
+              onClick={() => zoomTo(scale * ZOOM_STEP)}
+              disabled={scale === MAX_SCALE}
+            >
+              <ZoomIn />
+            </IconButton>
+          </span>
+        </Tooltip>
+        <Tooltip title={t("lightbox.fit")}>
+          <IconButton
+            sx={toolbarButtonSx}
+            aria-label="fit to screen"
+            onClick={() => setView(null)}
+          >
+            <FitScreen />
+          </IconButton>
+        </Tooltip>
+        <Tooltip title={t("common.download")}>
+          <span>
+            <IconButton
+              sx={toolbarButtonSx}
+              aria-label="download"
+              onClick={handleDownload}
+              disabled={!url}
+            >
+              <Download />
+            </IconButton>
+          </span>
+        </Tooltip>
+        <Tooltip title={t("common.close")}>
+          <IconButton
+            sx={toolbarButtonSx}
+            aria-label="close"
+            onClick={handleClose}
+          >
+            <Close />
+          </IconButton>
+        </Tooltip>
+      </Box>
+      <Box
+        onWheel={(event) =>
+          zoomTo(event.deltaY < 0 ? scale * ZOOM_STEP : scale / ZOOM_STEP)
+        }
+        onDoubleClick={() => zoomTo(scale === MIN_SCALE ? 2 : MIN_SCALE)}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        sx={{
+          position: "relative",
+          flexGrow: 1,
+          overflow: "hidden",
+          display: "flex",
+          alignItems: "center",
+          justifyContent: "center",
+          touchAction: "none",
+          cursor:
+            scale === MIN_SCALE ? "zoom-in" : isDragging ? "grabbing" : "grab",
+        }}
+      >
+        {url && (
+          <img
+            src={url}
+            alt={current?.name}
+            draggable={false}
+            style={{
+              maxWidth: "100%",
+              maxHeight: "100%",
+              objectFit: "contain",
+              transform: `translate(${x}px, ${y}px) scale(${scale})`,
+              userSelect: "none",
+            }}
+          />
+        )}
+        {images.length > 1 && index !== null && (
+          <>
+            <IconButton
+              aria-label="previous image"
+              onClick={() => go(index - 1)}
+              onPointerDown={(event) => event.stopPropagation()}
+              disabled={index === 0}
+              sx={{
+                ...toolbarButtonSx,
+                position: "absolute",
+                left: 16,
+                backgroundColor: (theme) =>
+                  alpha(theme.palette.common.white, 0.1),
+              }}
+            >
+              <ChevronLeft fontSize="large" />
+            </IconButton>
+            <IconButton
+              aria-label="next image"
+              onClick={() => go(index + 1)}
+              onPointerDown={(event) => event.stopPropagation()}
+              disabled={index === images.length - 1}
+              sx={{
+                ...toolbarButtonSx,
+                position: "absolute",
+                right: 16,
+                backgroundColor: (theme) =>
+                  alpha(theme.palette.common.white, 0.1),
+              }}
+            >
+              <ChevronRight fontSize="large" />
+            </IconButton>
+          </>
+        )}
+      </Box>
+    </Dialog>
+  );
+};
+
+export default ImageLightbox;
@@ -0,0 +1,134 @@
+import React, { useMemo } from "react";
+import { Box, Link } from "@mui/material";
+import ReactMarkdown, { type Components, type Options } from "react-markdown";
+import remarkGfm from "remark-gfm";
+import remarkBreaks from "remark-breaks";
+import rehypeSanitize from "rehype-sanitize";
+import rehypeHighlight from "rehype-highlight";
+
+import rehypeHighlightTerms from "../rehypeHighlightTerms";
+import rehypeTaskLines from "../rehypeTaskLines";
+
+interface MarkdownContentProps {
+  text: string;
+  highlightRegex?: RegExp | null;
+  onToggleTask?: (line: number) => void; // 渡すとタスクのチェックボックスを押せるようにする
+}
+
+// 生のHTMLは描画しない（react-markdownの既定）うえで、rehype-sanitizeでも
+// 危険な属性やURLを取り除いてから、コードのハイライトと検索語の強調を行う
+const baseComponents: Components = {
+  a: ({ href, children }) => (
+    <Link href={href} target="_blank" rel="noopener noreferrer">
+      {children}
+    </Link>
+  ),
+  mark: ({ children }) => (
+    <Box
+      component="mark"
+      sx={{ bgcolor: "warning.main", color: "inherit", borderRadius: 0.5 }}
+    >
+      {children}
+    </Box>
+  ),
+};
+
+const MarkdownContent: React.FC<MarkdownContentProps> = ({
+  text,
+  highlightRegex = null,
+  onToggleTask,
+}) => {
+  const rehypePlugins = useMemo<NonNullable<Options["rehypePlugins"]>>(
+    () => [
+      rehypeSanitize,
+      rehypeTaskLines,
+      [rehypeHighlight, { detect: true }],
+      [rehypeHighlightTerms, { regex: highlightRegex }],
+    ],
+    [highlightRegex]
+  );
+
+  // タスクのチェックボックスは、本文の行番号を使って切り替える
+  const components = useMemo<Components>(
+    () => ({
+      ...baseComponents,
+      input: ({ node, ...props }) => {
+        const line = node?.properties.dataTaskLine;
+        if (!onToggleTask || typeof line !== "number") {
+          return <input {...props} />;
+        }
+        return (
+          <input
+            type="checkbox"
+            checked={props.checked ?? false}
+            onChange={() => onToggleTask(line)}
+            style={{ cursor: "pointer" }}
+          />
+        );
+      },
+    }),
+    [onToggleTask]
+  );
+
+  return (
+    <Box
+      component="div"
+      sx={{
+        color: "text.primary",
+        typography: "body1",
+        wordBreak: "break-word",
+        "& > :first-of-type": { mt: 0 },
+        "& > :last-child": { mb: 0 },
+        "& p": { my: 0.5 },
+        "& h1, & h2, & h3, & h4, & h5, & h6": { my: 1, lineHeight: 1.3 },
+        "& h1": { fontSize: "1.5rem" },
+        "& h2": { fontSize: "1.3rem" },
+        "& h3": { fontSize: "1.15rem" },
+        "& h4, & h5, & h6": { fontSize: "1rem" },
+        "& ul, & ol": { my: 0.5, pl: 3 },
+        "& .task-list-item": { listStyleType: "none", ml: -2.5 },
+        "& blockquote": {
+          my: 0.5,
+          mx: 0,
+          pl: 1.5,
+          borderLeft: "4px solid",
+          borderColor: "divider",
+          color: "text.secondary",
+        },
+        "& code": {
+          fontFamily: "monospace",
+          fontSize: "0.875em",
+          px: 0.5,
+          borderRadius: 0.5,
+          bgcolor: "action.hover",
+        },
+        "& pre": {
+          my: 0.5,
+          p: 1.5,
+          overflowX: "auto",
+          borderRadius: 1,
+          bgcolor: "action.hover",
+        },
+        "& pre code": { p: 0, bgcolor: "transparent" },
+        "& table": { borderCollapse: "collapse", my: 0.5 },
+        "& th, & td": {
+          border: "1px solid",
+          borderColor: "divider",
+          px: 1,
+          py: 0.5,
+        },
+        "& img": { maxWidth: "100%" },
+      }}
+    >
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm, remarkBreaks]}
+        rehypePlugins={rehypePlugins}
+        components={components}
+      >
+        {text}
+      </ReactMarkdown>
+    </Box>
+  );
+};
+
+export default MarkdownContent;
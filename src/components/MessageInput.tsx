@@ -1,27 +1,51 @@
-import React, { useRef } from 'react';
-import { TextField, IconButton, InputAdornment } from '@mui/material';
-import { Send, Image as ImageIcon } from '@mui/icons-material';
+import React, { useRef, useState } from 'react';
+import { Box, TextField, IconButton, InputAdornment, Tooltip } from '@mui/material';
+import {
+  Send,
+  AttachFile,
+  Visibility,
+  VisibilityOff,
+} from '@mui/icons-material';
+import MarkdownContent from './MarkdownContent';
+import { useI18n } from '../hooks/useI18n';
+import { isComposing } from '../keyboard';
 
 // MessageInputコンポーネントが受け取るpropsの型定義
 interface MessageInputProps {
   newMessage: string;
   setNewMessage: (message: string) => void;
   handleSendMessage: () => void;
-  onFileSelect: (file: File) => void;
+  onFilesSelect: (files: File[]) => void;
+  onEditLast?: () => void; // 空欄で↑を押したら、自分の最後の投稿を編集する
+  onCancel?: () => void; // Escで返信をやめる
+  inputRef?: React.Ref<HTMLTextAreaElement>;
 }
 
 const MessageInput: React.FC<MessageInputProps> = ({
   newMessage,
   setNewMessage,
   handleSendMessage,
-  onFileSelect,
+  onFilesSelect,
+  onEditLast,
+  onCancel,
+  inputRef,
 }) => {
+  const { t } = useI18n();
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [showPreview, setShowPreview] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
 
-  const handleKeyPress = (event: React.KeyboardEvent) => {
+  // 変換中のEnterや↑は日本語入力に任せる
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (isComposing(event)) return;
     if (event.key === 'Enter' && !event.shiftKey) {
       event.preventDefault();
       handleSendMessage();
+    } else if (event.key === 'ArrowUp' && newMessage === '' && onEditLast) {
+      event.preventDefault();
+      onEditLast();
+    } else if (event.key === 'Escape' && onCancel) {
+      onCancel();
     }
   };
 
@@ -30,9 +54,9 @@ const MessageInput: React.FC<MessageInputProps> = ({
   };
 
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
-      onFileSelect(file);
+    const files = Array.from(event.target.files ?? []);
+    if (files.length > 0) {
+      onFilesSelect(files);
     }
     // 同じファイルを連続で選択できるように、inputの値をリセットする
     if(event.target) {
@@ -40,45 +64,102 @@ const MessageInput: React.FC<MessageInputProps> = ({
     }
   };
 
+  // 貼り付けられたファイル（複数のスクリーンショットなど）をすべて添付する
   const handlePaste = (event: React.ClipboardEvent) => {
+    const files: File[] = [];
     const items = event.clipboardData.items;
     for (let i = 0; i < items.length; i++) {
-      if (items[i].type.indexOf('image') !== -1) {
+      if (items[i].kind === 'file') {
         const file = items[i].getAsFile();
         if (file) {
-          onFileSelect(file);
+          files.push(file);
         }
-        event.preventDefault();
-        break;
       }
     }
+    if (files.length > 0) {
+      onFilesSelect(files);
+      event.preventDefault();
+    }
+  };
+
+  // 入力欄へのドラッグ&ドロップでファイルを添付する
+  const handleDragOver = (event: React.DragEvent) => {
+    if (!event.dataTransfer.types.includes('Files')) return;
+    event.preventDefault();
+    setIsDragging(true);
+  };
+
+  const handleDrop = (event: React.DragEvent) => {
+    setIsDragging(false);
+    const files = Array.from(event.dataTransfer.files);
+    if (files.length === 0) return;
+    event.preventDefault();
+    onFilesSelect(files);
   };
 
   return (
-    <>
+    <Box
+      onDragOver={handleDragOver}
+      onDragLeave={(event) => {
+        // 子要素に移っただけのときは表示を消さない
+        if (!event.currentTarget.contains(event.relatedTarget as Node)) {
+          setIsDragging(false);
+        }
+      }}
+      onDrop={handleDrop}
+      sx={{
+        borderRadius: 1,
+        outline: isDragging ? 2 : 0,
+        outlineColor: 'primary.main',
+        outlineStyle: 'dashed',
+      }}
+    >
       <input
         type="file"
-        accept="image/*"
+        multiple
         ref={fileInputRef}
         onChange={handleFileChange}
         style={{ display: 'none' }}
       />
+      {showPreview && newMessage.trim() !== '' && (
+        <Box
+          sx={{
+            mb: 1,
+            p: 1.5,
+            maxHeight: '40vh',
+            overflowY: 'auto',
+            border: 1,
+            borderColor: 'divider',
+            borderRadius: 1,
+          }}
+        >
+          <MarkdownContent text={newMessage} />
+        </Box>
+      )}
       <TextField
         fullWidth
         variant="outlined"
-        placeholder="メッセージを送信する"
+        placeholder={t('input.placeholder')}
         multiline
         maxRows={4}
         value={newMessage}
         onChange={(e) => setNewMessage(e.target.value)}
-        onKeyPress={handleKeyPress}
+        onKeyDown={handleKeyDown}
+        inputRef={inputRef}
         onPaste={handlePaste}
         InputProps={{
           startAdornment: (
             <InputAdornment position="start">
-              <IconButton onClick={handleFileButtonClick} edge="start">
-                <ImageIcon />
-              </IconButton>
+              <Tooltip title={t('input.attachFile')}>
+                <IconButton onClick={handleFileButtonClick} edge="start">
+                  <AttachFile />
+                </IconButton>
+              </Tooltip>
+              <Tooltip title={showPreview ? t('input.closePreview') : t('input.preview')}>
+                <IconButton onClick={() => setShowPreview(!showPreview)}>
+                  {showPreview ? <VisibilityOff /> : <Visibility />}
+                </IconButton>
+              </Tooltip>
             </InputAdornment>
           ),
           endAdornment: (
@@ -90,7 +171,7 @@ const MessageInput: React.FC<MessageInputProps> = ({
           ),
         }}
       />
-    </>
+    </Box>
   );
 };
 
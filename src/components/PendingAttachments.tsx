@@ -0,0 +1,108 @@
+import React, { useEffect, useState } from "react";
+import { alpha, Box, Chip, IconButton } from "@mui/material";
+import { Cancel, InsertDriveFileOutlined } from "@mui/icons-material";
+import ImageLightbox from "./ImageLightbox";
+import { formatFileSize } from "../blobUtils";
+import { useI18n } from "../hooks/useI18n";
+
+interface PendingAttachmentsProps {
+  files: File[];
+  onRemove: (index: number) => void;
+}
+
+// 送信前の添付ファイル。画像はプレビューを、それ以外は名前とサイズを表示する
+const PendingAttachments: React.FC<PendingAttachmentsProps> = ({
+  files,
+  onRemove,
+}) => {
+  const { t } = useI18n();
+  const [previewURLs, setPreviewURLs] = useState<(string | null)[]>([]);
+  const [lightboxIndex, setLightboxIndex] = useState<number | null>(null);
+
+  // 画像のプレビュー用URLを作成し、不要になったら解放する
+  useEffect(() => {
+    const urls = files.map((file) =>
+      file.type.startsWith("image/") ? URL.createObjectURL(file) : null
+    );
+    setPreviewURLs(urls);
+    return () => {
+      urls.forEach((url) => url && URL.revokeObjectURL(url));
+    };
+  }, [files]);
+
+  if (files.length === 0) return null;
+
+  // 送信前の画像もビューアで拡大して確認できるようにする
+  const images = files.flatMap((file, index) => {
+    const src = previewURLs[index];
+    return src ? [{ key: `${index}`, name: file.name, src }] : [];
+  });
+  const openLightbox = (fileIndex: number) => {
+    setLightboxIndex(images.findIndex((image) => image.key === `${fileIndex}`));
+  };
+
+  return (
+    <Box
+      sx={{
+        mb: 1,
+        display: "flex",
+        flexWrap: "wrap",
+        alignItems: "center",
+        gap: 2,
+      }}
+    >
+      {files.map((file, index) =>
+        previewURLs[index] ? (
+          <Box
+            key={`${file.name}-${index}`}
+            sx={{ position: "relative", width: "fit-content" }}
+          >
+            <img
+              src={previewURLs[index]}
+              alt={file.name}
+              onClick={() => openLightbox(index)}
+              style={{
+                maxHeight: "100px",
+                borderRadius: "8px",
+                cursor: "zoom-in",
+              }}
+            />
+            <IconButton
+              size="small"
+              aria-label="remove attachment"
+              onClick={() => onRemove(index)}
+              sx={{
+                position: "absolute",
+                top: -10,
+                right: -10,
+                backgroundColor: (theme) =>
+                  alpha(theme.palette.common.black, 0.7),
+              }}
+            >
+              <Cancel fontSize="small" />
+            </IconButton>
+          </Box>
+        ) : (
+          <Chip
+            key={`${file.name}-${index}`}
+            icon={<InsertDriveFileOutlined />}
+            label={t("attachment.label", {
+              name: file.name,
+              size: formatFileSize(file.size),
+            })}
+            onDelete={() => onRemove(index)}
+            variant="outlined"
+          />
+        )
+      )}
+      <ImageLightbox
+        images={images}
+        index={lightboxIndex}
+        onIndexChange={setLightboxIndex}
+        onClose={() => setLightboxIndex(null)}
+      />
+    </Box>
+  );
+};
+
+export default PendingAttachments;
@@ -0,0 +1,95 @@
+import React, { useState } from "react";
+import {
+  Box,
+  Collapse,
+  IconButton,
+  List,
+  ListItem,
+  ListItemButton,
+  ListItemText,
+  Tooltip,
+  Typography,
+} from "@mui/material";
+import { ExpandLess, ExpandMore, PushPin } from "@mui/icons-material";
+import { formatFullDateTime } from "../dateUtils";
+import { useI18n } from "../hooks/useI18n";
+
+// 型定義をファイル内に再定義
+interface PinnedMessage {
+  id: number;
+  user: { name: string; avatar: string };
+  text: string;
+  createdAt: string;
+}
+
+interface PinnedMessagesProps {
+  messages: PinnedMessage[];
+  onJump: (messageId: number) => void; // タイムライン上の投稿まで移動する
+  onUnpin: (messageId: number) => void;
+}
+
+// タイムラインの上部に、ピン留めした投稿を一覧で出す
+const PinnedMessages: React.FC<PinnedMessagesProps> = ({
+  messages,
+  onJump,
+  onUnpin,
+}) => {
+  const { t } = useI18n();
+  const [isOpen, setIsOpen] = useState(true);
+
+  if (messages.length === 0) return null;
+
+  return (
+    <Box
+      sx={{
+        mb: 1,
+        border: "1px solid",
+        borderColor: "divider",
+        borderRadius: 1,
+      }}
+    >
+      <ListItemButton dense onClick={() => setIsOpen((prev) => !prev)}>
+        <PushPin fontSize="small" color="primary" sx={{ mr: 1 }} />
+        <Typography variant="subtitle2" sx={{ flexGrow: 1 }}>
+          {t("pinned.title", { count: messages.length })}
+        </Typography>
+        {isOpen ? <ExpandLess /> : <ExpandMore />}
+      </ListItemButton>
+      <Collapse in={isOpen}>
+        <List dense disablePadding>
+          {messages.map((msg) => (
+            <ListItem
+              key={msg.id}
+              disablePadding
+              secondaryAction={
+                <Tooltip title={t("pinned.unpin")}>
+                  <IconButton
+                    edge="end"
+                    size="small"
+                    aria-label="unpin"
+                    onClick={() => onUnpin(msg.id)}
+                  >
+                    <PushPin fontSize="small" />
+                  </IconButton>
+                </Tooltip>
+              }
+            >
+              <ListItemButton onClick={() => onJump(msg.id)}>
+                <ListItemText
+                  primary={msg.text || t("common.attachmentsOnly")}
+                  secondary={[
+                    msg.user.name,
+                    formatFullDateTime(msg.createdAt),
+                  ].join(t("common.separator"))}
+                  slotProps={{ primary: { noWrap: true } }}
+                />
+              </ListItemButton>
+            </ListItem>
+          ))}
+        </List>
+      </Collapse>
+    </Box>
+  );
+};
+
+export default PinnedMessages;
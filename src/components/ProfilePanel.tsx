@@ -0,0 +1,227 @@
+import React, { useRef, useState } from "react";
+import {
+  Box,
+  Button,
+  Chip,
+  IconButton,
+  List,
+  ListItem,
+  ListItemAvatar,
+  ListItemText,
+  TextField,
+  Tooltip,
+  Typography,
+} from "@mui/material";
+import { Check, DeleteOutline, EditOutlined } from "@mui/icons-material";
+import UserAvatar from "./UserAvatar";
+import {
+  createProfile,
+  initialsFromName,
+  PROFILE_COLORS,
+  resizeAvatarImage,
+  type Profile,
+} from "../profiles";
+import { useI18n } from "../hooks/useI18n";
+
+interface ProfilePanelProps {
+  profiles: Profile[];
+  currentProfileId: number;
+  onSave: (profile: Profile) => Promise<void>;
+  onDelete: (id: number) => void;
+  onSelect: (id: number) => void; // このプロフィールで投稿する
+}
+
+// プロフィールの一覧と編集（表示名・アバターの画像か文字・色）
+const ProfilePanel: React.FC<ProfilePanelProps> = ({
+  profiles,
+  currentProfileId,
+  onSave,
+  onDelete,
+  onSelect,
+}) => {
+  const { t } = useI18n();
+  const [draft, setDraft] = useState<Profile | null>(null);
+  const [imageError, setImageError] = useState<string | null>(null);
+  const imageInputRef = useRef<HTMLInputElement>(null);
+
+  const update = (changes: Partial<Profile>) => {
+    setDraft((prev) => prev && { ...prev, ...changes });
+  };
+
+  const handleSelectImage = async (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    setImageError(null);
+    try {
+      update({ image: await resizeAvatarImage(file) });
+    } catch (error) {
+      console.error("アバター画像の読み込みに失敗しました", error);
+      setImageError(t("profile.imageLoadFailed"));
+    }
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    const name = draft.name.trim();
+    if (!name) return;
+    await onSave({
+      ...draft,
+      name,
+      initials: draft.initials.trim() || initialsFromName(name),
+    });
+    setDraft(null);
+  };
+
+  const handleDelete = (profile: Profile) => {
+    if (window.confirm(t("profile.confirmDelete", { name: profile.name }))) {
+      onDelete(profile.id);
+    }
+  };
+
+  const isNew = draft !== null && !profiles.some((p) => p.id === draft.id);
+
+  return (
+    <Box>
+      <List dense disablePadding>
+        {profiles.map((profile) => (
+          <ListItem key={profile.id} disableGutters>
+            <ListItemAvatar>
+              <UserAvatar
+                initials={profile.initials}
+                color={profile.color}
+                image={profile.image}
+                size={32}
+              />
+            </ListItemAvatar>
+            <ListItemText primary={profile.name} />
+            {profile.id === currentProfileId ? (
+              <Chip label={t("profile.inUse")} size="small" />
+            ) : (
+              <Button size="small" onClick={() => onSelect(profile.id)}>
+                {t("profile.switch")}
+              </Button>
+            )}
+            <Tooltip title={t("common.edit")}>
+              <IconButton
+                aria-label="edit profile"
+                onClick={() => setDraft(profile)}
+              >
+                <EditOutlined fontSize="small" />
+              </IconButton>
+            </Tooltip>
+            {/* 使用中のプロフィールは削除できない */}
+            <Tooltip title={t("common.delete")}>
+              <span>
+                <IconButton
+                  aria-label="delete profile"
+                  disabled={profile.id === currentProfileId}
+                  onClick={() => handleDelete(profile)}
+                >
+                  <DeleteOutline fontSize="small" />
+                </IconButton>
+              </span>
+            </Tooltip>
+          </ListItem>
+        ))}
+      </List>
+
+      {draft ? (
+        <Box sx={{ mt: 1, display: "flex", flexDirection: "column", gap: 1 }}>
+          <Box sx={{ display: "flex", alignItems: "center", gap: 1 }}>
+            <UserAvatar
+              initials={draft.initials || initialsFromName(draft.name)}
+              color={draft.color}
+              image={draft.image}
+            />
+            <TextField
+              size="small"
+              label={t("profile.name")}
+              value={draft.name}
+              onChange={(e) => update({ name: e.target.value })}
+              autoFocus
+              sx={{ flex: 1 }}
+            />
+            <TextField
+              size="small"
+              label={t("profile.initials")}
+              value={draft.initials}
+              onChange={(e) => update({ initials: e.target.value })}
+              sx={{ width: 72 }}
+              slotProps={{ htmlInput: { maxLength: 2 } }}
+            />
+          </Box>
+          <Box sx={{ display: "flex", gap: 0.5 }}>
+            {PROFILE_COLORS.map((color) => (
+              <IconButton
+                key={color}
+                aria-label={`color ${color}`}
+                onClick={() => update({ color })}
+                sx={{
+                  width: 28,
+                  height: 28,
+                  bgcolor: color,
+                  "&:hover": { bgcolor: color },
+                }}
+              >
+                {draft.color === color && (
+                  <Check fontSize="small" sx={{ color: "common.white" }} />
+                )}
+              </IconButton>
+            ))}
+          </Box>
+          <Box sx={{ display: "flex", gap: 1 }}>
+            <input
+              type="file"
+              accept="image/*"
+              ref={imageInputRef}
+              onChange={handleSelectImage}
+              style={{ display: "none" }}
+            />
+            <Button
+              size="small"
+              variant="outlined"
+              onClick={() => imageInputRef.current?.click()}
+            >
+              {t("profile.selectImage")}
+            </Button>
+            {draft.image && (
+              <Button size="small" onClick={() => update({ image: undefined })}>
+                {t("profile.removeImage")}
+              </Button>
+            )}
+          </Box>
+          {imageError && (
+            <Typography variant="body2" color="error">
+              {imageError}
+            </Typography>
+          )}
+          <Box sx={{ display: "flex", justifyContent: "flex-end", gap: 1 }}>
+            <Button onClick={() => setDraft(null)}>{t("common.cancel")}</Button>
+            <Button
+              variant="contained"
+              onClick={handleSave}
+              disabled={!draft.name.trim()}
+            >
+              {isNew ? t("common.add") : t("common.save")}
+            </Button>
+          </Box>
+        </Box>
+      ) : (
+        <Button
+          size="small"
+          onClick={() =>
+            setDraft({ ...createProfile("", profiles.length), initials: "" })
+          }
+          sx={{ mt: 1 }}
+        >
+          {t("profile.add")}
+        </Button>
+      )}
+    </Box>
+  );
+};
+
+export default ProfilePanel;
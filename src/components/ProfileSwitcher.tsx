@@ -0,0 +1,93 @@
+import React, { useState } from "react";
+import {
+  Divider,
+  IconButton,
+  ListItemIcon,
+  ListItemText,
+  Menu,
+  MenuItem,
+  Tooltip,
+} from "@mui/material";
+import { Check, ManageAccounts } from "@mui/icons-material";
+import UserAvatar from "./UserAvatar";
+import type { Profile } from "../profiles";
+import { useI18n } from "../hooks/useI18n";
+
+interface ProfileSwitcherProps {
+  profiles: Profile[];
+  currentProfile: Profile;
+  onSelect: (id: number) => void;
+  onManage: () => void; // プロフィールの編集（設定）を開く
+}
+
+// 投稿するプロフィールを切り替える（共用の端末や、ペアで記録するとき用）
+const ProfileSwitcher: React.FC<ProfileSwitcherProps> = ({
+  profiles,
+  currentProfile,
+  onSelect,
+  onManage,
+}) => {
+  const { t } = useI18n();
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+
+  return (
+    <>
+      <Tooltip title={t("profile.postingAs", { name: currentProfile.name })}>
+        <IconButton
+          aria-label="switch profile"
+          onClick={(e) => setAnchorEl(e.currentTarget)}
+        >
+          <UserAvatar
+            initials={currentProfile.initials}
+            color={currentProfile.color}
+            image={currentProfile.image}
+            size={28}
+          />
+        </IconButton>
+      </Tooltip>
+      <Menu
+        anchorEl={anchorEl}
+        open={anchorEl !== null}
+        onClose={() => setAnchorEl(null)}
+      >
+        {profiles.map((profile) => (
+          <MenuItem
+            key={profile.id}
+            selected={profile.id === currentProfile.id}
+            onClick={() => {
+              onSelect(profile.id);
+              setAnchorEl(null);
+            }}
+          >
+            <ListItemIcon>
+              <UserAvatar
+                initials={profile.initials}
+                color={profile.color}
+                image={profile.image}
+                size={24}
+              />
+            </ListItemIcon>
+            <ListItemText primary={profile.name} />
+            {profile.id === currentProfile.id && (
+              <Check fontSize="small" sx={{ ml: 1 }} />
+            )}
+          </MenuItem>
+        ))}
+        <Divider />
+        <MenuItem
+          onClick={() => {
+            onManage();
+            setAnchorEl(null);
+          }}
+        >
+          <ListItemIcon>
+            <ManageAccounts fontSize="small" />
+          </ListItemIcon>
+          <ListItemText primary={t("profile.manage")} />
+        </MenuItem>
+      </Menu>
+    </>
+  );
+};
+
+export default ProfileSwitcher;
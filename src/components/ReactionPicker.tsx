@@ -0,0 +1,88 @@
+import React, { useState } from "react";
+import { Box, Button, Popover, TextField } from "@mui/material";
+import { firstEmoji, REACTION_PRESETS } from "../reactions";
+import { isComposing } from "../keyboard";
+import { useI18n } from "../hooks/useI18n";
+
+interface ReactionPickerProps {
+  anchorEl: HTMLElement | null; // nullなら閉じる
+  onClose: () => void;
+  onSelect: (emoji: string) => void;
+}
+
+// よく使う絵文字から選ぶか、任意の絵文字を入力してリアクションを付ける
+const ReactionPicker: React.FC<ReactionPickerProps> = ({
+  anchorEl,
+  onClose,
+  onSelect,
+}) => {
+  const { t } = useI18n();
+  const [input, setInput] = useState("");
+  const inputEmoji = firstEmoji(input);
+
+  const handleSelect = (emoji: string) => {
+    onSelect(emoji);
+    setInput("");
+    onClose();
+  };
+
+  return (
+    <Popover
+      open={anchorEl !== null}
+      anchorEl={anchorEl}
+      onClose={onClose}
+      anchorOrigin={{ vertical: "bottom", horizontal: "right" }}
+      transformOrigin={{ vertical: "top", horizontal: "right" }}
+    >
+      <Box sx={{ p: 1, width: 248 }}>
+        <Box
+          sx={{
+            display: "grid",
+            gridTemplateColumns: "repeat(6, 1fr)",
+            gap: 0.5,
+          }}
+        >
+          {REACTION_PRESETS.map((emoji) => (
+            <Button
+              key={emoji}
+              onClick={() => handleSelect(emoji)}
+              sx={{ minWidth: 0, fontSize: "1.25rem", p: 0.5 }}
+            >
+              {emoji}
+            </Button>
+          ))}
+        </Box>
+        <TextField
+          size="small"
+          fullWidth
+          placeholder={t("reaction.otherEmoji")}
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={(e) => {
+            // 変換中のEnterでは確定しない
+            if (e.key === "Enter" && !isComposing(e) && inputEmoji) {
+              e.preventDefault();
+              handleSelect(inputEmoji);
+            }
+          }}
+          sx={{ mt: 1 }}
+          slotProps={{
+            input: {
+              endAdornment: (
+                <Button
+                  size="small"
+                  disabled={!inputEmoji}
+                  onClick={() => inputEmoji && handleSelect(inputEmoji)}
+                >
+                  {t("common.add")}
+                </Button>
+              ),
+            },
+          }}
+        />
+      </Box>
+    </Popover>
+  );
+};
+
+export default ReactionPicker;
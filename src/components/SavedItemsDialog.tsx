@@ -0,0 +1,175 @@
+import React, { useEffect, useState } from "react";
+import {
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  List,
+  ListItem,
+  ListItemButton,
+  ListItemText,
+  Tooltip,
+  Typography,
+} from "@mui/material";
+import { Star } from "@mui/icons-material";
+import { loadMessagesFromDB } from "../db";
+import { formatFullDateTime } from "../dateUtils";
+import { useI18n } from "../hooks/useI18n";
+
+// 型定義をファイル内に再定義
+interface Reply {
+  id: number;
+  text: string;
+  createdAt: string;
+  starred?: boolean;
+}
+
+interface Message {
+  id: number;
+  text: string;
+  createdAt: string;
+  replies: Reply[];
+  channelId: number;
+  starred?: boolean;
+}
+
+interface Channel {
+  id: number;
+  name: string;
+}
+
+interface SavedTarget {
+  id: number;
+  replyId?: number;
+}
+
+interface SavedItem extends SavedTarget {
+  channelId: number;
+  text: string;
+  createdAt: string;
+}
+
+interface SavedItemsDialogProps {
+  open: boolean;
+  channels: Channel[];
+  onClose: () => void;
+  onJump: (target: { channelId: number; id: number }) => void; // 投稿のあるチャンネルを開いて移動する
+  onUnstar: (target: SavedTarget) => Promise<void>;
+}
+
+// スターを付けた投稿と返信を、新しいものから並べる
+const collectSavedItems = (messages: Message[]): SavedItem[] =>
+  messages
+    .flatMap((msg) => [
+      ...(msg.starred
+        ? [
+            {
+              id: msg.id,
+              channelId: msg.channelId,
+              text: msg.text,
+              createdAt: msg.createdAt,
+            },
+          ]
+        : []),
+      ...msg.replies
+        .filter((reply) => reply.starred)
+        .map((reply) => ({
+          id: msg.id,
+          replyId: reply.id,
+          channelId: msg.channelId,
+          text: reply.text,
+          createdAt: reply.createdAt,
+        })),
+    ])
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+// すべてのチャンネルの、スターを付けた投稿と返信の一覧
+const SavedItemsDialog: React.FC<SavedItemsDialogProps> = ({
+  open,
+  channels,
+  onClose,
+  onJump,
+  onUnstar,
+}) => {
+  const { t } = useI18n();
+  const [items, setItems] = useState<SavedItem[] | null>(null);
+
+  // 開くたびに、すべてのチャンネルのメッセージから集め直す
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    loadMessagesFromDB().then((messages) => {
+      if (!cancelled) setItems(collectSavedItems(messages));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [open]);
+
+  const handleUnstar = async (item: SavedItem) => {
+    await onUnstar({ id: item.id, replyId: item.replyId });
+    setItems(collectSavedItems(await loadMessagesFromDB()));
+  };
+
+  const channelName = (channelId: number) => {
+    const channel = channels.find((item) => item.id === channelId);
+    return channel ? `#${channel.name}` : t("common.unknown");
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="sm">
+      <DialogTitle>{t("saved.title")}</DialogTitle>
+      <DialogContent>
+        {items === null ? (
+          <Typography variant="body2">{t("common.loading")}</Typography>
+        ) : items.length > 0 ? (
+          <List dense>
+            {items.map((item) => (
+              <ListItem
+                key={`${item.id}-${item.replyId ?? ""}`}
+                divider
+                disablePadding
+                secondaryAction={
+                  <Tooltip title={t("saved.unstar")}>
+                    <IconButton
+                      edge="end"
+                      aria-label="unstar"
+                      onClick={() => handleUnstar(item)}
+                    >
+                      <Star color="warning" />
+                    </IconButton>
+                  </Tooltip>
+                }
+              >
+                <ListItemButton
+                  onClick={() =>
+                    onJump({ channelId: item.channelId, id: item.id })
+                  }
+                >
+                  <ListItemText
+                    primary={item.text || t("common.attachmentsOnly")}
+                    secondary={[
+                      channelName(item.channelId),
+                      item.replyId ? t("common.reply") : t("common.post"),
+                      formatFullDateTime(item.createdAt),
+                    ].join(t("common.separator"))}
+                    slotProps={{ primary: { noWrap: true } }}
+                  />
+                </ListItemButton>
+              </ListItem>
+            ))}
+          </List>
+        ) : (
+          <Typography variant="body2">{t("saved.empty")}</Typography>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>{t("common.close")}</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default SavedItemsDialog;
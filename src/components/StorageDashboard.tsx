@@ -0,0 +1,307 @@
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  Box,
+  Button,
+  FormControl,
+  InputLabel,
+  List,
+  ListItem,
+  ListItemText,
+  MenuItem,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+} from "@mui/material";
+import { deleteImagesBeforeInDB, loadMessagesFromDB } from "../db";
+import { formatFileSize } from "../blobUtils";
+import { formatFullDateTime } from "../dateUtils";
+import { countImagesBefore, summarizeStorage } from "../storageStats";
+import { useI18n } from "../hooks/useI18n";
+
+// 型定義をファイル内に再定義
+interface Attachment {
+  id: string;
+  name: string;
+  type: string;
+  size: number;
+}
+
+interface Reply {
+  id: number;
+  text: string;
+  createdAt: string;
+  attachments: Attachment[];
+}
+
+interface Message {
+  id: number;
+  text: string;
+  createdAt: string;
+  replies: Reply[];
+  attachments: Attachment[];
+  channelId: number;
+}
+
+interface Channel {
+  id: number;
+  name: string;
+}
+
+interface StorageDashboardProps {
+  channels: Channel[];
+  onImagesDeleted: () => void; // 画像を削除したら表示中のメッセージと使用量を読み直す
+}
+
+// persisted: 永続化済み / notPersisted: 未リクエスト / denied: リクエストしたが許可されなかった
+type PersistStatus = "unsupported" | "persisted" | "notPersisted" | "denied";
+
+const IMAGE_AGE_DAYS = [30, 90, 180, 365];
+
+const StorageDashboard: React.FC<StorageDashboardProps> = ({
+  channels,
+  onImagesDeleted,
+}) => {
+  const { t } = useI18n();
+  const [messages, setMessages] = useState<Message[] | null>(null);
+  const [persistStatus, setPersistStatus] =
+    useState<PersistStatus>("unsupported");
+  const [imageAgeDays, setImageAgeDays] = useState(90);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  // ダイアログを開くたびに、すべてのチャンネルのメッセージから集計し直す
+  useEffect(() => {
+    let cancelled = false;
+    loadMessagesFromDB()
+      .then((storedMessages) => {
+        if (!cancelled) setMessages(storedMessages);
+      })
+      .catch((error) => {
+        console.error("使用量の集計に失敗しました", error);
+        if (!cancelled) setErrorMessage(t("storage.loadFailed"));
+      });
+    navigator.storage?.persisted?.().then((persisted) => {
+      if (!cancelled)
+        setPersistStatus(persisted ? "persisted" : "notPersisted");
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [t]);
+
+  const summary = useMemo(
+    () => (messages ? summarizeStorage(messages) : null),
+    [messages]
+  );
+  // 描画のたびに境界が動かないよう、ローカル時刻の0時で区切る
+  const now = new Date();
+  const imagesBefore = new Date(
+    now.getFullYear(),
+    now.getMonth(),
+    now.getDate() - imageAgeDays
+  ).toISOString();
+  const oldImages = messages
+    ? countImagesBefore(messages, imagesBefore)
+    : { count: 0, bytes: 0 };
+
+  const handleRequestPersist = async () => {
+    const persisted = await navigator.storage.persist();
+    setPersistStatus(persisted ? "persisted" : "denied");
+  };
+
+  const handleDeleteOldImages = async () => {
+    if (
+      !window.confirm(
+        t("storage.confirmDeleteImages", {
+          count: oldImages.count,
+          size: formatFileSize(oldImages.bytes),
+        })
+      )
+    ) {
+      return;
+    }
+    setIsDeleting(true);
+    setErrorMessage(null);
+    try {
+      await deleteImagesBeforeInDB(imagesBefore);
+      setMessages(await loadMessagesFromDB());
+      onImagesDeleted();
+    } catch (error) {
+      console.error("古い画像の削除に失敗しました", error);
+      setErrorMessage(t("storage.deleteFailed"));
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  const channelName = (channelId: number) =>
+    channels.find((channel) => channel.id === channelId)?.name ??
+    t("common.unknown");
+
+  if (!summary) {
+    return errorMessage ? (
+      <Typography variant="body2" color="error">
+        {errorMessage}
+      </Typography>
+    ) : (
+      <Typography variant="body2">{t("storage.summarizing")}</Typography>
+    );
+  }
+
+  return (
+    <Box>
+      <Typography variant="subtitle2" sx={{ mt: 2 }}>
+        {t("storage.byKind")}
+      </Typography>
+      <Typography variant="body2">
+        {[
+          t("storage.textUsage", { size: formatFileSize(summary.textBytes) }),
+          t("storage.imageUsage", { size: formatFileSize(summary.imageBytes) }),
+          t("storage.fileUsage", { size: formatFileSize(summary.fileBytes) }),
+        ].join(t("common.separator"))}
+      </Typography>
+      <Typography variant="caption" color="text.secondary">
+        {t("storage.excludes")}
+      </Typography>
+
+      {summary.months.length > 0 && (
+        <>
+          <Typography variant="subtitle2" sx={{ mt: 2 }}>
+            {t("storage.byMonth")}
+          </Typography>
+          <Box sx={{ maxHeight: 200, overflowY: "auto" }}>
+            <Table size="small" stickyHeader>
+              <TableHead>
+                <TableRow>
+                  <TableCell>{t("storage.month")}</TableCell>
+                  <TableCell align="right">{t("storage.text")}</TableCell>
+                  <TableCell align="right">{t("storage.images")}</TableCell>
+                  <TableCell align="right">{t("storage.files")}</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {summary.months.map((usage) => (
+                  <TableRow key={usage.month}>
+                    <TableCell>{usage.month}</TableCell>
+                    <TableCell align="right">
+                      {formatFileSize(usage.textBytes)}
+                    </TableCell>
+                    <TableCell align="right">
+                      {formatFileSize(usage.imageBytes)}
+                    </TableCell>
+                    <TableCell align="right">
+                      {formatFileSize(usage.fileBytes)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </Box>
+        </>
+      )}
+
+      {summary.largestPosts.length > 0 && (
+        <>
+          <Typography variant="subtitle2" sx={{ mt: 2 }}>
+            {t("storage.largestPosts")}
+          </Typography>
+          <List dense disablePadding>
+            {summary.largestPosts.map((post) => (
+              <ListItem key={post.id} disableGutters>
+                <ListItemText
+                  primary={post.text || t("common.attachmentsOnly")}
+                  secondary={[
+                    `#${channelName(post.channelId)}`,
+                    formatFullDateTime(post.createdAt),
+                    formatFileSize(post.bytes),
+                  ].join(t("common.separator"))}
+                  slotProps={{ primary: { noWrap: true } }}
+                />
+              </ListItem>
+            ))}
+          </List>
+        </>
+      )}
+
+      <Typography variant="subtitle2" sx={{ mt: 2 }}>
+        {t("storage.deleteOldImages")}
+      </Typography>
+      <Typography variant="caption" color="text.secondary" component="p">
+        {t("storage.deleteImagesNote")}
+      </Typography>
+      <Box sx={{ display: "flex", gap: 1, alignItems: "center", mt: 1 }}>
+        <FormControl size="small" sx={{ minWidth: 120 }}>
+          <InputLabel id="image-age-label">{t("storage.age")}</InputLabel>
+          <Select
+            labelId="image-age-label"
+            label={t("storage.age")}
+            value={imageAgeDays}
+            onChange={(event) => setImageAgeDays(Number(event.target.value))}
+          >
+            {IMAGE_AGE_DAYS.map((days) => (
+              <MenuItem key={days} value={days}>
+                {days === 365
+                  ? t("storage.olderThanYear")
+                  : t("storage.olderThanDays", { count: days })}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <Button
+          variant="outlined"
+          color="error"
+          onClick={handleDeleteOldImages}
+          disabled={oldImages.count === 0 || isDeleting}
+          sx={{ flexGrow: 1 }}
+        >
+          {isDeleting
+            ? t("storage.deleting")
+            : t("storage.deleteImages", {
+                count: oldImages.count,
+                size: formatFileSize(oldImages.bytes),
+              })}
+        </Button>
+      </Box>
+      {errorMessage && (
+        <Typography variant="body2" color="error" sx={{ mt: 1 }}>
+          {errorMessage}
+        </Typography>
+      )}
+
+      <Typography variant="subtitle2" sx={{ mt: 2 }}>
+        {t("storage.persistence")}
+      </Typography>
+      {persistStatus === "unsupported" && (
+        <Typography variant="body2">
+          {t("storage.persistUnsupported")}
+        </Typography>
+      )}
+      {persistStatus === "persisted" && (
+        <Typography variant="body2">{t("storage.persisted")}</Typography>
+      )}
+      {(persistStatus === "notPersisted" || persistStatus === "denied") && (
+        <>
+          <Typography variant="body2">
+            {persistStatus === "denied"
+              ? t("storage.persistDenied")
+              : t("storage.notPersisted")}
+          </Typography>
+          <Button
+            variant="outlined"
+            onClick={handleRequestPersist}
+            fullWidth
+            sx={{ mt: 1 }}
+          >
+            {t("storage.requestPersist")}
+          </Button>
+        </>
+      )}
+    </Box>
+  );
+};
+
+export default StorageDashboard;
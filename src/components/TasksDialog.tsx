@@ -0,0 +1,286 @@
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  List,
+  ListItem,
+  ListItemButton,
+  ListItemText,
+  MenuItem,
+  Select,
+  TextField,
+  Typography,
+} from "@mui/material";
+import { loadMessagesFromDB, loadSettingFromDB, saveSettingToDB } from "../db";
+import {
+  DATE_PERIODS,
+  formatFullDateTime,
+  formatPeriod,
+  startOfPeriod,
+  type DatePeriod,
+} from "../dateUtils";
+import { extractTags } from "../tags";
+import {
+  DEFAULT_TASK_OVERDUE_DAYS,
+  extractTasks,
+  TASK_OVERDUE_DAYS_SETTING_KEY,
+} from "../tasks";
+import { useI18n } from "../hooks/useI18n";
+
+// 型定義をファイル内に再定義
+interface Reply {
+  id: number;
+  text: string;
+  createdAt: string;
+}
+
+interface Message {
+  id: number;
+  text: string;
+  createdAt: string;
+  replies: Reply[];
+  channelId: number;
+}
+
+interface Channel {
+  id: number;
+  name: string;
+}
+
+interface TaskTarget {
+  id: number;
+  replyId?: number;
+}
+
+interface OpenTask extends TaskTarget {
+  channelId: number;
+  line: number;
+  text: string;
+  createdAt: string; // タスクを書いた投稿・返信の作成日時
+  tags: string[]; // 投稿・返信に付いているタグ
+}
+
+interface TasksDialogProps {
+  open: boolean;
+  channels: Channel[];
+  onClose: () => void;
+  onJump: (target: { channelId: number; id: number }) => void; // 投稿のあるチャンネルを開いて移動する
+  onToggleTask: (target: TaskTarget, line: number) => Promise<void>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 投稿と返信の未完了のタスクを、古いものから並べる
+const collectOpenTasks = (messages: Message[]): OpenTask[] =>
+  messages
+    .flatMap((msg) =>
+      [
+        { target: { id: msg.id }, entry: msg as Reply | Message },
+        ...msg.replies.map((reply) => ({
+          target: { id: msg.id, replyId: reply.id },
+          entry: reply,
+        })),
+      ].flatMap(({ target, entry }) => {
+        const tags = extractTags(entry.text);
+        return extractTasks(entry.text)
+          .filter((task) => !task.checked)
+          .map((task) => ({
+            ...target,
+            channelId: msg.channelId,
+            line: task.line,
+            text: task.text,
+            createdAt: entry.createdAt,
+            tags,
+          }));
+      })
+    )
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+// すべてのチャンネルの未完了のタスクの一覧
+const TasksDialog: React.FC<TasksDialogProps> = ({
+  open,
+  channels,
+  onClose,
+  onJump,
+  onToggleTask,
+}) => {
+  const { t } = useI18n();
+  const [loaded, setLoaded] = useState<{
+    tasks: OpenTask[];
+    loadedAt: number; // 期限切れの判定に使う現在時刻
+  } | null>(null);
+  const [period, setPeriod] = useState<DatePeriod>("all");
+  const [tag, setTag] = useState("");
+  const [overdueDays, setOverdueDays] = useState(DEFAULT_TASK_OVERDUE_DAYS);
+  // 入力途中の空欄なども受け付けるよう、日数の入力欄は文字列で持つ
+  const [overdueInput, setOverdueInput] = useState(
+    String(DEFAULT_TASK_OVERDUE_DAYS)
+  );
+
+  // 開くたびに、すべてのチャンネルのメッセージから集め直す
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    Promise.all([
+      loadMessagesFromDB(),
+      loadSettingFromDB<number>(TASK_OVERDUE_DAYS_SETTING_KEY),
+    ]).then(([messages, savedDays]) => {
+      if (cancelled) return;
+      setLoaded({ tasks: collectOpenTasks(messages), loadedAt: Date.now() });
+      if (savedDays !== undefined) {
+        setOverdueDays(savedDays);
+        setOverdueInput(String(savedDays));
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [open]);
+
+  const tagOptions = useMemo(
+    () => [...new Set(loaded?.tasks.flatMap((task) => task.tags) ?? [])].sort(),
+    [loaded]
+  );
+
+  const handleToggle = async (task: OpenTask) => {
+    await onToggleTask({ id: task.id, replyId: task.replyId }, task.line);
+    const messages = await loadMessagesFromDB();
+    setLoaded({ tasks: collectOpenTasks(messages), loadedAt: Date.now() });
+  };
+
+  const handleOverdueDaysChange = (value: string) => {
+    setOverdueInput(value);
+    const days = Number(value);
+    if (value === "" || !Number.isInteger(days) || days < 1) return;
+    setOverdueDays(days);
+    saveSettingToDB(TASK_OVERDUE_DAYS_SETTING_KEY, days);
+  };
+
+  const channelName = (channelId: number) => {
+    const channel = channels.find((item) => item.id === channelId);
+    return channel ? `#${channel.name}` : t("common.unknown");
+  };
+
+  const isOverdue = (task: OpenTask) =>
+    loaded !== null &&
+    loaded.loadedAt - new Date(task.createdAt).getTime() >=
+      overdueDays * DAY_MS;
+
+  const start = loaded && startOfPeriod(period, new Date(loaded.loadedAt));
+  const visibleTasks =
+    loaded?.tasks.filter(
+      (task) =>
+        (!start || new Date(task.createdAt) >= start) &&
+        (!tag || task.tags.includes(tag))
+    ) ?? [];
+  const overdueCount = loaded?.tasks.filter(isOverdue).length ?? 0;
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="sm">
+      <DialogTitle>{t("tasks.title")}</DialogTitle>
+      <DialogContent>
+        <Box sx={{ display: "flex", flexWrap: "wrap", gap: 1, mb: 1 }}>
+          <Select
+            size="small"
+            value={period}
+            onChange={(e) => setPeriod(e.target.value as DatePeriod)}
+            slotProps={{ input: { "aria-label": "period" } }}
+          >
+            {DATE_PERIODS.map((item) => (
+              <MenuItem key={item} value={item}>
+                {formatPeriod(item)}
+              </MenuItem>
+            ))}
+          </Select>
+          <Select
+            size="small"
+            value={tag}
+            displayEmpty
+            onChange={(e) => setTag(e.target.value)}
+            slotProps={{ input: { "aria-label": "tag" } }}
+          >
+            <MenuItem value="">{t("tasks.allTags")}</MenuItem>
+            {tagOptions.map((item) => (
+              <MenuItem key={item} value={item}>
+                #{item}
+              </MenuItem>
+            ))}
+          </Select>
+          <TextField
+            size="small"
+            type="number"
+            label={t("tasks.overdueDays")}
+            value={overdueInput}
+            onChange={(e) => handleOverdueDaysChange(e.target.value)}
+            sx={{ width: 160 }}
+            slotProps={{ htmlInput: { min: 1 } }}
+          />
+        </Box>
+        {overdueCount > 0 && (
+          <Alert severity="warning" sx={{ mb: 1 }}>
+            {t("tasks.overdueAlert", {
+              count: overdueCount,
+              days: overdueDays,
+            })}
+          </Alert>
+        )}
+        {loaded === null ? (
+          <Typography variant="body2">{t("common.loading")}</Typography>
+        ) : visibleTasks.length > 0 ? (
+          <List dense>
+            {visibleTasks.map((task) => (
+              <ListItem
+                key={`${task.id}-${task.replyId ?? ""}-${task.line}`}
+                divider
+                disablePadding
+              >
+                <Checkbox
+                  edge="start"
+                  onChange={() => handleToggle(task)}
+                  slotProps={{ input: { "aria-label": "complete task" } }}
+                  sx={{ ml: 0.5 }}
+                />
+                <ListItemButton
+                  onClick={() =>
+                    onJump({ channelId: task.channelId, id: task.id })
+                  }
+                >
+                  <ListItemText
+                    primary={task.text || t("tasks.noText")}
+                    secondary={[
+                      channelName(task.channelId),
+                      task.replyId ? t("common.reply") : t("common.post"),
+                      formatFullDateTime(task.createdAt),
+                      ...(isOverdue(task) ? [t("tasks.overdue")] : []),
+                    ].join(t("common.separator"))}
+                    slotProps={{
+                      primary: { noWrap: true },
+                      secondary: {
+                        color: isOverdue(task)
+                          ? "warning.main"
+                          : "text.secondary",
+                      },
+                    }}
+                  />
+                </ListItemButton>
+              </ListItem>
+            ))}
+          </List>
+        ) : (
+          <Typography variant="body2">{t("tasks.empty")}</Typography>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>{t("common.close")}</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default TasksDialog;
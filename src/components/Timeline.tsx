@@ -1,40 +1,106 @@
-import React, { useState, useEffect, useRef } from "react";
+import React, { useState, useEffect, useMemo, useRef } from "react";
 import {
-  Avatar,
   Box,
   Button,
+  Chip,
   Divider,
   IconButton,
-  Link,
   List,
   ListItem,
   ListItemAvatar,
   ListItemText,
+  Menu,
+  MenuItem,
   TextField,
+  Tooltip,
   Typography,
 } from "@mui/material";
 import {
+  AddReactionOutlined,
   ChatBubbleOutline,
   DeleteOutline,
+  DriveFileMoveOutlined,
+  EditNote,
   EditOutlined,
+  PushPin,
+  PushPinOutlined,
+  Star,
+  StarBorder,
 } from "@mui/icons-material";
+import AttachmentList from "./AttachmentList";
+import ImageLightbox, { type LightboxImage } from "./ImageLightbox";
+import MarkdownContent from "./MarkdownContent";
+import UserAvatar from "./UserAvatar";
+import ReactionPicker from "./ReactionPicker";
+import { buildHighlightRegex } from "../search";
+import { extractTags } from "../tags";
+import {
+  formatDayLabel,
+  formatFullDateTime,
+  formatDisplayTime,
+  toLocalDateKey,
+} from "../dateUtils";
+import { useI18n } from "../hooks/useI18n";
+import { isComposing } from "../keyboard";
+import { draftKey, type DraftTarget } from "../drafts";
+import { reactionUserName } from "../reactions";
 
 // 型定義をファイル内に再定義
+interface Attachment {
+  id: string;
+  name: string;
+  type: string;
+  size: number;
+}
+
+interface EditHistoryEntry {
+  text: string;
+  savedAt: string;
+}
+
+// 投稿者。idでプロフィールと結び付け、名前などは書き出し用の写し
+interface Author {
+  id?: number;
+  name: string;
+  avatar: string;
+  color?: string;
+}
+
+interface Reaction {
+  emoji: string;
+  users: number[]; // リアクションを付けたプロフィールのID
+}
+
 interface Reply {
   id: number;
-  user: { name: string; avatar: string };
+  user: Author;
   text: string;
-  timestamp: string;
-  image?: string;
+  createdAt: string;
+  attachments: Attachment[];
+  editedAt?: string;
+  history?: EditHistoryEntry[];
+  starred?: boolean; // スター付き（保存済みの一覧に出す）
+  reactions?: Reaction[];
 }
 
 interface Message {
   id: number;
-  user: { name: string; avatar: string };
+  user: Author;
   text: string;
-  timestamp: string;
+  createdAt: string;
   replies: Reply[];
-  image?: string;
+  attachments: Attachment[];
+  channelId: number;
+  editedAt?: string;
+  history?: EditHistoryEntry[];
+  pinned?: boolean; // タイムラインの上部に固定する
+  starred?: boolean;
+  reactions?: Reaction[];
+}
+
+interface ChannelOption {
+  id: number;
+  name: string;
 }
 
 interface EditingMessage {
@@ -43,61 +109,111 @@ interface EditingMessage {
   replyId?: number;
 }
 
+interface Profile {
+  id: number;
+  name: string;
+  initials: string;
+  color: string;
+  image?: string;
+}
+
 // Propsの型定義
 interface TimelineProps {
   messages: Message[];
   editingMessage: EditingMessage | null;
+  editText: string; // 編集中の本文（下書きとして保存するため親が持つ）
+  onEditTextChange: (text: string) => void;
   onStartReply: (messageId: number) => void;
   onDeleteMessage: (messageId: number, replyId?: number) => void;
   onStartEdit: (editInfo: EditingMessage) => void;
   onCancelEdit: () => void;
   onUpdateMessage: (editInfo: EditingMessage) => void;
+  highlightWords?: string[];
+  focusedMessageId?: number | null;
+  unreadSince?: string | null; // この日時より新しいメッセージの前に未読の区切りを出す
+  moveTargets?: ChannelOption[]; // 投稿の移動先にできるチャンネル
+  onMoveMessage?: (messageId: number, channelId: number) => void;
+  onShowHistory?: (target: { id: number; replyId?: number }) => void;
+  activeTag?: string | null; // 絞り込み中のタグ
+  onSelectTag?: (tag: string) => void;
+  onTogglePin?: (messageId: number) => void;
+  onToggleStar?: (target: { id: number; replyId?: number }) => void;
+  onToggleReaction?: (
+    target: { id: number; replyId?: number },
+    emoji: string
+  ) => void;
+  onToggleTask?: (
+    target: { id: number; replyId?: number },
+    line: number
+  ) => void; // line行目のタスクの完了を切り替える
+  profiles?: Profile[]; // 投稿者の表示に使う（名前などは投稿に保存した写しより優先する）
+  currentProfileId?: number; // このプロフィールの投稿と返信だけ編集・削除できる
+  dense?: boolean; // 行間を詰めて表示する
+  draftKeys?: string[]; // 返信・編集の下書きがある対象（今入力中のものは除く）
 }
 
-// URLを検出し、<a>タグに変換するヘルパー関数
-const linkify = (text: string) => {
-  const urlRegex =
-    /\bhttps?:\/\/(?:[a-zA-Z0-9\-._~%]+(?::[a-zA-Z0-9\-._~%]*)?@)?(?:[a-zA-Z0-9\-._~%]+|\[[a-fA-F0-9:.]+\])(?::\d{2,5})?(?:[/?#][^\s"]*)?/g;
-
-  const parts = text.split(urlRegex);
-
-  return parts.map((part, i) => {
-    if (part.match(urlRegex)) {
-      return (
-        <Link href={part} target="_blank" rel="noopener noreferrer" key={i}>
-          {part}
-        </Link>
-      );
-    }
-    return part;
-  });
-};
-
 const Timeline: React.FC<TimelineProps> = ({
   messages,
   editingMessage,
+  editText,
+  onEditTextChange,
   onStartReply,
   onDeleteMessage,
   onStartEdit,
   onCancelEdit,
   onUpdateMessage,
+  highlightWords = [],
+  focusedMessageId = null,
+  unreadSince = null,
+  moveTargets = [],
+  onMoveMessage,
+  onShowHistory,
+  activeTag = null,
+  onSelectTag,
+  onTogglePin,
+  onToggleStar,
+  onToggleReaction,
+  onToggleTask,
+  profiles = [],
+  currentProfileId,
+  dense = false,
+  draftKeys = [],
 }) => {
+  const { t } = useI18n();
   const bottomRef = useRef<HTMLDivElement>(null);
-  const [editText, setEditText] = useState("");
-
-  useEffect(() => {
-    if (editingMessage) {
-      setEditText(editingMessage.text);
-    } else {
-      setEditText("");
-    }
-  }, [editingMessage]);
+  const [moveMenu, setMoveMenu] = useState<{
+    anchorEl: HTMLElement;
+    message: Message;
+  } | null>(null);
+  const [reactionPicker, setReactionPicker] = useState<{
+    anchorEl: HTMLElement;
+    target: { id: number; replyId?: number };
+  } | null>(null);
+  const [lightbox, setLightbox] = useState<{
+    images: LightboxImage[];
+    index: number;
+  } | null>(null);
+  const highlightRegex = useMemo(
+    () => buildHighlightRegex(highlightWords),
+    [highlightWords]
+  );
+  const firstUnreadId = useMemo(() => {
+    if (!unreadSince) return null;
+    return messages.find((msg) => msg.createdAt > unreadSince)?.id ?? null;
+  }, [messages, unreadSince]);
 
+  // 最後の投稿が変わったときだけ末尾に移動する（スターなどを付けても動かない）
+  const lastMessageId = messages[messages.length - 1]?.id;
   useEffect(() => {
-    if (!editingMessage) {
+    if (focusedMessageId !== null) {
+      // 検索結果などで指定されたスレッドまで移動する
+      document
+        .getElementById(`message-${focusedMessageId}`)
+        ?.scrollIntoView({ behavior: "smooth", block: "center" });
+    } else if (!editingMessage) {
       bottomRef.current?.scrollIntoView({ behavior: "smooth" });
     }
-  }, [messages, editingMessage]);
+  }, [lastMessageId, editingMessage, focusedMessageId]);
 
   const handleUpdate = () => {
     if (editingMessage) {
@@ -105,54 +221,289 @@ const Timeline: React.FC<TimelineProps> = ({
     }
   };
 
-  const renderMessageContent = (text: string, image?: string) => (
-    <Box component="span">
-      <Typography
+  // Ctrl+Enter（Macは⌘+Enter）で保存し、Escで編集をやめる
+  const handleEditKeyDown = (event: React.KeyboardEvent) => {
+    if (isComposing(event)) return;
+    if (event.key === "Enter" && (event.ctrlKey || event.metaKey)) {
+      event.preventDefault();
+      handleUpdate();
+    } else if (event.key === "Escape") {
+      onCancelEdit();
+    }
+  };
+
+  // 投稿者のプロフィールがあればそれを、なければ投稿に保存した写しを使う
+  const resolveAuthor = (
+    user: Author
+  ): { name: string; initials: string; color?: string; image?: string } =>
+    profiles.find((profile) => profile.id === user.id) ?? {
+      name: user.name,
+      initials: user.avatar,
+      color: user.color,
+    };
+  const isOwnEntry = (entry: Message | Reply) =>
+    currentProfileId !== undefined && entry.user.id === currentProfileId;
+
+  const renderAvatar = (user: Author, size?: number) => {
+    const author = resolveAuthor(user);
+    return (
+      <UserAvatar
+        initials={author.initials}
+        color={author.color}
+        image={author.image}
+        size={size}
+      />
+    );
+  };
+
+  // 時刻を表示し、ホバーで完全な日時を出す
+  const renderTimestamp = (createdAt: string) => (
+    <Tooltip title={formatFullDateTime(createdAt)}>
+      <Typography component="span" variant="caption" color="text.secondary">
+        {formatDisplayTime(createdAt)}
+      </Typography>
+    </Tooltip>
+  );
+
+  // 編集された投稿に印を付け、クリックで編集履歴を開く
+  const renderEditedMark = (
+    editedAt: string | undefined,
+    target: { id: number; replyId?: number }
+  ) =>
+    editedAt && (
+      <Tooltip
+        title={t("timeline.editedAt", {
+          date: formatFullDateTime(editedAt),
+        })}
+      >
+        <Typography
+          component="span"
+          variant="caption"
+          color="text.secondary"
+          onClick={() => onShowHistory?.(target)}
+          sx={{ ml: 0.5, cursor: onShowHistory ? "pointer" : undefined }}
+        >
+          {t("timeline.edited")}
+        </Typography>
+      </Tooltip>
+    );
+
+  // 書きかけの返信・編集があることを示し、クリックで続きから書く
+  const renderDraftChip = (
+    target: DraftTarget,
+    label: string,
+    onResume: () => void
+  ) =>
+    draftKeys.includes(draftKey(target)) && (
+      <Chip
+        component="span"
+        icon={<EditNote />}
+        label={label}
+        size="small"
+        variant="outlined"
+        onClick={onResume}
+        sx={{ ml: 1, fontWeight: "normal" }}
+      />
+    );
+
+  // クリックした画像を、同じ日の投稿と返信に添付された画像と一緒にビューアで開く
+  const openLightbox = (dateKey: string, attachmentId: string) => {
+    const images = messages
+      .filter((msg) => toLocalDateKey(new Date(msg.createdAt)) === dateKey)
+      .flatMap((msg) => [msg, ...msg.replies])
+      .flatMap((entry) => entry.attachments)
+      .filter((attachment) => attachment.type.startsWith("image/"))
+      .map((attachment) => ({
+        key: attachment.id,
+        name: attachment.name,
+        attachmentId: attachment.id,
+      }));
+    const index = images.findIndex((image) => image.key === attachmentId);
+    if (index >= 0) setLightbox({ images, index });
+  };
+
+  // スターの切り替えボタン（付いているときは色を付ける）
+  const renderStarButton = (
+    starred: boolean | undefined,
+    target: { id: number; replyId?: number }
+  ) =>
+    onToggleStar && (
+      <IconButton
+        size="small"
+        aria-label={starred ? "unstar" : "star"}
+        onClick={() => onToggleStar(target)}
+      >
+        {starred ? (
+          <Star fontSize="small" color="warning" />
+        ) : (
+          <StarBorder fontSize="small" />
+        )}
+      </IconButton>
+    );
+
+  // リアクションを選ぶピッカーを開くボタン
+  const renderReactionButton = (target: { id: number; replyId?: number }) =>
+    onToggleReaction && (
+      <IconButton
+        size="small"
+        aria-label="add reaction"
+        onClick={(e) =>
+          setReactionPicker({ anchorEl: e.currentTarget, target })
+        }
+      >
+        <AddReactionOutlined fontSize="small" />
+      </IconButton>
+    );
+
+  // 付いているリアクションを件数付きのチップで並べる
+  // 選択中のプロフィールが付けたものは塗りつぶし、クリックで付け外しする
+  const renderReactions = (
+    reactions: Reaction[] | undefined,
+    target: { id: number; replyId?: number }
+  ) =>
+    reactions &&
+    reactions.length > 0 && (
+      <Box
         component="span"
-        variant="body1"
-        color="text.primary"
-        sx={{ whiteSpace: "pre-wrap" }}
+        sx={{ display: "flex", flexWrap: "wrap", gap: 0.5, mt: 0.5 }}
       >
-        {linkify(text)}
-      </Typography>
-      {image && (
-        <Box mt={1}>
-          <img
-            src={image}
-            alt="投稿画像"
-            style={{
-              maxWidth: "300px",
-              maxHeight: "300px",
-              borderRadius: "8px",
-            }}
+        {reactions.map((reaction) => {
+          const reacted =
+            currentProfileId !== undefined &&
+            reaction.users.includes(currentProfileId);
+          const names = reaction.users.map((id) =>
+            reactionUserName(profiles, id)
+          );
+          return (
+            <Tooltip key={reaction.emoji} title={names.join(", ")}>
+              <Chip
+                label={`${reaction.emoji} ${reaction.users.length}`}
+                size="small"
+                color={reacted ? "primary" : "default"}
+                variant={reacted ? "filled" : "outlined"}
+                onClick={
+                  onToggleReaction &&
+                  (() => onToggleReaction(target, reaction.emoji))
+                }
+              />
+            </Tooltip>
+          );
+        })}
+      </Box>
+    );
+
+  // 本文の #タグ をチップで並べ、クリックでそのタグに絞り込む
+  const renderTags = (text: string) => {
+    const tags = extractTags(text);
+    if (tags.length === 0) return null;
+    return (
+      <Box
+        component="span"
+        sx={{ display: "flex", flexWrap: "wrap", gap: 0.5, mt: 0.5 }}
+      >
+        {tags.map((tag) => (
+          <Chip
+            key={tag}
+            label={`#${tag}`}
+            size="small"
+            color={tag === activeTag ? "primary" : "default"}
+            variant={tag === activeTag ? "filled" : "outlined"}
+            onClick={onSelectTag && (() => onSelectTag(tag))}
           />
-        </Box>
-      )}
+        ))}
+      </Box>
+    );
+  };
+
+  const renderMessageContent = (
+    entry: Message | Reply,
+    target: { id: number; replyId?: number },
+    dateKey: string
+  ) => (
+    <Box component="span" sx={{ display: "block" }}>
+      <MarkdownContent
+        text={entry.text}
+        highlightRegex={highlightRegex}
+        onToggleTask={onToggleTask && ((line) => onToggleTask(target, line))}
+      />
+      {renderTags(entry.text)}
+      <AttachmentList
+        attachments={entry.attachments}
+        onOpenImage={(attachmentId) => openLightbox(dateKey, attachmentId)}
+      />
+      {renderReactions(entry.reactions, target)}
     </Box>
   );
 
   return (
-    <List>
-      {messages.map((msg) => {
+    <List dense={dense}>
+      {messages.map((msg, index) => {
         const isEditing =
           editingMessage?.id === msg.id && !editingMessage.replyId;
+        // 前のメッセージと日付が変わるところに区切りを入れる
+        const dateKey = toLocalDateKey(new Date(msg.createdAt));
+        const isNewDay =
+          index === 0 ||
+          dateKey !== toLocalDateKey(new Date(messages[index - 1].createdAt));
         return (
           <React.Fragment key={msg.id}>
-            <ListItem alignItems="flex-start">
-              <ListItemAvatar>
-                <Avatar>{msg.user.avatar}</Avatar>
-              </ListItemAvatar>
+            {isNewDay && (
+              <Divider sx={{ my: 1 }}>
+                <Chip
+                  label={formatDayLabel(dateKey)}
+                  size="small"
+                  variant="outlined"
+                />
+              </Divider>
+            )}
+            {msg.id === firstUnreadId && (
+              <Divider
+                sx={{
+                  my: 1,
+                  color: "error.main",
+                  "&::before, &::after": { borderColor: "error.main" },
+                }}
+              >
+                <Typography variant="caption">
+                  {t("timeline.unread")}
+                </Typography>
+              </Divider>
+            )}
+            <ListItem
+              alignItems="flex-start"
+              id={`message-${msg.id}`}
+              sx={
+                focusedMessageId === msg.id
+                  ? { bgcolor: "action.selected", borderRadius: 1 }
+                  : undefined
+              }
+            >
+              <ListItemAvatar>{renderAvatar(msg.user)}</ListItemAvatar>
               <ListItemText
                 primary={
                   <Typography component="span" sx={{ fontWeight: "bold" }}>
-                    {msg.user.name}
-                    <Typography
-                      component="span"
-                      variant="caption"
-                      color="text.secondary"
-                    >
-                      {msg.timestamp}
-                    </Typography>
+                    {resolveAuthor(msg.user).name}
+                    {renderTimestamp(msg.createdAt)}
+                    {renderEditedMark(msg.editedAt, { id: msg.id })}
+                    {!isEditing &&
+                      renderDraftChip(
+                        {
+                          kind: "edit",
+                          channelId: msg.channelId,
+                          messageId: msg.id,
+                        },
+                        t("drafts.editDraft"),
+                        () => onStartEdit({ id: msg.id, text: msg.text })
+                      )}
+                    {renderDraftChip(
+                      {
+                        kind: "reply",
+                        channelId: msg.channelId,
+                        messageId: msg.id,
+                      },
+                      t("drafts.replyDraft"),
+                      () => onStartReply(msg.id)
+                    )}
                   </Typography>
                 }
                 secondary={
@@ -163,12 +514,14 @@ const Timeline: React.FC<TimelineProps> = ({
                         multiline
                         variant="outlined"
                         value={editText}
-                        onChange={(e) => setEditText(e.target.value)}
+                        onChange={(e) => onEditTextChange(e.target.value)}
+                        onKeyDown={handleEditKeyDown}
+                        autoFocus
                         sx={{ mt: 1 }}
                       />
                       <Box sx={{ mt: 1, textAlign: "right" }} component="span">
                         <Button size="small" onClick={onCancelEdit}>
-                          キャンセル
+                          {t("common.cancel")}
                         </Button>
                         <Button
                           size="small"
@@ -176,12 +529,12 @@ const Timeline: React.FC<TimelineProps> = ({
                           onClick={handleUpdate}
                           sx={{ ml: 1 }}
                         >
-                          保存
+                          {t("common.save")}
                         </Button>
                       </Box>
                     </Box>
                   ) : (
-                    renderMessageContent(msg.text, msg.image)
+                    renderMessageContent(msg, { id: msg.id }, dateKey)
                   )
                 }
                 slotProps={{
@@ -195,6 +548,21 @@ const Timeline: React.FC<TimelineProps> = ({
                   sx={{ position: "absolute", top: 8, right: 8 }}
                   component="span"
                 >
+                  {renderReactionButton({ id: msg.id })}
+                  {renderStarButton(msg.starred, { id: msg.id })}
+                  {onTogglePin && (
+                    <IconButton
+                      size="small"
+                      aria-label={msg.pinned ? "unpin" : "pin"}
+                      onClick={() => onTogglePin(msg.id)}
+                    >
+                      {msg.pinned ? (
+                        <PushPin fontSize="small" color="primary" />
+                      ) : (
+                        <PushPinOutlined fontSize="small" />
+                      )}
+                    </IconButton>
+                  )}
                   <IconButton
                     size="small"
                     aria-label="reply"
@@ -202,7 +570,18 @@ const Timeline: React.FC<TimelineProps> = ({
                   >
                     <ChatBubbleOutline fontSize="small" />
                   </IconButton>
-                  {msg.user.name === "Me" && (
+                  {onMoveMessage && moveTargets.length > 0 && (
+                    <IconButton
+                      size="small"
+                      aria-label="move"
+                      onClick={(e) =>
+                        setMoveMenu({ anchorEl: e.currentTarget, message: msg })
+                      }
+                    >
+                      <DriveFileMoveOutlined fontSize="small" />
+                    </IconButton>
+                  )}
+                  {isOwnEntry(msg) && (
                     <>
                       <IconButton
                         size="small"
@@ -229,18 +608,21 @@ const Timeline: React.FC<TimelineProps> = ({
             {/* スレッド返信 */}
             {msg.replies.length > 0 && (
               <Box
-                sx={{ pl: 4, borderLeft: "2px solid #444", ml: 2 }}
+                sx={{
+                  pl: 4,
+                  borderLeft: "2px solid",
+                  borderColor: "divider",
+                  ml: 2,
+                }}
                 component="span"
               >
-                <List disablePadding>
+                <List dense={dense} disablePadding>
                   {msg.replies.map((reply) => {
                     const isEditingReply = editingMessage?.replyId === reply.id;
                     return (
                       <ListItem key={reply.id} alignItems="flex-start">
                         <ListItemAvatar>
-                          <Avatar sx={{ width: 32, height: 32 }}>
-                            {reply.user.avatar}
-                          </Avatar>
+                          {renderAvatar(reply.user, 32)}
                         </ListItemAvatar>
                         <ListItemText
                           primary={
@@ -248,14 +630,28 @@ const Timeline: React.FC<TimelineProps> = ({
                               component="span"
                               sx={{ fontWeight: "bold" }}
                             >
-                              {reply.user.name}
-                              <Typography
-                                component="span"
-                                variant="caption"
-                                color="text.secondary"
-                              >
-                                {reply.timestamp}
-                              </Typography>
+                              {resolveAuthor(reply.user).name}
+                              {renderTimestamp(reply.createdAt)}
+                              {renderEditedMark(reply.editedAt, {
+                                id: msg.id,
+                                replyId: reply.id,
+                              })}
+                              {!isEditingReply &&
+                                renderDraftChip(
+                                  {
+                                    kind: "edit",
+                                    channelId: msg.channelId,
+                                    messageId: msg.id,
+                                    replyId: reply.id,
+                                  },
+                                  t("drafts.editDraft"),
+                                  () =>
+                                    onStartEdit({
+                                      id: msg.id,
+                                      replyId: reply.id,
+                                      text: reply.text,
+                                    })
+                                )}
                             </Typography>
                           }
                           secondary={
@@ -266,7 +662,11 @@ const Timeline: React.FC<TimelineProps> = ({
                                   multiline
                                   variant="outlined"
                                   value={editText}
-                                  onChange={(e) => setEditText(e.target.value)}
+                                  onChange={(e) =>
+                                    onEditTextChange(e.target.value)
+                                  }
+                                  onKeyDown={handleEditKeyDown}
+                                  autoFocus
                                   size="small"
                                   sx={{ mt: 1 }}
                                 />
@@ -275,7 +675,7 @@ const Timeline: React.FC<TimelineProps> = ({
                                   component="span"
                                 >
                                   <Button size="small" onClick={onCancelEdit}>
-                                    キャンセル
+                                    {t("common.cancel")}
                                   </Button>
                                   <Button
                                     size="small"
@@ -283,12 +683,16 @@ const Timeline: React.FC<TimelineProps> = ({
                                     onClick={handleUpdate}
                                     sx={{ ml: 1 }}
                                   >
-                                    保存
+                                    {t("common.save")}
                                   </Button>
                                 </Box>
                               </Box>
                             ) : (
-                              renderMessageContent(reply.text, reply.image)
+                              renderMessageContent(
+                                reply,
+                                { id: msg.id, replyId: reply.id },
+                                dateKey
+                              )
                             )
                           }
                           slotProps={{
@@ -302,7 +706,15 @@ const Timeline: React.FC<TimelineProps> = ({
                             sx={{ position: "absolute", top: 8, right: 8 }}
                             component="span"
                           >
-                            {reply.user.name === "Me" && (
+                            {renderReactionButton({
+                              id: msg.id,
+                              replyId: reply.id,
+                            })}
+                            {renderStarButton(reply.starred, {
+                              id: msg.id,
+                              replyId: reply.id,
+                            })}
+                            {isOwnEntry(reply) && (
                               <>
                                 <IconButton
                                   size="small"
@@ -336,11 +748,49 @@ const Timeline: React.FC<TimelineProps> = ({
                 </List>
               </Box>
             )}
-            <Divider sx={{ my: 1, borderColor: "#333" }} />
+            <Divider sx={{ my: 1 }} />
           </React.Fragment>
         );
       })}
       <div ref={bottomRef} />
+
+      {/* 投稿を別のチャンネルに移動するメニュー */}
+      <Menu
+        anchorEl={moveMenu?.anchorEl}
+        open={moveMenu !== null}
+        onClose={() => setMoveMenu(null)}
+      >
+        {moveTargets
+          .filter((channel) => channel.id !== moveMenu?.message.channelId)
+          .map((channel) => (
+            <MenuItem
+              key={channel.id}
+              onClick={() => {
+                if (moveMenu) onMoveMessage?.(moveMenu.message.id, channel.id);
+                setMoveMenu(null);
+              }}
+            >
+              #{channel.name}
+            </MenuItem>
+          ))}
+      </Menu>
+
+      <ReactionPicker
+        anchorEl={reactionPicker?.anchorEl ?? null}
+        onClose={() => setReactionPicker(null)}
+        onSelect={(emoji) => {
+          if (reactionPicker) onToggleReaction?.(reactionPicker.target, emoji);
+        }}
+      />
+
+      <ImageLightbox
+        images={lightbox?.images ?? []}
+        index={lightbox?.index ?? null}
+        onIndexChange={(index) =>
+          setLightbox((prev) => (prev ? { ...prev, index } : prev))
+        }
+        onClose={() => setLightbox(null)}
+      />
     </List>
   );
 };
@@ -0,0 +1,154 @@
+import React from "react";
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  List,
+  ListItem,
+  ListItemText,
+  Tooltip,
+  Typography,
+} from "@mui/material";
+import { DeleteForever, RestoreFromTrash } from "@mui/icons-material";
+import { formatFullDateTime } from "../dateUtils";
+import type { TrashEntry } from "../db";
+import { useI18n } from "../hooks/useI18n";
+
+// 型定義をファイル内に再定義
+interface Channel {
+  id: number;
+  name: string;
+}
+
+interface TrashDialogProps {
+  open: boolean;
+  entries: TrashEntry[];
+  channels: Channel[];
+  retentionDays: number;
+  onClose: () => void;
+  onRestore: (trashIds: number[]) => void;
+  onDeleteForever: (trashIds: number[]) => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const TrashDialog: React.FC<TrashDialogProps> = ({
+  open,
+  entries,
+  channels,
+  retentionDays,
+  onClose,
+  onRestore,
+  onDeleteForever,
+}) => {
+  const { t } = useI18n();
+  // 新しく削除したものから表示する
+  const sortedEntries = [...entries].sort((a, b) =>
+    b.deletedAt.localeCompare(a.deletedAt)
+  );
+
+  const channelName = (channelId: number) => {
+    const channel = channels.find((item) => item.id === channelId);
+    return channel ? `#${channel.name}` : t("trash.deletedChannel");
+  };
+
+  // 完全に削除されるまでの残り日数
+  const remainingDays = (deletedAt: string) =>
+    Math.max(
+      0,
+      Math.ceil(
+        (Date.parse(deletedAt) + retentionDays * DAY_MS - Date.now()) / DAY_MS
+      )
+    );
+
+  const renderEntry = (entry: TrashEntry) => {
+    const isMessage = entry.kind === "message";
+    const item = isMessage ? entry.message : entry.reply;
+    const channelId = isMessage ? entry.message.channelId : entry.channelId;
+    const replyCount = isMessage ? entry.message.replies.length : 0;
+    return (
+      <ListItem
+        key={entry.id}
+        divider
+        secondaryAction={
+          <Box>
+            <Tooltip title={t("trash.restore")}>
+              <IconButton
+                edge="end"
+                aria-label="restore"
+                onClick={() => onRestore([entry.id])}
+              >
+                <RestoreFromTrash />
+              </IconButton>
+            </Tooltip>
+            <Tooltip title={t("trash.deleteForever")}>
+              <IconButton
+                edge="end"
+                aria-label="delete forever"
+                onClick={() => onDeleteForever([entry.id])}
+                sx={{ ml: 1 }}
+              >
+                <DeleteForever />
+              </IconButton>
+            </Tooltip>
+          </Box>
+        }
+        sx={{ pr: 12 }}
+      >
+        <ListItemText
+          primary={item.text || t("common.attachmentsOnly")}
+          secondary={[
+            channelName(channelId),
+            (isMessage ? t("common.post") : t("common.reply")) +
+              (replyCount > 0
+                ? t("trash.replyCount", { count: replyCount })
+                : ""),
+            t("trash.deletedAt", {
+              date: formatFullDateTime(entry.deletedAt),
+            }),
+            t("trash.remainingDays", {
+              count: remainingDays(entry.deletedAt),
+            }),
+          ].join(t("common.separator"))}
+          slotProps={{ primary: { noWrap: true } }}
+        />
+      </ListItem>
+    );
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="sm">
+      <DialogTitle>{t("trash.title")}</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" gutterBottom>
+          {t("trash.description", { count: retentionDays })}
+        </Typography>
+        {sortedEntries.length > 0 ? (
+          <List dense>{sortedEntries.map(renderEntry)}</List>
+        ) : (
+          <Typography variant="body2" sx={{ mt: 2 }}>
+            {t("trash.empty")}
+          </Typography>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button
+          color="error"
+          disabled={sortedEntries.length === 0}
+          onClick={() =>
+            onDeleteForever(sortedEntries.map((entry) => entry.id))
+          }
+        >
+          {t("trash.emptyTrash")}
+        </Button>
+        <Button onClick={onClose}>{t("common.close")}</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default TrashDialog;
@@ -0,0 +1,52 @@
+import React from "react";
+import { Button, Snackbar } from "@mui/material";
+import { useRegisterSW } from "virtual:pwa-register/react";
+import { useI18n } from "../hooks/useI18n";
+
+// 新しいバージョンが配信されたら知らせ、「更新」で読み込み直す
+// 初めてオフラインで使えるようになったときも一度だけ知らせる
+const UpdatePrompt: React.FC = () => {
+  const { t } = useI18n();
+  const {
+    needRefresh: [needRefresh, setNeedRefresh],
+    offlineReady: [offlineReady, setOfflineReady],
+    updateServiceWorker,
+  } = useRegisterSW();
+
+  return (
+    <>
+      <Snackbar
+        open={needRefresh}
+        message={t("update.available")}
+        action={
+          <>
+            <Button
+              color="primary"
+              size="small"
+              onClick={() => updateServiceWorker(true)}
+            >
+              {t("update.reload")}
+            </Button>
+            <Button
+              color="inherit"
+              size="small"
+              onClick={() => setNeedRefresh(false)}
+            >
+              {t("update.later")}
+            </Button>
+          </>
+        }
+      />
+      <Snackbar
+        open={offlineReady && !needRefresh}
+        autoHideDuration={6000}
+        onClose={(_, reason) => {
+          if (reason !== "clickaway") setOfflineReady(false);
+        }}
+        message={t("update.offlineReady")}
+      />
+    </>
+  );
+};
+
+export default UpdatePrompt;
@@ -0,0 +1,31 @@
+import React from "react";
+import { Avatar } from "@mui/material";
+
+interface UserAvatarProps {
+  initials: string;
+  color?: string; // 未指定ならテーマの既定の色
+  image?: string;
+  size?: number;
+}
+
+// プロフィールのアバター。画像があれば画像を、なければ色付きの文字を出す
+const UserAvatar: React.FC<UserAvatarProps> = ({
+  initials,
+  color,
+  image,
+  size = 40,
+}) => (
+  <Avatar
+    src={image}
+    sx={{
+      width: size,
+      height: size,
+      fontSize: size * 0.45,
+      ...(color && { bgcolor: color, color: "common.white" }),
+    }}
+  >
+    {initials}
+  </Avatar>
+);
+
+export default UserAvatar;
@@ -0,0 +1,96 @@
+// 日付の表示と変換に関する関数
+// メッセージの日時はISO 8601形式（UTC）で保存し、表示やエクスポートの際に
+// ブラウザのタイムゾーンの日付に変換する
+import { getLanguageTag, t } from "./i18n";
+
+const pad = (value: number): string => value.toString().padStart(2, "0");
+
+// ローカル時刻での日付（YYYY-MM-DD）
+export const toLocalDateKey = (date: Date): string =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+// ローカル時刻での時分（HH:MM）。エクスポートの見出しなど、読み込み直す箇所で使う
+export const formatTime = (iso: string): string => {
+  const date = new Date(iso);
+  return `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+// 画面に表示する時刻（選択中の言語の書式）
+export const formatDisplayTime = (iso: string): string =>
+  new Date(iso).toLocaleTimeString(getLanguageTag(), {
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+// 日付（YYYY-MM-DD）を選択中の言語の書式で表す（例: 2024年1月5日(金)）
+export const formatDate = (dateKey: string): string => {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString(getLanguageTag(), {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    weekday: "short",
+  });
+};
+
+// 日付の区切りに表示するラベル（今日 / 昨日 / 日付）
+export const formatDayLabel = (dateKey: string, now = new Date()): string => {
+  if (dateKey === toLocalDateKey(now)) return t("date.today");
+  const yesterday = new Date(now);
+  yesterday.setDate(now.getDate() - 1);
+  if (dateKey === toLocalDateKey(yesterday)) return t("date.yesterday");
+  return formatDate(dateKey);
+};
+
+// 絞り込みに使う期間（すべて / 今日 / 今週 / 今月）
+export type DatePeriod = "all" | "today" | "week" | "month";
+
+export const DATE_PERIODS: DatePeriod[] = ["all", "today", "week", "month"];
+
+export const formatPeriod = (period: DatePeriod): string =>
+  t(`period.${period}`);
+
+// 期間の始まりのローカル時刻（週は月曜日から）。allならnull
+export const startOfPeriod = (
+  period: DatePeriod,
+  now = new Date()
+): Date | null => {
+  if (period === "all") return null;
+  const start = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  if (period === "week")
+    start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  if (period === "month") start.setDate(1);
+  return start;
+};
+
+// ツールチップに表示する完全な日時
+export const formatFullDateTime = (iso: string): string =>
+  new Date(iso).toLocaleString(getLanguageTag(), {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+
+// Date.now()で採番されたとみなせるIDの下限（2000-01-01）
+const MIN_EPOCH_ID = Date.UTC(2000, 0, 1);
+
+// 時刻（HH:MM）しか持たない旧形式のデータから作成日時を求める
+// IDがDate.now()で採番されていればそれを使い、そうでなければ（初期メッセージなど）
+// referenceの日付にHH:MMを当てはめる
+export const createdAtFromLegacy = (
+  id: number,
+  timestamp: string | undefined,
+  reference = new Date()
+): string => {
+  if (id >= MIN_EPOCH_ID) return new Date(id).toISOString();
+  const match = timestamp?.match(/^(\d{1,2}):(\d{2})$/);
+  const date = new Date(reference);
+  if (match) {
+    date.setHours(Number(match[1]), Number(match[2]), 0, 0);
+  }
+  return date.toISOString();
+};
@@ -1,71 +1,732 @@
+import { dataURLToBlob, extensionFromMime } from './blobUtils';
+import { createdAtFromLegacy } from './dateUtils';
+import { DEFAULT_CHANNEL_ID, createDefaultChannel } from './channels';
+import { type Draft, createDraft, isDraftEmpty } from './drafts';
+import { createDefaultProfile, isLegacyOwnAuthor, toAuthor } from './profiles';
+import { type NamedReaction, resolveReactionUsers } from './reactions';
+import {
+  extractIndexTerms,
+  extractQueryTerms,
+  matchesAllWords,
+  splitSearchWords,
+} from './search';
+import { broadcastChange } from './tabSync';
+import { extractTags, renameTagInText } from './tags';
+
 const DB_NAME = 'TimesAppDB';
-const DB_VERSION = 1;
 const STORE_NAME = 'messages';
+const ATTACHMENT_STORE_NAME = 'attachments';
+const SEARCH_STORE_NAME = 'searchIndex';
+const SEARCH_TERMS_INDEX = 'terms';
+const SEARCH_TAGS_INDEX = 'tags';
+const CHANNEL_STORE_NAME = 'channels';
+const CHANNEL_INDEX = 'channelId';
+const CHANNEL_CREATED_AT_INDEX = 'channelId_createdAt';
+const TRASH_STORE_NAME = 'trash';
+const TRASH_DELETED_AT_INDEX = 'deletedAt';
+const SETTINGS_STORE_NAME = 'settings';
+const PROFILE_STORE_NAME = 'profiles';
+const DRAFT_STORE_NAME = 'drafts';
 
 let db: IDBDatabase;
 
 // 型定義をファイル内に再定義
+interface EditHistoryEntry {
+  text: string;
+  savedAt: string;
+}
+
+interface Attachment {
+  id: string;
+  name: string;
+  type: string;
+  size: number;
+  originalSize?: number; // 圧縮して保存した場合の元のサイズ
+}
+
+// 投稿者。idでプロフィールと結び付け、名前などは書き出し用の写し
+interface Author {
+  id?: number;
+  name: string;
+  avatar: string;
+  color?: string;
+}
+
+interface Reaction {
+  emoji: string;
+  users: number[]; // リアクションを付けたプロフィールのID
+}
+
 interface Reply {
   id: number;
-  user: { name: string; avatar: string };
+  user: Author;
   text: string;
-  timestamp: string;
-  image?: string;
+  createdAt: string;
+  attachments: Attachment[];
+  editedAt?: string;
+  history?: EditHistoryEntry[];
+  starred?: boolean; // スター付き（保存済みの一覧に出す）
+  reactions?: Reaction[];
 }
 
 interface Message {
   id: number;
-  user: { name: string; avatar: string };
+  user: Author;
   text: string;
-  timestamp: string;
+  createdAt: string;
   replies: Reply[];
+  attachments: Attachment[];
+  channelId: number;
+  editedAt?: string;
+  history?: EditHistoryEntry[];
+  pinned?: boolean; // タイムラインの上部に固定する
+  starred?: boolean;
+  reactions?: Reaction[];
+}
+
+interface Channel {
+  id: number;
+  name: string;
+  archived: boolean;
+  createdAt: string;
+  lastReadAt: string;
+}
+
+interface Profile {
+  id: number;
+  name: string;
+  initials: string;
+  color: string;
   image?: string;
 }
 
-// DBを初期化・オープンする関数
+// 画像などの添付ファイル。メッセージからはidで参照する
+export interface AttachmentRecord {
+  id: string;
+  blob: Blob;
+}
+
+// ゴミ箱に移した投稿・返信。添付ファイルはゴミ箱から完全に削除するまで残す
+type TrashContent =
+  | { kind: 'message'; message: Message }
+  | { kind: 'reply'; messageId: number; channelId: number; reply: Reply };
+
+export type TrashEntry = TrashContent & {
+  id: number;
+  deletedAt: string;
+};
+
+// 添付ファイルのIDを採番する
+export const createAttachmentId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+// バージョン1で本文に埋め込んでいたデータURLの画像を、添付ファイルストアへ移す
+const moveInlineImagesToAttachments = (
+  transaction: IDBTransaction,
+  onComplete: () => void
+) => {
+  const messageStore = transaction.objectStore(STORE_NAME);
+  const attachmentStore = transaction.objectStore(ATTACHMENT_STORE_NAME);
+
+  const extractImage = (entry: { image?: string; imageId?: string }) => {
+    if (!entry.image) return;
+    const blob = dataURLToBlob(entry.image);
+    if (blob) {
+      const id = createAttachmentId();
+      attachmentStore.put({ id, blob });
+      entry.imageId = id;
+    }
+    delete entry.image;
+  };
+
+  messageStore.openCursor().onsuccess = (event) => {
+    const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+    if (!cursor) {
+      onComplete();
+      return;
+    }
+    const message = cursor.value;
+    extractImage(message);
+    message.replies.forEach(extractImage);
+    cursor.update(message);
+    cursor.continue();
+  };
+};
+
+// 1件だけ持てた画像（imageId）を、名前・種類・サイズ付きの添付ファイル一覧に置き換える
+// 投稿とゴミ箱の両方を変換する
+const convertImageIdsToAttachmentLists = (
+  transaction: IDBTransaction,
+  onComplete: () => void
+) => {
+  const blobInfo = new Map<string, { type: string; size: number }>();
+
+  type LegacyEntry = { imageId?: string; attachments?: Attachment[] };
+  type LegacyMessage = LegacyEntry & { replies: LegacyEntry[] };
+  type LegacyTrashEntry =
+    | { kind: 'message'; message: LegacyMessage }
+    | { kind: 'reply'; reply: LegacyEntry };
+  const convert = (entry: LegacyEntry) => {
+    const info = entry.imageId ? blobInfo.get(entry.imageId) : undefined;
+    entry.attachments =
+      entry.imageId && info
+        ? [
+            {
+              id: entry.imageId,
+              name: `image.${extensionFromMime(info.type)}`,
+              ...info,
+            },
+          ]
+        : [];
+    delete entry.imageId;
+  };
+  const convertMessage = (message: LegacyMessage) => {
+    convert(message);
+    message.replies.forEach(convert);
+  };
+
+  const updateAll = <T>(
+    storeName: string,
+    convertValue: (value: T) => void,
+    onUpdated: () => void
+  ) => {
+    transaction.objectStore(storeName).openCursor().onsuccess = (event) => {
+      const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+      if (!cursor) {
+        onUpdated();
+        return;
+      }
+      const value = cursor.value;
+      convertValue(value);
+      cursor.update(value);
+      cursor.continue();
+    };
+  };
+
+  // 先に添付ファイルの種類とサイズを集めてから、投稿を書き換える
+  transaction.objectStore(ATTACHMENT_STORE_NAME).openCursor().onsuccess = (event) => {
+    const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+    if (cursor) {
+      const { id, blob } = cursor.value as AttachmentRecord;
+      blobInfo.set(id, { type: blob.type, size: blob.size });
+      cursor.continue();
+      return;
+    }
+    updateAll(STORE_NAME, convertMessage, () =>
+      updateAll<LegacyTrashEntry>(
+        TRASH_STORE_NAME,
+        (entry) => {
+          if (entry.kind === 'message') {
+            convertMessage(entry.message);
+          } else {
+            convert(entry.reply);
+          }
+        },
+        onComplete
+      )
+    );
+  };
+};
+
+// 投稿と返信の本文をまとめた検索対象の文字列
+const messageSearchText = (message: Message): string =>
+  [message.text, ...message.replies.map((reply) => reply.text)].join('\n');
+
+// 投稿と返信の本文から全文検索用の語とタグを作る
+// タグはチャンネルごとに数えるため、チャンネルIDも一緒に持たせる
+const buildSearchEntry = (message: Message) => {
+  const text = messageSearchText(message);
+  return {
+    id: message.id,
+    channelId: message.channelId,
+    terms: extractIndexTerms(text),
+    tags: extractTags(text),
+  };
+};
+
+// 既存のメッセージから全文検索の索引を作る
+const buildSearchIndex = (
+  transaction: IDBTransaction,
+  onComplete: () => void
+) => {
+  const searchStore = transaction.objectStore(SEARCH_STORE_NAME);
+  transaction.objectStore(STORE_NAME).openCursor().onsuccess = (event) => {
+    const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+    if (!cursor) {
+      onComplete();
+      return;
+    }
+    searchStore.put(buildSearchEntry(cursor.value));
+    cursor.continue();
+  };
+};
+
+// 時刻（HH:MM）だけだったtimestampを、ISO形式の作成日時（createdAt）に置き換える
+const convertTimestampsToCreatedAt = (
+  transaction: IDBTransaction,
+  onComplete: () => void
+) => {
+  const convert = (entry: { id: number; timestamp?: string; createdAt?: string }) => {
+    entry.createdAt ??= createdAtFromLegacy(entry.id, entry.timestamp);
+    delete entry.timestamp;
+  };
+
+  transaction.objectStore(STORE_NAME).openCursor().onsuccess = (event) => {
+    const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+    if (!cursor) {
+      onComplete();
+      return;
+    }
+    const message = cursor.value;
+    convert(message);
+    message.replies.forEach(convert);
+    cursor.update(message);
+    cursor.continue();
+  };
+};
+
+// チャンネルを導入し、既存のメッセージを最初のチャンネルに入れる
+const assignMessagesToDefaultChannel = (
+  transaction: IDBTransaction,
+  onComplete: () => void
+) => {
+  transaction.objectStore(CHANNEL_STORE_NAME).put(createDefaultChannel());
+  transaction.objectStore(STORE_NAME).openCursor().onsuccess = (event) => {
+    const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+    if (!cursor) {
+      onComplete();
+      return;
+    }
+    cursor.update({ ...cursor.value, channelId: DEFAULT_CHANNEL_ID });
+    cursor.continue();
+  };
+};
+
+// プロフィールを導入し、自分（Me）の投稿と返信を最初のプロフィールに結び付ける
+// 投稿を書き換え終えてから、ゴミ箱の投稿と返信を書き換える
+const assignEntriesToDefaultProfile = (
+  transaction: IDBTransaction,
+  onComplete: () => void
+) => {
+  const profile = createDefaultProfile();
+  transaction.objectStore(PROFILE_STORE_NAME).put(profile);
+
+  const assign = (entry: { user: Author }) => {
+    if (isLegacyOwnAuthor(entry.user)) entry.user = toAuthor(profile);
+  };
+  const assignMessage = (message: Message) => {
+    assign(message);
+    message.replies.forEach(assign);
+  };
+
+  const assignTrash = () => {
+    transaction.objectStore(TRASH_STORE_NAME).openCursor().onsuccess = (event) => {
+      const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+      if (!cursor) {
+        onComplete();
+        return;
+      }
+      const entry: TrashEntry = cursor.value;
+      if (entry.kind === 'message') {
+        assignMessage(entry.message);
+      } else {
+        assign(entry.reply);
+      }
+      cursor.update(entry);
+      cursor.continue();
+    };
+  };
+
+  transaction.objectStore(STORE_NAME).openCursor().onsuccess = (event) => {
+    const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+    if (!cursor) {
+      assignTrash();
+      return;
+    }
+    const message: Message = cursor.value;
+    assignMessage(message);
+    cursor.update(message);
+    cursor.continue();
+  };
+};
+
+// 下書きの保存先を分け、チャンネルに保存していた投稿欄の下書きを移す
+const moveChannelDraftsToDraftStore = (
+  transaction: IDBTransaction,
+  onComplete: () => void
+) => {
+  const draftStore = transaction.objectStore(DRAFT_STORE_NAME);
+  transaction.objectStore(CHANNEL_STORE_NAME).openCursor().onsuccess = (event) => {
+    const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+    if (!cursor) {
+      onComplete();
+      return;
+    }
+    const { draft, ...channel } = cursor.value as Channel & { draft?: string };
+    const moved = createDraft({ kind: 'post', channelId: channel.id }, draft ?? '');
+    if (!isDraftEmpty(moved)) draftStore.put(moved);
+    cursor.update(channel);
+    cursor.continue();
+  };
+};
+
+// リアクションを付けた人を、名前からプロフィールのIDに置き換える
+// 同じ名前のプロフィールがない名前は外す。投稿とゴミ箱の両方を変換する
+const convertReactionNamesToProfileIds = (
+  transaction: IDBTransaction,
+  onComplete: () => void
+) => {
+  let profiles: Profile[] = [];
+
+  type LegacyEntry = { reactions?: NamedReaction[] | Reaction[] };
+  type LegacyMessage = LegacyEntry & { replies: LegacyEntry[] };
+  type LegacyTrashEntry =
+    | { kind: 'message'; message: LegacyMessage }
+    | { kind: 'reply'; reply: LegacyEntry };
+  const convert = (entry: LegacyEntry) => {
+    if (!entry.reactions) return;
+    const reactions = resolveReactionUsers(
+      entry.reactions as NamedReaction[],
+      profiles
+    );
+    if (reactions.length > 0) {
+      entry.reactions = reactions;
+    } else {
+      delete entry.reactions;
+    }
+  };
+  const convertMessage = (message: LegacyMessage) => {
+    convert(message);
+    message.replies.forEach(convert);
+  };
+
+  const updateAll = <T>(
+    storeName: string,
+    convertValue: (value: T) => void,
+    onUpdated: () => void
+  ) => {
+    transaction.objectStore(storeName).openCursor().onsuccess = (event) => {
+      const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+      if (!cursor) {
+        onUpdated();
+        return;
+      }
+      const value = cursor.value;
+      convertValue(value);
+      cursor.update(value);
+      cursor.continue();
+    };
+  };
+
+  // 先にプロフィールを読み込んでから、投稿とゴミ箱を書き換える
+  const request = transaction.objectStore(PROFILE_STORE_NAME).getAll();
+  request.onsuccess = () => {
+    profiles = request.result;
+    updateAll(STORE_NAME, convertMessage, () =>
+      updateAll<LegacyTrashEntry>(
+        TRASH_STORE_NAME,
+        (entry) => {
+          if (entry.kind === 'message') {
+            convertMessage(entry.message);
+          } else {
+            convert(entry.reply);
+          }
+        },
+        onComplete
+      )
+    );
+  };
+};
+
+// スキーマ変更の手順。バージョン順に並べ、既存のバージョンより新しいものだけを
+// アップグレード用のトランザクション内で順に実行する。公開後の手順は書き換えないこと
+// 各手順はカーソルでの書き換えを終えてからdoneを呼ぶ。次の手順は前の手順が
+// 書き込んだレコードを読むため、doneを呼ぶまでは始めない
+interface Migration {
+  version: number;
+  migrate: (db: IDBDatabase, transaction: IDBTransaction, done: () => void) => void;
+}
+
+const migrations: Migration[] = [
+  {
+    version: 1,
+    migrate: (db, _transaction, done) => {
+      // メッセージIDはApp.tsxでDate.now()を使って採番するため、autoIncrementは不要
+      db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      done();
+    },
+  },
+  {
+    version: 2,
+    migrate: (db, transaction, done) => {
+      db.createObjectStore(ATTACHMENT_STORE_NAME, { keyPath: 'id' });
+      moveInlineImagesToAttachments(transaction, done);
+    },
+  },
+  {
+    version: 3,
+    migrate: (db, transaction, done) => {
+      const searchStore = db.createObjectStore(SEARCH_STORE_NAME, {
+        keyPath: 'id',
+      });
+      searchStore.createIndex(SEARCH_TERMS_INDEX, 'terms', {
+        multiEntry: true,
+      });
+      buildSearchIndex(transaction, done);
+    },
+  },
+  {
+    version: 4,
+    migrate: (_db, transaction, done) => {
+      convertTimestampsToCreatedAt(transaction, done);
+    },
+  },
+  {
+    version: 5,
+    migrate: (db, transaction, done) => {
+      db.createObjectStore(CHANNEL_STORE_NAME, { keyPath: 'id' });
+      const messageStore = transaction.objectStore(STORE_NAME);
+      messageStore.createIndex(CHANNEL_INDEX, 'channelId');
+      // 未読件数を数えるため、チャンネルごとに作成日時で引ける索引も作る
+      messageStore.createIndex(CHANNEL_CREATED_AT_INDEX, [
+        'channelId',
+        'createdAt',
+      ]);
+      assignMessagesToDefaultChannel(transaction, done);
+    },
+  },
+  {
+    version: 6,
+    migrate: (db, _transaction, done) => {
+      const trashStore = db.createObjectStore(TRASH_STORE_NAME, {
+        keyPath: 'id',
+        autoIncrement: true,
+      });
+      trashStore.createIndex(TRASH_DELETED_AT_INDEX, 'deletedAt');
+      done();
+    },
+  },
+  {
+    version: 7,
+    migrate: (_db, transaction, done) => {
+      convertImageIdsToAttachmentLists(transaction, done);
+    },
+  },
+  {
+    version: 8,
+    migrate: (db, _transaction, done) => {
+      db.createObjectStore(SETTINGS_STORE_NAME, { keyPath: 'key' });
+      done();
+    },
+  },
+  {
+    version: 9,
+    migrate: (_db, transaction, done) => {
+      transaction
+        .objectStore(SEARCH_STORE_NAME)
+        .createIndex(SEARCH_TAGS_INDEX, 'tags', { multiEntry: true });
+      // 既存の索引にタグとチャンネルIDを加える
+      buildSearchIndex(transaction, done);
+    },
+  },
+  {
+    version: 10,
+    migrate: (db, transaction, done) => {
+      db.createObjectStore(PROFILE_STORE_NAME, { keyPath: 'id' });
+      assignEntriesToDefaultProfile(transaction, done);
+    },
+  },
+  {
+    version: 11,
+    migrate: (db, transaction, done) => {
+      db.createObjectStore(DRAFT_STORE_NAME, { keyPath: 'key' });
+      moveChannelDraftsToDraftStore(transaction, done);
+    },
+  },
+  {
+    version: 12,
+    migrate: (_db, transaction, done) => {
+      convertReactionNamesToProfileIds(transaction, done);
+    },
+  },
+];
+
+const DB_VERSION = migrations[migrations.length - 1].version;
+
+// マイグレーションに失敗したときのエラー
+export class DBMigrationError extends Error {
+  version: number;
+
+  constructor(version: number, cause: unknown) {
+    super(`データベースをバージョン${version}に更新できませんでした`, { cause });
+    this.name = 'DBMigrationError';
+    this.version = version;
+  }
+}
+
+// 他のタブとのバージョン競合や書き込みの失敗をUIに伝えるための通知
+// blocked: 他のタブが古いバージョンを開いたままで、更新を待っている
+// versionchange: 他のタブが新しいバージョンに更新したため、この接続を閉じた
+// quotaexceeded: ストレージの空き容量が足りず、書き込みが中断された
+export type DBStatus = 'blocked' | 'versionchange' | 'quotaexceeded';
+
+const statusListeners = new Set<(status: DBStatus) => void>();
+
+export const subscribeDBStatus = (
+  listener: (status: DBStatus) => void
+): (() => void) => {
+  statusListeners.add(listener);
+  return () => {
+    statusListeners.delete(listener);
+  };
+};
+
+const notifyStatus = (status: DBStatus) => {
+  statusListeners.forEach((listener) => listener(status));
+};
+
+// 容量不足はリクエストのエラーではなくトランザクションの中断として届き、onerrorでは拾えない
+// 中断されたら容量不足をUIに伝え、保存を待っている呼び出し元にも失敗を返す
+const handleWriteAbort = (
+  transaction: IDBTransaction,
+  reject: (reason: unknown) => void
+) => {
+  transaction.onabort = () => {
+    if (transaction.error?.name === 'QuotaExceededError') {
+      console.error('ストレージの空き容量が不足しています', transaction.error);
+      notifyStatus('quotaexceeded');
+    }
+    reject(transaction.error);
+  };
+};
+
+let openRequest: Promise<IDBDatabase> | null = null;
+
+// DBを初期化・オープンする関数（同時に呼ばれても接続は1つだけ作る）
 const initDB = (): Promise<IDBDatabase> => {
-  return new Promise((resolve, reject) => {
+  if (openRequest) return openRequest;
+
+  openRequest = new Promise<IDBDatabase>((resolve, reject) => {
     const request = indexedDB.open(DB_NAME, DB_VERSION);
+    let migrationError: DBMigrationError | null = null;
 
     request.onerror = () => {
-      console.error('IndexedDBのオープンに失敗しました');
-      reject(request.error);
+      console.error('IndexedDBのオープンに失敗しました', request.error);
+      openRequest = null;
+      reject(migrationError ?? request.error);
+    };
+
+    request.onblocked = () => {
+      notifyStatus('blocked');
     };
 
     request.onsuccess = () => {
       db = request.result;
+      // 他のタブがより新しいバージョンで開こうとしたら、邪魔をしないよう接続を閉じる
+      db.onversionchange = () => {
+        db.close();
+        notifyStatus('versionchange');
+      };
       resolve(db);
     };
 
     // テーブル（オブジェクトストア）の作成・更新
     request.onupgradeneeded = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
-      if (!db.objectStoreNames.contains(STORE_NAME)) {
-        // メッセージIDはApp.tsxでDate.now()を使って採番するため、autoIncrementは不要
-        db.createObjectStore(STORE_NAME, { keyPath: 'id' });
-      }
+      const db = request.result;
+      const transaction = request.transaction!;
+      // カーソルなど非同期の処理で失敗した場合もエラーとして扱う
+      transaction.onabort = () => {
+        migrationError ??= new DBMigrationError(DB_VERSION, transaction.error);
+      };
+      const pending = migrations.filter(
+        (migration) => migration.version > event.oldVersion
+      );
+      // 前の手順が終わってから次の手順を始める
+      const runMigration = (index: number) => {
+        const migration = pending[index];
+        if (!migration) return;
+        try {
+          migration.migrate(db, transaction, () => runMigration(index + 1));
+        } catch (error) {
+          migrationError = new DBMigrationError(migration.version, error);
+          console.error(migrationError, error);
+          transaction.abort();
+        }
+      };
+      runMigration(0);
     };
   });
+  return openRequest;
 };
 
-// メッセージをDBに保存する関数
-export const saveMessagesToDB = async (messages: Message[]): Promise<void> => {
+// メッセージに紐づく添付ファイルのIDを集める
+const collectAttachmentIds = (message: Message): string[] =>
+  [message, ...message.replies].flatMap((entry) =>
+    entry.attachments.map((attachment) => attachment.id)
+  );
+
+// ゴミ箱の項目が持つ添付ファイルのIDを集める
+const collectTrashAttachmentIds = (entry: TrashEntry): string[] =>
+  entry.kind === 'message'
+    ? collectAttachmentIds(entry.message)
+    : entry.reply.attachments.map((attachment) => attachment.id);
+
+// すべてのメッセージと添付ファイルを置き換えて保存する関数
+// channels・profilesを渡した場合はチャンネル・プロフィールも置き換える
+// 添付ファイルを消すため、それを参照するゴミ箱も空にする
+// バックアップからすべて置き換えて復元するときだけ使う
+export const saveMessagesToDB = async (
+  messages: Message[],
+  attachments: AttachmentRecord[] = [],
+  channels?: Channel[],
+  profiles?: Profile[]
+): Promise<void> => {
   if (!db) await initDB();
 
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    const transaction = db.transaction(
+      [
+        STORE_NAME,
+        ATTACHMENT_STORE_NAME,
+        SEARCH_STORE_NAME,
+        CHANNEL_STORE_NAME,
+        TRASH_STORE_NAME,
+        PROFILE_STORE_NAME,
+      ],
+      'readwrite'
+    );
     const store = transaction.objectStore(STORE_NAME);
-    
+    const attachmentStore = transaction.objectStore(ATTACHMENT_STORE_NAME);
+    const searchStore = transaction.objectStore(SEARCH_STORE_NAME);
+
     // 既存のデータをクリア
+    attachmentStore.clear();
+    searchStore.clear();
+    transaction.objectStore(TRASH_STORE_NAME).clear();
+    if (channels) {
+      const channelStore = transaction.objectStore(CHANNEL_STORE_NAME);
+      channelStore.clear();
+      channels.forEach((channel) => channelStore.put(channel));
+    }
+    if (profiles) {
+      const profileStore = transaction.objectStore(PROFILE_STORE_NAME);
+      profileStore.clear();
+      profiles.forEach((profile) => profileStore.put(profile));
+    }
     const clearRequest = store.clear();
     clearRequest.onsuccess = () => {
         // 新しいデータを一括で追加
         messages.forEach(message => {
             store.put(message);
+            searchStore.put(buildSearchEntry(message));
+        });
+        attachments.forEach(attachment => {
+            attachmentStore.put(attachment);
         });
     };
 
     transaction.oncomplete = () => {
+      broadcastChange('messages', 'channels', 'trash', 'profiles');
       resolve();
     };
 
@@ -73,22 +734,427 @@ export const saveMessagesToDB = async (messages: Message[]): Promise<void> => {
       console.error('メッセージの保存に失敗しました', transaction.error);
       reject(transaction.error);
     };
+    handleWriteAbort(transaction, reject);
   });
 };
 
-// DBからメッセージを読み込む関数
-export const loadMessagesFromDB = async (): Promise<Message[]> => {
+// 既存のデータを残したまま、メッセージと添付ファイル、チャンネル、プロフィールを追加・上書きする関数
+export const putMessagesToDB = async (
+  messages: Message[],
+  attachments: AttachmentRecord[] = [],
+  channels: Channel[] = [],
+  profiles: Profile[] = []
+): Promise<void> => {
   if (!db) await initDB();
 
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction(STORE_NAME, 'readonly');
+    const transaction = db.transaction(
+      [
+        STORE_NAME,
+        ATTACHMENT_STORE_NAME,
+        SEARCH_STORE_NAME,
+        CHANNEL_STORE_NAME,
+        PROFILE_STORE_NAME,
+      ],
+      'readwrite'
+    );
+    const store = transaction.objectStore(STORE_NAME);
+    const attachmentStore = transaction.objectStore(ATTACHMENT_STORE_NAME);
+    const searchStore = transaction.objectStore(SEARCH_STORE_NAME);
+    const channelStore = transaction.objectStore(CHANNEL_STORE_NAME);
+
+    const profileStore = transaction.objectStore(PROFILE_STORE_NAME);
+
+    channels.forEach(channel => {
+      channelStore.put(channel);
+    });
+    profiles.forEach(profile => {
+      profileStore.put(profile);
+    });
+    attachments.forEach(attachment => {
+      attachmentStore.put(attachment);
+    });
+    messages.forEach(message => {
+      store.put(message);
+      searchStore.put(buildSearchEntry(message));
+    });
+
+    transaction.oncomplete = () => {
+      broadcastChange('messages', 'channels', 'profiles');
+      resolve();
+    };
+
+    transaction.onerror = () => {
+      console.error('メッセージの追加に失敗しました', transaction.error);
+      reject(transaction.error);
+    };
+    handleWriteAbort(transaction, reject);
+  });
+};
+
+// 新しいメッセージを1件追加する関数
+export const addMessageToDB = async (message: Message): Promise<void> => {
+  if (!db) await initDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(
+      [STORE_NAME, SEARCH_STORE_NAME],
+      'readwrite'
+    );
+    transaction.objectStore(STORE_NAME).add(message);
+    transaction.objectStore(SEARCH_STORE_NAME).put(buildSearchEntry(message));
+
+    transaction.oncomplete = () => {
+      broadcastChange('messages');
+      resolve();
+    };
+
+    transaction.onerror = () => {
+      console.error('メッセージの追加に失敗しました', transaction.error);
+      reject(transaction.error);
+    };
+    handleWriteAbort(transaction, reject);
+  });
+};
+
+// DB上の最新のメッセージにmodifyを当てて保存し、保存した内容を返す関数
+// （返信の追加・編集・移動もこれで保存する）
+// 読み込みと書き込みを1つのトランザクションで行うため、他のタブが同時に書き込んでも
+// 互いの変更を上書きしない。メッセージがないか、modifyがnullを返したら何もせずnullを返す
+export const modifyMessageInDB = async (
+  id: number,
+  modify: (message: Message) => Message | null
+): Promise<Message | null> => {
+  if (!db) await initDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(
+      [STORE_NAME, SEARCH_STORE_NAME],
+      'readwrite'
+    );
+    const store = transaction.objectStore(STORE_NAME);
+    let updated: Message | null = null;
+    const getRequest = store.get(id);
+    getRequest.onsuccess = () => {
+      const message: Message | undefined = getRequest.result;
+      updated = message ? modify(message) : null;
+      if (!updated) return;
+      store.put(updated);
+      transaction.objectStore(SEARCH_STORE_NAME).put(buildSearchEntry(updated));
+    };
+
+    transaction.oncomplete = () => {
+      if (updated) broadcastChange('messages');
+      resolve(updated);
+    };
+
+    transaction.onerror = () => {
+      console.error('メッセージの更新に失敗しました', transaction.error);
+      reject(transaction.error);
+    };
+    handleWriteAbort(transaction, reject);
+  });
+};
+
+// openCursorで選んだメッセージを返信ごとゴミ箱に移すトランザクションを実行し、
+// ゴミ箱の項目のIDを返す
+const moveMessagesToTrash = async (
+  openCursor: (
+    store: IDBObjectStore
+  ) => IDBRequest<IDBCursorWithValue | null>,
+  errorMessage: string,
+  onTransaction?: (transaction: IDBTransaction) => void
+): Promise<number[]> => {
+  if (!db) await initDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(
+      [STORE_NAME, SEARCH_STORE_NAME, TRASH_STORE_NAME, CHANNEL_STORE_NAME],
+      'readwrite'
+    );
+    const searchStore = transaction.objectStore(SEARCH_STORE_NAME);
+    const trashStore = transaction.objectStore(TRASH_STORE_NAME);
+    const deletedAt = new Date().toISOString();
+    const trashIds: number[] = [];
+    onTransaction?.(transaction);
+
+    const cursorRequest = openCursor(transaction.objectStore(STORE_NAME));
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      const message: Message = cursor.value;
+      const addRequest = trashStore.add({ kind: 'message', deletedAt, message });
+      addRequest.onsuccess = () => {
+        trashIds.push(addRequest.result as number);
+      };
+      searchStore.delete(message.id);
+      cursor.delete();
+      cursor.continue();
+    };
+
+    transaction.oncomplete = () => {
+      broadcastChange('messages', 'channels', 'trash');
+      resolve(trashIds);
+    };
+
+    transaction.onerror = () => {
+      console.error(errorMessage, transaction.error);
+      reject(transaction.error);
+    };
+    handleWriteAbort(transaction, reject);
+  });
+};
+
+// メッセージを1件、返信ごとゴミ箱に移す関数
+export const trashMessageInDB = (id: number): Promise<number[]> =>
+  moveMessagesToTrash(
+    (store) => store.openCursor(id),
+    'メッセージの削除に失敗しました'
+  );
+
+// すべてのメッセージをゴミ箱に移す関数
+export const trashAllMessagesInDB = (): Promise<number[]> =>
+  moveMessagesToTrash(
+    (store) => store.openCursor(),
+    'メッセージの削除に失敗しました'
+  );
+
+// 返信を1件ゴミ箱に移す関数
+export const trashReplyInDB = async (
+  messageId: number,
+  replyId: number
+): Promise<number[]> => {
+  if (!db) await initDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(
+      [STORE_NAME, SEARCH_STORE_NAME, TRASH_STORE_NAME],
+      'readwrite'
+    );
+    const store = transaction.objectStore(STORE_NAME);
+    const trashIds: number[] = [];
+    const getRequest = store.get(messageId);
+    getRequest.onsuccess = () => {
+      const message: Message | undefined = getRequest.result;
+      const reply = message?.replies.find((item) => item.id === replyId);
+      if (!message || !reply) return;
+      const updated = {
+        ...message,
+        replies: message.replies.filter((item) => item.id !== replyId),
+      };
+      store.put(updated);
+      transaction.objectStore(SEARCH_STORE_NAME).put(buildSearchEntry(updated));
+      const addRequest = transaction.objectStore(TRASH_STORE_NAME).add({
+        kind: 'reply',
+        deletedAt: new Date().toISOString(),
+        messageId,
+        channelId: message.channelId,
+        reply,
+      });
+      addRequest.onsuccess = () => {
+        trashIds.push(addRequest.result as number);
+      };
+    };
+
+    transaction.oncomplete = () => {
+      broadcastChange('messages', 'trash');
+      resolve(trashIds);
+    };
+
+    transaction.onerror = () => {
+      console.error('返信の削除に失敗しました', transaction.error);
+      reject(transaction.error);
+    };
+    handleWriteAbort(transaction, reject);
+  });
+};
+
+// ゴミ箱の項目を元に戻す関数
+// チャンネルが削除されていればfallbackChannelIdのチャンネルに戻し、
+// 返信の元の投稿がなければ単独の投稿として戻す
+export const restoreFromTrashInDB = async (
+  trashIds: number[],
+  fallbackChannelId: number
+): Promise<void> => {
+  if (!db) await initDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(
+      [STORE_NAME, SEARCH_STORE_NAME, TRASH_STORE_NAME, CHANNEL_STORE_NAME],
+      'readwrite'
+    );
     const store = transaction.objectStore(STORE_NAME);
-    const request = store.getAll();
+    const searchStore = transaction.objectStore(SEARCH_STORE_NAME);
+    const trashStore = transaction.objectStore(TRASH_STORE_NAME);
+    const channelStore = transaction.objectStore(CHANNEL_STORE_NAME);
+
+    const writeRestored = (message: Message) => {
+      store.put(message);
+      searchStore.put(buildSearchEntry(message));
+    };
+
+    // 同じ投稿への返信を続けて戻せるよう、1件ずつ順に処理する
+    const restoreAt = (index: number) => {
+      if (index >= trashIds.length) return;
+      const next = () => restoreAt(index + 1);
+      const entryRequest = trashStore.get(trashIds[index]);
+      entryRequest.onsuccess = () => {
+        const entry: TrashEntry | undefined = entryRequest.result;
+        if (!entry) {
+          next();
+          return;
+        }
+        trashStore.delete(entry.id);
+        const channelId =
+          entry.kind === 'message' ? entry.message.channelId : entry.channelId;
+        const channelRequest = channelStore.getKey(channelId);
+        channelRequest.onsuccess = () => {
+          const targetChannelId =
+            channelRequest.result === undefined ? fallbackChannelId : channelId;
+          if (entry.kind === 'message') {
+            writeRestored({ ...entry.message, channelId: targetChannelId });
+            next();
+            return;
+          }
+          const parentRequest = store.get(entry.messageId);
+          parentRequest.onsuccess = () => {
+            const parent: Message | undefined = parentRequest.result;
+            writeRestored(
+              parent
+                ? {
+                    ...parent,
+                    replies: [...parent.replies, entry.reply].sort(
+                      (a, b) => a.id - b.id
+                    ),
+                  }
+                : { ...entry.reply, replies: [], channelId: targetChannelId }
+            );
+            next();
+          };
+        };
+      };
+    };
+    restoreAt(0);
+
+    transaction.oncomplete = () => {
+      broadcastChange('messages', 'trash');
+      resolve();
+    };
+
+    transaction.onerror = () => {
+      console.error('ゴミ箱からの復元に失敗しました', transaction.error);
+      reject(transaction.error);
+    };
+    handleWriteAbort(transaction, reject);
+  });
+};
+
+// ゴミ箱の中身を読み込む関数
+export const loadTrashFromDB = async (): Promise<TrashEntry[]> => {
+  if (!db) await initDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(TRASH_STORE_NAME, 'readonly');
+    const request = transaction.objectStore(TRASH_STORE_NAME).getAll();
 
     request.onsuccess = () => {
       resolve(request.result || []);
     };
 
+    request.onerror = () => {
+      console.error('ゴミ箱の読み込みに失敗しました', request.error);
+      reject(request.error);
+    };
+  });
+};
+
+// ゴミ箱の項目を添付ファイルごと完全に削除する関数
+export const deleteFromTrashInDB = async (trashIds: number[]): Promise<void> => {
+  if (!db) await initDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(
+      [TRASH_STORE_NAME, ATTACHMENT_STORE_NAME],
+      'readwrite'
+    );
+    const trashStore = transaction.objectStore(TRASH_STORE_NAME);
+    const attachmentStore = transaction.objectStore(ATTACHMENT_STORE_NAME);
+    trashIds.forEach((id) => {
+      const request = trashStore.get(id);
+      request.onsuccess = () => {
+        const entry: TrashEntry | undefined = request.result;
+        if (!entry) return;
+        collectTrashAttachmentIds(entry).forEach((attachmentId) =>
+          attachmentStore.delete(attachmentId)
+        );
+        trashStore.delete(id);
+      };
+    });
+
+    transaction.oncomplete = () => {
+      broadcastChange('trash');
+      resolve();
+    };
+
+    transaction.onerror = () => {
+      console.error('ゴミ箱からの削除に失敗しました', transaction.error);
+      reject(transaction.error);
+    };
+    handleWriteAbort(transaction, reject);
+  });
+};
+
+// before より前にゴミ箱に移した項目を完全に削除する関数
+export const purgeTrashInDB = async (before: string): Promise<void> => {
+  if (!db) await initDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(
+      [TRASH_STORE_NAME, ATTACHMENT_STORE_NAME],
+      'readwrite'
+    );
+    const attachmentStore = transaction.objectStore(ATTACHMENT_STORE_NAME);
+    const cursorRequest = transaction
+      .objectStore(TRASH_STORE_NAME)
+      .index(TRASH_DELETED_AT_INDEX)
+      .openCursor(IDBKeyRange.upperBound(before, true));
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      collectTrashAttachmentIds(cursor.value).forEach((attachmentId) =>
+        attachmentStore.delete(attachmentId)
+      );
+      cursor.delete();
+      cursor.continue();
+    };
+
+    transaction.oncomplete = () => {
+      broadcastChange('trash');
+      resolve();
+    };
+
+    transaction.onerror = () => {
+      console.error('ゴミ箱の整理に失敗しました', transaction.error);
+      reject(transaction.error);
+    };
+    handleWriteAbort(transaction, reject);
+  });
+};
+
+// メッセージを1件読み込む関数
+export const loadMessageFromDB = async (
+  id: number
+): Promise<Message | undefined> => {
+  if (!db) await initDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readonly');
+    const request = transaction.objectStore(STORE_NAME).get(id);
+
+    request.onsuccess = () => {
+      resolve(request.result);
+    };
+
     request.onerror = () => {
       console.error('メッセージの読み込みに失敗しました', request.error);
       reject(request.error);
@@ -96,22 +1162,702 @@ export const loadMessagesFromDB = async (): Promise<Message[]> => {
   });
 };
 
-// DBからすべてのメッセージをクリアする関数
-export const clearAllMessagesFromDB = async (): Promise<void> => {
+// DBからメッセージを読み込む関数（channelIdを渡すとそのチャンネルのものだけ）
+export const loadMessagesFromDB = async (
+  channelId?: number
+): Promise<Message[]> => {
   if (!db) await initDB();
 
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    const transaction = db.transaction(STORE_NAME, 'readonly');
     const store = transaction.objectStore(STORE_NAME);
-    const request = store.clear();
+    const request =
+      channelId === undefined
+        ? store.getAll()
+        : store.index(CHANNEL_INDEX).getAll(channelId);
 
     request.onsuccess = () => {
-      resolve();
+      resolve(request.result || []);
+    };
+
+    request.onerror = () => {
+      console.error('メッセージの読み込みに失敗しました', request.error);
+      reject(request.error);
+    };
+  });
+};
+
+// すべてのチャンネルのメッセージ数を数える関数
+export const countMessagesInDB = async (): Promise<number> => {
+  if (!db) await initDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readonly');
+    const request = transaction.objectStore(STORE_NAME).count();
+
+    request.onsuccess = () => {
+      resolve(request.result);
     };
 
     request.onerror = () => {
-      console.error('メッセージのクリアに失敗しました', request.error);
+      console.error('メッセージの件数を取得できませんでした', request.error);
       reject(request.error);
     };
   });
-};
\ No newline at end of file
+};
+
+// チャンネルの未読件数（sinceより後に作成されたメッセージの数）を数える関数
+export const countUnreadMessagesInDB = async (
+  channelId: number,
+  since: string
+): Promise<number> => {
+  if (!db) await initDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readonly');
+    const index = transaction
+      .objectStore(STORE_NAME)
+      .index(CHANNEL_CREATED_AT_INDEX);
+    const request = index.count(
+      IDBKeyRange.bound([channelId, since], [channelId, '\uffff'], true)
+    );
+
+    request.onsuccess = () => {
+      resolve(request.result);
+    };
+
+    request.onerror = () => {
+      console.error('未読件数を取得できませんでした', request.error);
+      reject(request.error);
+    };
+  });
+};
+
+// DBからチャンネルを読み込む関数
+export const loadChannelsFromDB = async (): Promise<Channel[]> => {
+  if (!db) await initDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(CHANNEL_STORE_NAME, 'readonly');
+    const request = transaction.objectStore(CHANNEL_STORE_NAME).getAll();
+
+    request.onsuccess = () => {
+      resolve(request.result || []);
+    };
+
+    request.onerror = () => {
+      console.error('チャンネルの読み込みに失敗しました', request.error);
+      reject(request.error);
+    };
+  });
+};
+
+// チャンネルを追加・更新する関数
+export const putChannelToDB = async (channel: Channel): Promise<void> => {
+  if (!db) await initDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(CHANNEL_STORE_NAME, 'readwrite');
+    transaction.objectStore(CHANNEL_STORE_NAME).put(channel);
+
+    transaction.oncomplete = () => {
+      broadcastChange('channels');
+      resolve();
+    };
+
+    transaction.onerror = () => {
+      console.error('チャンネルの保存に失敗しました', transaction.error);
+      reject(transaction.error);
+    };
+    handleWriteAbort(transaction, reject);
+  });
+};
+
+// チャンネルを削除し、そのメッセージをゴミ箱に移す関数
+export const deleteChannelFromDB = (id: number): Promise<number[]> =>
+  moveMessagesToTrash(
+    (store) => store.index(CHANNEL_INDEX).openCursor(id),
+    'チャンネルの削除に失敗しました',
+    (transaction) => transaction.objectStore(CHANNEL_STORE_NAME).delete(id)
+  );
+
+// DBからプロフィールを読み込む関数
+export const loadProfilesFromDB = async (): Promise<Profile[]> => {
+  if (!db) await initDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(PROFILE_STORE_NAME, 'readonly');
+    const request = transaction.objectStore(PROFILE_STORE_NAME).getAll();
+
+    request.onsuccess = () => {
+      resolve(request.result || []);
+    };
+
+    request.onerror = () => {
+      console.error('プロフィールの読み込みに失敗しました', request.error);
+      reject(request.error);
+    };
+  });
+};
+
+// プロフィールを追加・更新する関数
+// そのプロフィールの投稿と返信に保存した投稿者の写しも書き換える
+export const saveProfileToDB = async (profile: Profile): Promise<void> => {
+  if (!db) await initDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(
+      [PROFILE_STORE_NAME, STORE_NAME],
+      'readwrite'
+    );
+    const profileStore = transaction.objectStore(PROFILE_STORE_NAME);
+    let updatedMessages = 0;
+    const getRequest = profileStore.get(profile.id);
+    getRequest.onsuccess = () => {
+      const previous: Profile | undefined = getRequest.result;
+      profileStore.put(profile);
+      if (!previous) return;
+
+      const author = toAuthor(profile);
+      const update = <T extends Reply | Message>(entry: T): T =>
+        entry.user.id === profile.id ? { ...entry, user: author } : entry;
+      const isAffected = (entry: Reply | Message) =>
+        entry.user.id === profile.id;
+
+      const store = transaction.objectStore(STORE_NAME);
+      store.openCursor().onsuccess = (event) => {
+        const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+        if (!cursor) return;
+        const message: Message = cursor.value;
+        if (isAffected(message) || message.replies.some(isAffected)) {
+          cursor.update({
+            ...update(message),
+            replies: message.replies.map(update),
+          });
+          updatedMessages++;
+        }
+        cursor.continue();
+      };
+    };
+
+    transaction.oncomplete = () => {
+      if (updatedMessages > 0) {
+        broadcastChange('profiles', 'messages');
+      } else {
+        broadcastChange('profiles');
+      }
+      resolve();
+    };
+
+    transaction.onerror = () => {
+      console.error('プロフィールの保存に失敗しました', transaction.error);
+      reject(transaction.error);
+    };
+    handleWriteAbort(transaction, reject);
+  });
+};
+
+// プロフィールを削除する関数。投稿と返信は投稿者の写しで表示され続ける
+export const deleteProfileFromDB = async (id: number): Promise<void> => {
+  if (!db) await initDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(PROFILE_STORE_NAME, 'readwrite');
+    transaction.objectStore(PROFILE_STORE_NAME).delete(id);
+
+    transaction.oncomplete = () => {
+      broadcastChange('profiles');
+      resolve();
+    };
+
+    transaction.onerror = () => {
+      console.error('プロフィールの削除に失敗しました', transaction.error);
+      reject(transaction.error);
+    };
+    handleWriteAbort(transaction, reject);
+  });
+};
+
+// DBから下書きを読み込む関数
+export const loadDraftsFromDB = async (): Promise<Draft[]> => {
+  if (!db) await initDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(DRAFT_STORE_NAME, 'readonly');
+    const request = transaction.objectStore(DRAFT_STORE_NAME).getAll();
+
+    request.onsuccess = () => {
+      resolve(request.result || []);
+    };
+
+    request.onerror = () => {
+      console.error('下書きの読み込みに失敗しました', request.error);
+      reject(request.error);
+    };
+  });
+};
+
+// 下書きを保存する関数。空になった下書きは削除する
+export const saveDraftToDB = async (draft: Draft): Promise<void> => {
+  if (!db) await initDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(DRAFT_STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(DRAFT_STORE_NAME);
+    if (isDraftEmpty(draft)) {
+      store.delete(draft.key);
+    } else {
+      store.put(draft);
+    }
+
+    transaction.oncomplete = () => {
+      broadcastChange('drafts');
+      resolve();
+    };
+
+    transaction.onerror = () => {
+      console.error('下書きの保存に失敗しました', transaction.error);
+      reject(transaction.error);
+    };
+    handleWriteAbort(transaction, reject);
+  });
+};
+
+// 下書きを削除する関数（送信・保存したときや、チャンネルを削除したとき）
+export const deleteDraftsFromDB = async (keys: string[]): Promise<void> => {
+  if (!db) await initDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(DRAFT_STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(DRAFT_STORE_NAME);
+    keys.forEach((key) => store.delete(key));
+
+    transaction.oncomplete = () => {
+      broadcastChange('drafts');
+      resolve();
+    };
+
+    transaction.onerror = () => {
+      console.error('下書きの削除に失敗しました', transaction.error);
+      reject(transaction.error);
+    };
+    handleWriteAbort(transaction, reject);
+  });
+};
+
+// 全文検索の索引から、検索語をすべて含むメッセージのIDを探す関数
+export const searchMessagesInDB = async (query: string): Promise<number[]> => {
+  if (!db) await initDB();
+
+  const queryTerms = extractQueryTerms(query);
+  const words = splitSearchWords(query);
+  if (queryTerms.length === 0) return [];
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(
+      [STORE_NAME, SEARCH_STORE_NAME],
+      'readonly'
+    );
+    const index = transaction
+      .objectStore(SEARCH_STORE_NAME)
+      .index(SEARCH_TERMS_INDEX);
+    const store = transaction.objectStore(STORE_NAME);
+
+    // 索引は語の断片なので、本文に検索語がそのまま含まれるものに絞り込む
+    const results: number[] = [];
+    const verifyCandidates = (ids: number[]) => {
+      ids.forEach((id) => {
+        const request = store.get(id);
+        request.onsuccess = () => {
+          const message: Message | undefined = request.result;
+          if (
+            message &&
+            matchesAllWords(messageSearchText(message), words)
+          ) {
+            results.push(id);
+          }
+        };
+      });
+    };
+
+    // 語ごとに該当するIDを引き、すべての語に共通するものだけを残す
+    let candidates: Set<number> | null = null;
+    let pending = queryTerms.length;
+    queryTerms.forEach(({ term, prefix }) => {
+      const range = prefix
+        ? IDBKeyRange.bound(term, term + '\uffff')
+        : IDBKeyRange.only(term);
+      const request = index.getAllKeys(range);
+      request.onsuccess = () => {
+        const ids = new Set(request.result as number[]);
+        candidates = candidates
+          ? new Set([...candidates].filter((id) => ids.has(id)))
+          : ids;
+        pending--;
+        if (pending === 0) verifyCandidates([...candidates]);
+      };
+    });
+
+    transaction.oncomplete = () => {
+      resolve(results.sort((a, b) => a - b));
+    };
+
+    transaction.onerror = () => {
+      console.error('メッセージの検索に失敗しました', transaction.error);
+      reject(transaction.error);
+    };
+  });
+};
+
+// タグが付いたメッセージ（返信に付いたものを含む）のIDを返す関数
+export const loadMessageIdsByTagFromDB = async (
+  tag: string
+): Promise<number[]> => {
+  if (!db) await initDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(SEARCH_STORE_NAME, 'readonly');
+    const request = transaction
+      .objectStore(SEARCH_STORE_NAME)
+      .index(SEARCH_TAGS_INDEX)
+      .getAllKeys(IDBKeyRange.only(tag));
+
+    transaction.oncomplete = () => {
+      resolve((request.result as number[]).sort((a, b) => a - b));
+    };
+
+    transaction.onerror = () => {
+      console.error('タグの検索に失敗しました', transaction.error);
+      reject(transaction.error);
+    };
+  });
+};
+
+// チャンネル内のタグごとのメッセージ数を、多い順に返す関数
+export const loadTagCountsFromDB = async (
+  channelId: number
+): Promise<{ tag: string; count: number }[]> => {
+  if (!db) await initDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(SEARCH_STORE_NAME, 'readonly');
+    const counts = new Map<string, number>();
+    // multiEntryの索引なので、タグ1つにつき1回ずつメッセージが現れる
+    const index = transaction
+      .objectStore(SEARCH_STORE_NAME)
+      .index(SEARCH_TAGS_INDEX);
+    index.openCursor().onsuccess = (event) => {
+      const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+      if (!cursor) return;
+      if (cursor.value.channelId === channelId) {
+        const tag = cursor.key as string;
+        counts.set(tag, (counts.get(tag) ?? 0) + 1);
+      }
+      cursor.continue();
+    };
+
+    transaction.oncomplete = () => {
+      resolve(
+        [...counts]
+          .map(([tag, count]) => ({ tag, count }))
+          .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag))
+      );
+    };
+
+    transaction.onerror = () => {
+      console.error('タグの集計に失敗しました', transaction.error);
+      reject(transaction.error);
+    };
+  });
+};
+
+// すべてのチャンネルで、本文中のタグfromをtoに書き換え、書き換えたメッセージ数を返す関数
+// toが既にあるタグならfromはtoに統合される。編集履歴には残さない
+export const renameTagInDB = async (
+  from: string,
+  to: string
+): Promise<number> => {
+  if (!db) await initDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(
+      [STORE_NAME, SEARCH_STORE_NAME],
+      'readwrite'
+    );
+    const store = transaction.objectStore(STORE_NAME);
+    const searchStore = transaction.objectStore(SEARCH_STORE_NAME);
+    let renamed = 0;
+    const request = searchStore
+      .index(SEARCH_TAGS_INDEX)
+      .getAllKeys(IDBKeyRange.only(from));
+    request.onsuccess = () => {
+      (request.result as number[]).forEach((id) => {
+        const getRequest = store.get(id);
+        getRequest.onsuccess = () => {
+          const message: Message | undefined = getRequest.result;
+          if (!message) return;
+          const updated: Message = {
+            ...message,
+            text: renameTagInText(message.text, from, to),
+            replies: message.replies.map((reply) => ({
+              ...reply,
+              text: renameTagInText(reply.text, from, to),
+            })),
+          };
+          store.put(updated);
+          searchStore.put(buildSearchEntry(updated));
+          renamed++;
+        };
+      });
+    };
+
+    transaction.oncomplete = () => {
+      if (renamed > 0) broadcastChange('messages');
+      resolve(renamed);
+    };
+
+    transaction.onerror = () => {
+      console.error('タグの変更に失敗しました', transaction.error);
+      reject(transaction.error);
+    };
+    handleWriteAbort(transaction, reject);
+  });
+};
+
+// 添付ファイルを保存し、採番したIDを返す関数
+export const saveAttachmentToDB = async (blob: Blob): Promise<string> => {
+  if (!db) await initDB();
+
+  const id = createAttachmentId();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(ATTACHMENT_STORE_NAME, 'readwrite');
+    transaction.objectStore(ATTACHMENT_STORE_NAME).add({ id, blob });
+
+    transaction.oncomplete = () => {
+      resolve(id);
+    };
+
+    transaction.onerror = () => {
+      console.error('添付ファイルの保存に失敗しました', transaction.error);
+      reject(transaction.error);
+    };
+    handleWriteAbort(transaction, reject);
+  });
+};
+
+// 添付ファイルを1件読み込む関数
+export const loadAttachmentFromDB = async (
+  id: string
+): Promise<Blob | undefined> => {
+  if (!db) await initDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(ATTACHMENT_STORE_NAME, 'readonly');
+    const request = transaction.objectStore(ATTACHMENT_STORE_NAME).get(id);
+
+    request.onsuccess = () => {
+      resolve((request.result as AttachmentRecord | undefined)?.blob);
+    };
+
+    request.onerror = () => {
+      console.error('添付ファイルの読み込みに失敗しました', request.error);
+      reject(request.error);
+    };
+  });
+};
+
+// すべての添付ファイルを読み込む関数（バックアップ用）
+export const loadAllAttachmentsFromDB = async (): Promise<AttachmentRecord[]> => {
+  if (!db) await initDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(ATTACHMENT_STORE_NAME, 'readonly');
+    const request = transaction.objectStore(ATTACHMENT_STORE_NAME).getAll();
+
+    request.onsuccess = () => {
+      resolve(request.result || []);
+    };
+
+    request.onerror = () => {
+      console.error('添付ファイルの読み込みに失敗しました', request.error);
+      reject(request.error);
+    };
+  });
+};
+
+// 添付ファイルをまとめて削除する関数
+export const deleteAttachmentsFromDB = async (ids: string[]): Promise<void> => {
+  if (!db) await initDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(ATTACHMENT_STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(ATTACHMENT_STORE_NAME);
+    ids.forEach((id) => store.delete(id));
+
+    transaction.oncomplete = () => {
+      resolve();
+    };
+
+    transaction.onerror = () => {
+      console.error('添付ファイルの削除に失敗しました', transaction.error);
+      reject(transaction.error);
+    };
+    handleWriteAbort(transaction, reject);
+  });
+};
+
+// 添付ファイルの中身を差し替え、それを参照する投稿・返信・ゴミ箱の情報も書き換える関数
+export const replaceAttachmentInDB = async (
+  attachment: Attachment,
+  blob: Blob
+): Promise<void> => {
+  if (!db) await initDB();
+
+  const replace = (entry: { attachments: Attachment[] }) => {
+    entry.attachments = entry.attachments.map((item) =>
+      item.id === attachment.id ? attachment : item
+    );
+  };
+  const replaceInMessage = (message: Message) => {
+    replace(message);
+    message.replies.forEach(replace);
+  };
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(
+      [ATTACHMENT_STORE_NAME, STORE_NAME, TRASH_STORE_NAME],
+      'readwrite'
+    );
+    transaction
+      .objectStore(ATTACHMENT_STORE_NAME)
+      .put({ id: attachment.id, blob });
+
+    const updateAll = <T>(storeName: string, update: (value: T) => void) => {
+      const cursorRequest = transaction.objectStore(storeName).openCursor();
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor) return;
+        const value = cursor.value;
+        update(value);
+        cursor.update(value);
+        cursor.continue();
+      };
+    };
+    updateAll(STORE_NAME, replaceInMessage);
+    updateAll<TrashEntry>(TRASH_STORE_NAME, (entry) => {
+      if (entry.kind === 'message') {
+        replaceInMessage(entry.message);
+      } else {
+        replace(entry.reply);
+      }
+    });
+
+    transaction.oncomplete = () => {
+      broadcastChange('messages', 'trash');
+      resolve();
+    };
+
+    transaction.onerror = () => {
+      console.error('添付ファイルの差し替えに失敗しました', transaction.error);
+      reject(transaction.error);
+    };
+    handleWriteAbort(transaction, reject);
+  });
+};
+
+// 設定を1件読み込む関数（未保存ならundefined）
+export const loadSettingFromDB = async <T>(
+  key: string
+): Promise<T | undefined> => {
+  if (!db) await initDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(SETTINGS_STORE_NAME, 'readonly');
+    const request = transaction.objectStore(SETTINGS_STORE_NAME).get(key);
+
+    request.onsuccess = () => {
+      resolve((request.result as { value: T } | undefined)?.value);
+    };
+
+    request.onerror = () => {
+      console.error('設定の読み込みに失敗しました', request.error);
+      reject(request.error);
+    };
+  });
+};
+
+// 設定を1件保存する関数
+export const saveSettingToDB = async <T>(key: string, value: T): Promise<void> => {
+  if (!db) await initDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(SETTINGS_STORE_NAME, 'readwrite');
+    transaction.objectStore(SETTINGS_STORE_NAME).put({ key, value });
+
+    transaction.oncomplete = () => {
+      broadcastChange('settings');
+      resolve();
+    };
+
+    transaction.onerror = () => {
+      console.error('設定の保存に失敗しました', transaction.error);
+      reject(transaction.error);
+    };
+    handleWriteAbort(transaction, reject);
+  });
+};
+
+// before より前の投稿・返信から画像を外し、画像の本体も削除する関数（ゴミ箱を経由しないので元に戻せない）
+// 削除した画像の数と合計サイズを返す
+export const deleteImagesBeforeInDB = async (
+  before: string
+): Promise<{ count: number; bytes: number }> => {
+  if (!db) await initDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(
+      [STORE_NAME, ATTACHMENT_STORE_NAME],
+      'readwrite'
+    );
+    const attachmentStore = transaction.objectStore(ATTACHMENT_STORE_NAME);
+    const deleted = { count: 0, bytes: 0 };
+
+    const removeImages = (entry: Message | Reply): boolean => {
+      if (entry.createdAt >= before) return false;
+      const images = entry.attachments.filter((attachment) =>
+        attachment.type.startsWith('image/')
+      );
+      images.forEach((image) => {
+        attachmentStore.delete(image.id);
+        deleted.count++;
+        deleted.bytes += image.size;
+      });
+      entry.attachments = entry.attachments.filter(
+        (attachment) => !attachment.type.startsWith('image/')
+      );
+      return images.length > 0;
+    };
+
+    const cursorRequest = transaction.objectStore(STORE_NAME).openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      const message: Message = cursor.value;
+      // 投稿と返信をすべて処理してから、変わったものだけ書き戻す
+      const changed = [message, ...message.replies].map(removeImages);
+      if (changed.some(Boolean)) cursor.update(message);
+      cursor.continue();
+    };
+
+    transaction.oncomplete = () => {
+      broadcastChange('messages');
+      resolve(deleted);
+    };
+
+    transaction.onerror = () => {
+      console.error('古い画像の削除に失敗しました', transaction.error);
+      reject(transaction.error);
+    };
+    handleWriteAbort(transaction, reject);
+  });
+};
@@ -0,0 +1,76 @@
+// 入力途中の下書き。投稿欄はチャンネルごと（返信中は返信先の投稿ごと）に、
+// 編集中の本文は投稿・返信ごとに保存し、再読み込みやタブを閉じたあとも復元する
+
+// 下書きの対象
+// post: チャンネルへの投稿 / reply: 投稿への返信 / edit: 投稿（replyIdがあれば返信）の編集
+export type DraftTarget =
+  | { kind: "post"; channelId: number }
+  | { kind: "reply"; channelId: number; messageId: number }
+  | { kind: "edit"; channelId: number; messageId: number; replyId?: number };
+
+export type Draft = DraftTarget & {
+  key: string; // 対象ごとに1件になるよう、対象から作るキー
+  text: string;
+  files: File[]; // 添付する予定のファイル（貼り付けた画像など）
+  updatedAt: string;
+};
+
+export const draftKey = (target: DraftTarget): string => {
+  switch (target.kind) {
+    case "post":
+      return `post:${target.channelId}`;
+    case "reply":
+      return `reply:${target.messageId}`;
+    case "edit":
+      return target.replyId
+        ? `edit:${target.messageId}:${target.replyId}`
+        : `edit:${target.messageId}`;
+  }
+};
+
+export const createDraft = (
+  target: DraftTarget,
+  text: string,
+  files: File[] = [],
+  now = new Date()
+): Draft => ({
+  ...target,
+  key: draftKey(target),
+  text,
+  files,
+  updatedAt: now.toISOString(),
+});
+
+// 空の下書きは保存せず、あれば削除する
+export const isDraftEmpty = (draft: Draft): boolean =>
+  draft.text.trim() === "" && draft.files.length === 0;
+
+export const findDraft = (
+  drafts: Draft[],
+  target: DraftTarget
+): Draft | undefined => {
+  const key = draftKey(target);
+  return drafts.find((draft) => draft.key === key);
+};
+
+// 入力中の内容が、保存済みの下書き（なければ空）から変わったか
+export const isDraftChanged = (
+  drafts: Draft[],
+  target: DraftTarget,
+  text: string,
+  files: File[] = []
+): boolean => {
+  const saved = findDraft(drafts, target);
+  if (!saved) return text.trim() !== "" || files.length > 0;
+  return (
+    saved.text !== text ||
+    saved.files.length !== files.length ||
+    saved.files.some((file, i) => file !== files[i])
+  );
+};
+
+// 同じ対象の下書きを置き換える（空なら取り除く）
+export const replaceDraft = (drafts: Draft[], draft: Draft): Draft[] => [
+  ...drafts.filter((item) => item.key !== draft.key),
+  ...(isDraftEmpty(draft) ? [] : [draft]),
+];
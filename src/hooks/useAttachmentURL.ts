@@ -0,0 +1,35 @@
+import { useEffect, useState } from "react";
+import { loadAttachmentFromDB } from "../db";
+
+// 添付ファイルをIndexedDBから読み込み、表示用のオブジェクトURLを返す
+// enabledがfalseの間は読み込まない（画面に入るまで遅延させるため）
+export const useAttachmentURL = (
+  attachmentId: string | undefined,
+  enabled = true
+): string | null => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!attachmentId || !enabled) return;
+
+    let objectURL: string | null = null;
+    let cancelled = false;
+    loadAttachmentFromDB(attachmentId)
+      .then((blob) => {
+        if (cancelled || !blob) return;
+        objectURL = URL.createObjectURL(blob);
+        setUrl(objectURL);
+      })
+      .catch(() => {
+        // 読み込みに失敗した画像は表示しない
+      });
+
+    return () => {
+      cancelled = true;
+      if (objectURL) URL.revokeObjectURL(objectURL);
+      setUrl(null);
+    };
+  }, [attachmentId, enabled]);
+
+  return url;
+};
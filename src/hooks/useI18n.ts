@@ -0,0 +1,8 @@
+import { useSyncExternalStore } from "react";
+import { getLocale, subscribeLocale, t } from "../i18n";
+
+// 選択中の言語と翻訳の関数。言語を切り替えると、使っているコンポーネントを描き直す
+export const useI18n = () => {
+  const locale = useSyncExternalStore(subscribeLocale, getLocale);
+  return { locale, t };
+};
@@ -0,0 +1,61 @@
+import { useCallback, useRef, useState } from "react";
+
+// 元に戻せる操作。undoとredoはどちらもDBに対して操作をやり直す
+export interface UndoableAction {
+  label: string; // スナックバーに表示する操作の説明
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+}
+
+// 元に戻せる操作の数の上限
+const MAX_HISTORY = 50;
+
+// 操作の履歴を持ち、元に戻す・やり直すを提供する
+// undo / redo は実行した操作を返す（履歴がない、または実行中の場合はnull）
+export const useUndoRedo = () => {
+  const [undoStack, setUndoStack] = useState<UndoableAction[]>([]);
+  const [redoStack, setRedoStack] = useState<UndoableAction[]>([]);
+  // 前の操作の取り消しが終わる前に、次の取り消しを始めないようにする
+  const isRunning = useRef(false);
+
+  const push = useCallback((action: UndoableAction) => {
+    setUndoStack((prev) => [...prev.slice(-(MAX_HISTORY - 1)), action]);
+    setRedoStack([]);
+  }, []);
+
+  const undo = async (): Promise<UndoableAction | null> => {
+    const action = undoStack[undoStack.length - 1];
+    if (!action || isRunning.current) return null;
+    isRunning.current = true;
+    try {
+      await action.undo();
+      setUndoStack((prev) => prev.slice(0, -1));
+      setRedoStack((prev) => [...prev, action]);
+      return action;
+    } finally {
+      isRunning.current = false;
+    }
+  };
+
+  const redo = async (): Promise<UndoableAction | null> => {
+    const action = redoStack[redoStack.length - 1];
+    if (!action || isRunning.current) return null;
+    isRunning.current = true;
+    try {
+      await action.redo();
+      setRedoStack((prev) => prev.slice(0, -1));
+      setUndoStack((prev) => [...prev, action]);
+      return action;
+    } finally {
+      isRunning.current = false;
+    }
+  };
+
+  return {
+    push,
+    undo,
+    redo,
+    canUndo: undoStack.length > 0,
+    canRedo: redoStack.length > 0,
+  };
+};
@@ -0,0 +1,71 @@
+// 画面の文言の翻訳（日本語・英語）
+// 言語は設定ストアに保存し、未保存ならブラウザの言語から選ぶ
+// 書き出しやエラーの文言などReactの外でも使えるよう、選択中の言語はこのモジュールで持つ
+import ja, { type MessageKey } from "./locales/ja";
+import en from "./locales/en";
+
+export type Locale = "ja" | "en";
+
+// 件数（count）で文言が変わる言語では、1件のときと2件以上のときで書き分ける
+export type Translation = string | { one: string; other: string };
+
+export const LOCALE_SETTING_KEY = "locale";
+
+// 言語の切り替えに並べる名前（その言語自身での表記）
+export const LOCALE_NAMES: Record<Locale, string> = {
+  ja: "日本語",
+  en: "English",
+};
+
+const catalogs: Record<Locale, Record<MessageKey, Translation>> = { ja, en };
+
+// 日付や数値の書式に使う言語タグ
+const LANGUAGE_TAGS: Record<Locale, string> = { ja: "ja-JP", en: "en-US" };
+
+export const isLocale = (value: unknown): value is Locale =>
+  value === "ja" || value === "en";
+
+export const detectLocale = (): Locale =>
+  typeof navigator !== "undefined" &&
+  !navigator.language.toLowerCase().startsWith("ja")
+    ? "en"
+    : "ja";
+
+let currentLocale: Locale = detectLocale();
+const listeners = new Set<() => void>();
+
+export const getLocale = (): Locale => currentLocale;
+
+export const getLanguageTag = (): string => LANGUAGE_TAGS[currentLocale];
+
+export const setLocale = (locale: Locale): void => {
+  if (typeof document !== "undefined") document.documentElement.lang = locale;
+  if (locale === currentLocale) return;
+  currentLocale = locale;
+  listeners.forEach((listener) => listener());
+};
+
+export const subscribeLocale = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// 選択中の言語の文言。{name}の形の箇所にparamsの値を埋め込む
+export const t = (
+  key: MessageKey,
+  params?: Record<string, string | number>
+): string => {
+  const entry = catalogs[currentLocale][key];
+  const template =
+    typeof entry === "string"
+      ? entry
+      : params?.count === 1
+        ? entry.one
+        : entry.other;
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in params ? String(params[name]) : match
+  );
+};
@@ -0,0 +1,242 @@
+import { extensionFromMime } from "./blobUtils";
+import {
+  loadAttachmentFromDB,
+  loadMessagesFromDB,
+  loadTrashFromDB,
+  replaceAttachmentInDB,
+} from "./db";
+
+// 型定義をファイル内に再定義
+interface Attachment {
+  id: string;
+  name: string;
+  type: string;
+  size: number;
+  originalSize?: number;
+}
+
+export type ImageOutputFormat = "image/webp" | "image/jpeg";
+
+export interface ImageCompressionSettings {
+  enabled: boolean;
+  maxDimension: number; // 長辺の最大ピクセル数
+  format: ImageOutputFormat;
+  quality: number; // 0〜1
+}
+
+export const IMAGE_COMPRESSION_SETTING_KEY = "imageCompression";
+
+export const DEFAULT_IMAGE_COMPRESSION: ImageCompressionSettings = {
+  enabled: true,
+  maxDimension: 1920,
+  format: "image/webp",
+  quality: 0.8,
+};
+
+// Canvasに描き直せる静止画だけを圧縮する（GIFアニメやSVGはそのまま保存する）
+const COMPRESSIBLE_TYPES = [
+  "image/png",
+  "image/jpeg",
+  "image/webp",
+  "image/bmp",
+];
+
+// 再圧縮で1割も小さくならない画像は、画質を落とすだけなので差し替えない
+// ただし位置情報などのメタデータが残っている画像は、サイズに関係なく差し替える
+const MIN_RECOMPRESS_SAVING = 0.1;
+
+// メタデータとして扱うPNGのチャンク・WebPのチャンク
+const PNG_METADATA_CHUNKS = ["eXIf", "tEXt", "zTXt", "iTXt"];
+const WEBP_METADATA_CHUNKS = ["EXIF", "XMP "];
+
+const isCompressibleImage = (type: string): boolean =>
+  COMPRESSIBLE_TYPES.includes(type);
+
+const readFourCC = (bytes: Uint8Array, offset: number): string =>
+  String.fromCharCode(...bytes.subarray(offset, offset + 4));
+
+// EXIFやXMP、テキストのコメントなどのメタデータを含む画像かどうか
+const hasImageMetadata = async (blob: Blob): Promise<boolean> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+
+  if (blob.type === "image/jpeg") {
+    // APP1（EXIF・XMP）、APP13（IPTC）、COM（コメント）があるか。画像データ（SOS）の手前まで見る
+    let offset = 2;
+    while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+      const marker = bytes[offset + 1];
+      if (marker === 0xda) break;
+      if (marker === 0xe1 || marker === 0xed || marker === 0xfe) return true;
+      offset += 2 + view.getUint16(offset + 2);
+    }
+    return false;
+  }
+
+  if (blob.type === "image/png") {
+    let offset = 8;
+    while (offset + 8 <= bytes.length) {
+      const type = readFourCC(bytes, offset + 4);
+      if (PNG_METADATA_CHUNKS.includes(type)) return true;
+      if (type === "IEND") break;
+      offset += 12 + view.getUint32(offset);
+    }
+    return false;
+  }
+
+  if (blob.type === "image/webp") {
+    let offset = 12;
+    while (offset + 8 <= bytes.length) {
+      if (WEBP_METADATA_CHUNKS.includes(readFourCC(bytes, offset))) {
+        return true;
+      }
+      const size = view.getUint32(offset + 4, true);
+      offset += 8 + size + (size % 2);
+    }
+    return false;
+  }
+
+  return false;
+};
+
+const encodeCanvas = (
+  canvas: HTMLCanvasElement,
+  type: string,
+  quality: number
+): Promise<Blob | null> =>
+  new Promise((resolve) => canvas.toBlob(resolve, type, quality));
+
+// 長辺がmaxDimensionに収まるよう縮小し、指定の形式・画質で描き直す
+// Canvasに描き直すことで、位置情報などのEXIFメタデータは取り除かれる
+const compressImage = async (
+  blob: Blob,
+  settings: ImageCompressionSettings
+): Promise<Blob> => {
+  // 写真の向きは描き直す前に反映しておく（EXIFを消すと向きの情報もなくなるため）
+  const bitmap = await createImageBitmap(blob, {
+    imageOrientation: "from-image",
+  });
+  const scale = Math.min(
+    1,
+    settings.maxDimension / Math.max(bitmap.width, bitmap.height)
+  );
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+  const context = canvas.getContext("2d");
+  if (!context) {
+    bitmap.close();
+    throw new Error("Canvasを利用できません");
+  }
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  const encoded = await encodeCanvas(canvas, settings.format, settings.quality);
+  if (encoded && encoded.type === settings.format) return encoded;
+
+  // WebPを書き出せないブラウザではPNGになるため、JPEGで書き出し直す
+  // JPEGは透過できないので、透明な部分は白で塗る
+  context.globalCompositeOperation = "destination-over";
+  context.fillStyle = "#ffffff";
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  const fallback = await encodeCanvas(canvas, "image/jpeg", settings.quality);
+  if (!fallback) throw new Error("画像を変換できませんでした");
+  return fallback;
+};
+
+// 変換後の形式に合わせて拡張子を付け替える
+const renameForType = (name: string, type: string): string => {
+  const base = name.replace(/\.[^./]+$/, "") || "image";
+  return `${base}.${extensionFromMime(type)}`;
+};
+
+// 保存前に画像を圧縮する。圧縮しない・できない場合は元のファイルをそのまま返す
+export const compressImageForStorage = async (
+  blob: Blob,
+  name: string,
+  settings: ImageCompressionSettings
+): Promise<{ blob: Blob; name: string; originalSize?: number }> => {
+  if (!settings.enabled || !isCompressibleImage(blob.type)) {
+    return { blob, name };
+  }
+  try {
+    const compressed = await compressImage(blob, settings);
+    return {
+      blob: compressed,
+      name: renameForType(name, compressed.type),
+      originalSize: blob.size,
+    };
+  } catch (error) {
+    console.error("画像の圧縮に失敗しました", error);
+    return { blob, name };
+  }
+};
+
+export interface RecompressResult {
+  total: number; // 対象にした画像の数
+  compressed: number; // 差し替えた画像の数
+  savedBytes: number; // メタデータを消すために差し替えて大きくなった分は差し引く
+}
+
+// 保存済みの画像（ゴミ箱の中も含む）を現在の設定で圧縮し直す
+export const recompressStoredImages = async (
+  settings: ImageCompressionSettings,
+  onProgress: (done: number, total: number) => void
+): Promise<RecompressResult> => {
+  const [messages, trashEntries] = await Promise.all([
+    loadMessagesFromDB(),
+    loadTrashFromDB(),
+  ]);
+  const entries: { attachments: Attachment[] }[] = [
+    ...messages.flatMap((message) => [message, ...message.replies]),
+    ...trashEntries.flatMap((entry) =>
+      entry.kind === "message"
+        ? [entry.message, ...entry.message.replies]
+        : [entry.reply]
+    ),
+  ];
+  const targets = new Map<string, Attachment>();
+  entries.forEach((entry) =>
+    entry.attachments.forEach((attachment) => {
+      if (isCompressibleImage(attachment.type)) {
+        targets.set(attachment.id, attachment);
+      }
+    })
+  );
+
+  const result: RecompressResult = {
+    total: targets.size,
+    compressed: 0,
+    savedBytes: 0,
+  };
+  let done = 0;
+  onProgress(done, result.total);
+  for (const attachment of targets.values()) {
+    const blob = await loadAttachmentFromDB(attachment.id);
+    if (blob && isCompressibleImage(blob.type)) {
+      try {
+        const compressed = await compressImage(blob, settings);
+        if (
+          compressed.size < blob.size * (1 - MIN_RECOMPRESS_SAVING) ||
+          (await hasImageMetadata(blob))
+        ) {
+          await replaceAttachmentInDB(
+            {
+              ...attachment,
+              name: renameForType(attachment.name, compressed.type),
+              type: compressed.type,
+              size: compressed.size,
+              originalSize: attachment.originalSize ?? blob.size,
+            },
+            compressed
+          );
+          result.compressed++;
+          result.savedBytes += blob.size - compressed.size;
+        }
+      } catch (error) {
+        console.error("画像の再圧縮に失敗しました", attachment.name, error);
+      }
+    }
+    onProgress(++done, result.total);
+  }
+  return result;
+};
@@ -0,0 +1,15 @@
+// キーボード操作の判定に使う関数
+
+// 日本語入力の変換中のキー入力か。変換を確定するEnterで送信などをしないようにする
+// Safariは確定のEnterでisComposingがfalseになるため、keyCodeの229も見る
+export const isComposing = (
+  event: KeyboardEvent | { nativeEvent: KeyboardEvent }
+): boolean => {
+  const native = "nativeEvent" in event ? event.nativeEvent : event;
+  return native.isComposing || native.keyCode === 229;
+};
+
+// 文字を入力中の要素か。入力欄の中では1文字のショートカットを使わない
+export const isTypingTarget = (target: EventTarget | null): boolean =>
+  target instanceof HTMLElement &&
+  target.closest("input, textarea, select, [contenteditable='true']") !== null;
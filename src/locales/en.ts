@@ -0,0 +1,339 @@
+// 英語の文言。件数（count）で変わる文言は1件のときと2件以上のときで書き分ける
+import type { Translation } from "../i18n";
+import type { MessageKey } from "./ja";
+
+const en: Record<MessageKey, Translation> = {
+  "date.today": "Today",
+  "date.yesterday": "Yesterday",
+
+  "period.all": "All time",
+  "period.today": "Today",
+  "period.week": "This week",
+  "period.month": "This month",
+
+  "channel.nameRequired": "Enter a channel name.",
+  "channel.nameTooLong": "Channel names can be at most {max} characters.",
+  "channel.nameDuplicate": "#{name} already exists.",
+  "channel.unarchive": "Unarchive",
+  "channel.promptName": "Enter a name for the new channel",
+  "channel.promptRename": "New channel name",
+  "channel.confirmDelete":
+    "Delete #{name}? Its messages will be moved to the trash.",
+  "channel.deleted": "Deleted #{name}",
+  "channel.archivedNotice": "#{name} is archived, so you cannot post here.",
+
+  "backup.notNumber": "{path} is not a number",
+  "backup.invalid": "{path} is invalid",
+  "backup.notString": "{path} is not a string",
+  "backup.notDate": "{path} is not a date",
+  "backup.notBoolean": "{path} is not a boolean",
+  "backup.notArray": "{path} is not an array",
+  "backup.notObject": "{path} is not an object",
+  "backup.duplicate": "{path} is duplicated",
+  "backup.empty": "{path} is empty",
+  "backup.missingChannel": "{path} refers to a channel that does not exist",
+  "backup.invalidJson": "The file could not be read as JSON",
+  "backup.notBackup": "This is not an Anytimes backup file",
+  "backup.invalidVersion": "The backup version is invalid",
+  "backup.newerVersion":
+    "This backup uses a newer format (version {version}). Please update the app",
+  "backup.loadFailed": "Could not read the backup: {message}",
+  "backup.confirmReplace":
+    "All current messages will be replaced with the backup. Continue?",
+  "backup.restoreFailed": "Failed to restore the backup.",
+  "backup.restoreTitle": "Restore from backup",
+  "backup.summary": { one: "{count} message", other: "{count} messages" },
+  "backup.summaryWithDate": {
+    one: "{count} message (created {date})",
+    other: "{count} messages (created {date})",
+  },
+  "backup.merge": "Merge by ID (the backup overwrites matching IDs)",
+  "backup.replace": "Replace everything",
+  "backup.restore": "Restore",
+
+  "update.available": "A new version is available",
+  "update.reload": "Update",
+  "update.later": "Later",
+  "update.offlineReady": "The app is now ready to work offline",
+
+  "header.search": "Search",
+  "header.resultCount": { one: "{count} result", other: "{count} results" },
+
+  "input.placeholder": "Send a message",
+  "input.attachFile": "Attach files",
+  "input.closePreview": "Close preview",
+  "input.preview": "Markdown preview",
+
+  "attachment.compressedLabel": "{name} ({size}, originally {originalSize})",
+  "attachment.label": "{name} ({size})",
+
+  "common.download": "Download",
+  "common.close": "Close",
+  "common.attachmentsOnly": "(Attachments only)",
+  "common.separator": " · ",
+  "common.delete": "Delete",
+  "common.unknown": "Unknown",
+  "common.loading": "Loading...",
+  "common.reply": "Reply",
+  "common.post": "Post",
+  "common.cancel": "Cancel",
+  "common.save": "Save",
+  "common.add": "Add",
+  "common.edit": "Edit",
+
+  "lightbox.position": " ({index} / {total})",
+  "lightbox.zoomOut": "Zoom out",
+  "lightbox.zoomIn": "Zoom in",
+  "lightbox.fit": "Fit to screen",
+
+  "pinned.title": "Pinned ({count})",
+  "pinned.unpin": "Unpin",
+
+  "history.title": "Edit history",
+  "history.current": " (current)",
+  "history.first": " (original)",
+  "history.rollback": "Restore this version",
+
+  "conflict.title": "Edit conflict",
+  "conflict.description":
+    "This post was changed in another tab while you were editing it. If you overwrite it with your changes, the other version stays in the edit history.",
+  "conflict.theirs": "Changes from the other tab",
+  "conflict.mine": "Your changes",
+  "conflict.discardMine": "Discard my changes",
+  "conflict.keepMine": "Overwrite with my changes",
+
+  "sidebar.channels": "Channels",
+  "sidebar.addChannel": "Add channel",
+  "sidebar.archived": "Archived ({count})",
+  "sidebar.tags": "Tags",
+  "sidebar.rename": "Rename",
+  "sidebar.archive": "Archive",
+
+  "saved.title": "Saved items",
+  "saved.unstar": "Remove star",
+  "saved.empty": "No starred posts or replies.",
+
+  "trash.deletedChannel": "Deleted channel",
+  "trash.restore": "Restore",
+  "trash.deleteForever": "Delete forever",
+  "trash.replyCount": { one: " ({count} reply)", other: " ({count} replies)" },
+  "trash.deletedAt": "Deleted {date}",
+  "trash.remainingDays": {
+    one: "Deleted forever in {count} day",
+    other: "Deleted forever in {count} days",
+  },
+  "trash.title": "Trash",
+  "trash.description": {
+    one: "Deleted messages stay in the trash for {count} day and are then deleted forever.",
+    other:
+      "Deleted messages stay in the trash for {count} days and are then deleted forever.",
+  },
+  "trash.empty": "The trash is empty.",
+  "trash.emptyTrash": "Empty trash",
+  "trash.restored": "Restored from the trash",
+  "trash.confirmDeleteForever": {
+    one: "Delete {count} item forever? This cannot be undone.",
+    other: "Delete {count} items forever? This cannot be undone.",
+  },
+
+  "tasks.title": "Tasks",
+  "tasks.allTags": "All tags",
+  "tasks.overdueDays": "Days until overdue",
+  "tasks.overdueAlert": {
+    one: "{count} task has been open for {days} days or more.",
+    other: "{count} tasks have been open for {days} days or more.",
+  },
+  "tasks.noText": "(No text)",
+  "tasks.overdue": "Overdue",
+  "tasks.empty": "No open tasks.",
+
+  "compression.confirmRecompress":
+    "Recompress saved images with the current settings? The original images cannot be restored.",
+  "compression.recompressed": {
+    one: "Compressed {count} of {total} images and saved {size}.",
+    other: "Compressed {count} of {total} images and saved {size}.",
+  },
+  "compression.nothingToCompress": "No images got smaller by compressing.",
+  "compression.recompressFailed": "Failed to recompress images.",
+  "compression.enabled": "Resize and compress images before saving",
+  "compression.maxDimension": "Max size (long edge)",
+  "compression.format": "Format",
+  "compression.quality": "Quality: {percent}%",
+  "compression.note":
+    "Compressing also removes photo metadata (EXIF) such as location. GIF and SVG images are not compressed.",
+  "compression.recompressing": "Recompressing... {done} / {total}",
+  "compression.recompress": "Recompress saved images",
+
+  "storage.confirmDeleteImages": {
+    one: "Delete {count} image ({size})? Images are not moved to the trash and this cannot be undone.",
+    other: "Delete {count} images ({size})? Images are not moved to the trash and this cannot be undone.",
+  },
+  "storage.summarizing": "Calculating...",
+  "storage.loadFailed": "Could not calculate the storage usage.",
+  "storage.byKind": "By type",
+  "storage.textUsage": "Text: {size}",
+  "storage.imageUsage": "Images: {size}",
+  "storage.fileUsage": "Other files: {size}",
+  "storage.excludes": "Does not include the trash or the search index.",
+  "storage.byMonth": "Usage by month",
+  "storage.month": "Month",
+  "storage.text": "Text",
+  "storage.images": "Images",
+  "storage.files": "Files",
+  "storage.largestPosts": "Largest posts",
+  "storage.deleteOldImages": "Delete old images",
+  "storage.deleteImagesNote":
+    "Removes images from posts and replies older than the selected age. Images are not moved to the trash and this cannot be undone.",
+  "storage.age": "Age",
+  "storage.olderThanDays": {
+    one: "Older than {count} day",
+    other: "Older than {count} days",
+  },
+  "storage.olderThanYear": "Older than 1 year",
+  "storage.deleting": "Deleting...",
+  "storage.deleteImages": {
+    one: "Delete {count} image ({size})",
+    other: "Delete {count} images ({size})",
+  },
+  "storage.deleteFailed": "Could not delete the old images.",
+  "storage.persistence": "Persistent storage",
+  "storage.persistUnsupported":
+    "This browser does not support persistent storage.",
+  "storage.persisted":
+    "Storage is persistent. The browser will not delete data automatically when space runs low.",
+  "storage.persistDenied":
+    "The browser denied the request. Bookmarking the app or adding it to the home screen makes approval more likely.",
+  "storage.notPersisted":
+    "Storage is not persistent, so the browser may delete data when space runs low.",
+  "storage.requestPersist": "Request persistent storage",
+  "storage.manage": "Manage storage",
+  "storage.quotaExceeded":
+    "Could not save because storage is full. Delete old images or empty the trash.",
+  "storage.nearlyFull":
+    "Storage usage is over {percent}% of the quota. Saving will fail once it runs out.",
+
+  "timeline.editedAt": "Edited {date} · Show history",
+  "timeline.edited": "(edited)",
+  "timeline.unread": "New messages",
+
+  "reaction.otherEmoji": "Other emoji",
+  "reaction.deletedProfile": "Deleted profile",
+
+  "profile.postingAs": "Posting as {name}",
+  "profile.manage": "Manage profiles",
+  "profile.imageLoadFailed": "Could not load the image.",
+  "profile.confirmDelete":
+    'Delete the profile "{name}"? Its posts are kept but can no longer be edited.',
+  "profile.inUse": "Current",
+  "profile.switch": "Switch",
+  "profile.name": "Display name",
+  "profile.initials": "Initials",
+  "profile.selectImage": "Choose image",
+  "profile.removeImage": "Remove image",
+  "profile.add": "Add profile",
+
+  "filter.starred": "Starred",
+  "filter.pinned": "Pinned",
+  "filter.byTag": {
+    one: "Filtered by #{tag} ({count} post)",
+    other: "Filtered by #{tag} ({count} posts)",
+  },
+  "filter.byFlag": {
+    one: "Filtered by {flag} ({count} post)",
+    other: "Filtered by {flag} ({count} posts)",
+  },
+  "filter.byReaction": {
+    one: "Filtered by {emoji} reactions ({count} post)",
+    other: "Filtered by {emoji} reactions ({count} posts)",
+  },
+  "filter.reactions": "Reactions",
+
+  "seed.welcome":
+    'A web app for jotting notes anywhere, like a Slack "times" channel. Everything you write is stored in the browser, so it is still here the next time you open it. You can export your notes to Markdown whenever you need.',
+  "seed.reply":
+    "There are threads too, and you can attach images and files. Have fun trying things out!",
+
+  "share.added": "Added the shared content to the message box",
+
+  "db.migrationFailed":
+    "Could not upgrade the database to version {version}. Your data has not been changed.",
+  "db.openFailed": "Could not open the database.",
+  "db.reload": "Reload",
+  "db.loadFailed": "Could not load the data",
+  "db.saveFailed": "Could not save the change",
+  "db.blocked":
+    "An older version of the app is open in another tab, so the data cannot be upgraded. Please close the other tabs.",
+  "db.versionChange": "The app was updated in another tab. Please reload.",
+
+  "message.moved": "Moved to #{name}",
+  "message.trashed": "Moved the message to the trash",
+  "message.editTargetDeleted":
+    "Could not save the edit because the message was deleted in another tab",
+  "message.edited": "Edited the message",
+  "message.sendFailed": "Could not send the message",
+
+  "undo.undone": 'Undid "{label}"',
+  "undo.undoFailed": "Could not undo",
+  "undo.redone": 'Redid "{label}"',
+  "undo.redoFailed": "Could not redo",
+  "undo.undo": "Undo",
+  "undo.redo": "Redo",
+
+  "settings.confirmTrashAll":
+    "Move the messages in every channel to the trash?",
+  "settings.trashedAll": "Moved all messages to the trash",
+  "settings.title": "Settings",
+  "settings.profiles": "Profiles",
+  "settings.storageUsage": "Storage usage",
+  "settings.used": "Used: {size} MB",
+  "settings.quota": "Quota: {size} MB",
+  "settings.loadingUsage": "Loading usage...",
+  "settings.imageCompression": "Image compression",
+  "settings.data": "Data",
+  "settings.importing": "Importing...",
+  "settings.importZip": "Import from ZIP",
+  "settings.createBackup": "Create JSON backup",
+  "settings.trashAll": "Move all messages to the trash",
+  "settings.language": "Language",
+  "settings.appearance": "Appearance",
+
+  "import.nothingNew": "There were no new messages to import.",
+  "import.imported": {
+    one: "Imported {count} message.",
+    other: "Imported {count} messages.",
+  },
+  "import.failed": "Could not read the ZIP file.",
+
+  "reply.targetDeleted": "Could not reply because the post was deleted",
+  "reply.trashed": "Moved the reply to the trash",
+  "reply.replyingTo": 'Replying to: "{text}"...',
+
+  "tag.promptRename": "New tag name (use an existing tag's name to merge them)",
+  "tag.invalid": "Tags cannot contain spaces or symbols",
+  "tag.renamed": {
+    one: "Renamed #{from} to #{to} ({count} post)",
+    other: "Renamed #{from} to #{to} ({count} posts)",
+  },
+
+  "appearance.light": "Light",
+  "appearance.dark": "Dark",
+  "appearance.system": "System",
+  "appearance.accentColor": "Accent color",
+  "appearance.comfortable": "Comfortable",
+  "appearance.compact": "Compact",
+  "appearance.fontSize": "Font size",
+
+  "palette.placeholder": "Search actions and channels",
+  "palette.noMatches": "No matching actions.",
+  "palette.export": "Export as ZIP",
+  "palette.openSettings": "Open settings",
+  "palette.jumpToDate": "Jump to date",
+  "palette.jump": "Go",
+  "palette.noPostsAfter": "No posts on or after that date",
+
+  "drafts.hasDraft": "Draft",
+  "drafts.replyDraft": "Reply draft",
+  "drafts.editDraft": "Unsaved edit",
+};
+
+export default en;
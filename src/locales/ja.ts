@@ -0,0 +1,303 @@
+// 日本語の文言。キーの一覧はこのファイルを基準にする
+// 件数で変わる文言も、日本語では書き分けないため文字列だけで書く
+const ja = {
+  "date.today": "今日",
+  "date.yesterday": "昨日",
+
+  "period.all": "すべて",
+  "period.today": "今日",
+  "period.week": "今週",
+  "period.month": "今月",
+
+  "channel.nameRequired": "チャンネル名を入力してください。",
+  "channel.nameTooLong": "チャンネル名は{max}文字以内にしてください。",
+  "channel.nameDuplicate": "#{name} はすでに存在します。",
+  "channel.unarchive": "アーカイブを解除",
+  "channel.promptName": "新しいチャンネルの名前を入力してください",
+  "channel.promptRename": "チャンネルの新しい名前",
+  "channel.confirmDelete":
+    "#{name} を削除しますか？メッセージはゴミ箱に移動します。",
+  "channel.deleted": "#{name} を削除しました",
+  "channel.archivedNotice":
+    "#{name} はアーカイブされているため、書き込めません。",
+
+  "backup.notNumber": "{path} が数値ではありません",
+  "backup.invalid": "{path} が不正です",
+  "backup.notString": "{path} が文字列ではありません",
+  "backup.notDate": "{path} が日時ではありません",
+  "backup.notBoolean": "{path} が真偽値ではありません",
+  "backup.notArray": "{path} が配列ではありません",
+  "backup.notObject": "{path} がオブジェクトではありません",
+  "backup.duplicate": "{path} が重複しています",
+  "backup.empty": "{path} が空です",
+  "backup.missingChannel": "{path} のチャンネルがありません",
+  "backup.invalidJson": "JSONとして読み込めませんでした",
+  "backup.notBackup": "Anytimesのバックアップファイルではありません",
+  "backup.invalidVersion": "バックアップのバージョンが不正です",
+  "backup.newerVersion":
+    "より新しい形式のバックアップです（バージョン{version}）。アプリを更新してください",
+  "backup.loadFailed": "バックアップを読み込めませんでした: {message}",
+  "backup.confirmReplace":
+    "現在のメッセージはすべてバックアップの内容に置き換えられます。よろしいですか？",
+  "backup.restoreFailed": "バックアップの復元に失敗しました。",
+  "backup.restoreTitle": "バックアップから復元",
+  "backup.summary": "{count}件のメッセージ",
+  "backup.summaryWithDate": "{count}件のメッセージ（{date} 作成）",
+  "backup.merge": "IDでマージ（同じIDはバックアップで上書き）",
+  "backup.replace": "すべて置き換え",
+  "backup.restore": "復元",
+
+  "update.available": "新しいバージョンがあります",
+  "update.reload": "更新",
+  "update.later": "あとで",
+  "update.offlineReady": "オフラインでも使えるようになりました",
+
+  "header.search": "検索",
+  "header.resultCount": "{count}件",
+
+  "input.placeholder": "メッセージを送信する",
+  "input.attachFile": "ファイルを添付",
+  "input.closePreview": "プレビューを閉じる",
+  "input.preview": "Markdownプレビュー",
+
+  "attachment.compressedLabel": "{name}（{size}・元 {originalSize}）",
+  "attachment.label": "{name}（{size}）",
+
+  "common.download": "ダウンロード",
+  "common.close": "閉じる",
+  "common.attachmentsOnly": "（添付ファイルのみ）",
+  "common.separator": "・",
+  "common.delete": "削除",
+  "common.unknown": "不明",
+  "common.loading": "読み込み中...",
+  "common.reply": "返信",
+  "common.post": "投稿",
+  "common.cancel": "キャンセル",
+  "common.save": "保存",
+  "common.add": "追加",
+  "common.edit": "編集",
+
+  "lightbox.position": "（{index} / {total}）",
+  "lightbox.zoomOut": "縮小",
+  "lightbox.zoomIn": "拡大",
+  "lightbox.fit": "画面に合わせる",
+
+  "pinned.title": "ピン留め（{count}）",
+  "pinned.unpin": "ピン留めを外す",
+
+  "history.title": "編集履歴",
+  "history.current": "（現在）",
+  "history.first": "（最初の版）",
+  "history.rollback": "この版に戻す",
+
+  "conflict.title": "編集が競合しました",
+  "conflict.description":
+    "編集している間に、別のタブでこの投稿が変更されました。自分の変更で上書きしても、別のタブでの変更は編集履歴に残ります。",
+  "conflict.theirs": "別のタブでの変更",
+  "conflict.mine": "自分の変更",
+  "conflict.discardMine": "自分の変更を破棄",
+  "conflict.keepMine": "自分の変更で上書き",
+
+  "sidebar.channels": "チャンネル",
+  "sidebar.addChannel": "チャンネルを追加",
+  "sidebar.archived": "アーカイブ（{count}）",
+  "sidebar.tags": "タグ",
+  "sidebar.rename": "名前を変更",
+  "sidebar.archive": "アーカイブ",
+
+  "saved.title": "保存済み",
+  "saved.unstar": "スターを外す",
+  "saved.empty": "スターを付けた投稿や返信はありません。",
+
+  "trash.deletedChannel": "削除されたチャンネル",
+  "trash.restore": "元に戻す",
+  "trash.deleteForever": "完全に削除",
+  "trash.replyCount": "（返信{count}件）",
+  "trash.deletedAt": "{date}に削除",
+  "trash.remainingDays": "あと{count}日で完全に削除",
+  "trash.title": "ゴミ箱",
+  "trash.description":
+    "削除したメッセージは{count}日間ゴミ箱に残り、その後完全に削除されます。",
+  "trash.empty": "ゴミ箱は空です。",
+  "trash.emptyTrash": "ゴミ箱を空にする",
+  "trash.restored": "ゴミ箱から元に戻しました",
+  "trash.confirmDeleteForever":
+    "{count}件を完全に削除しますか？この操作は元に戻せません。",
+
+  "tasks.title": "タスク",
+  "tasks.allTags": "すべてのタグ",
+  "tasks.overdueDays": "期限切れまでの日数",
+  "tasks.overdueAlert":
+    "{days}日以上たっても終わっていないタスクが{count}件あります。",
+  "tasks.noText": "（内容なし）",
+  "tasks.overdue": "期限切れ",
+  "tasks.empty": "未完了のタスクはありません。",
+
+  "compression.confirmRecompress":
+    "保存済みの画像を現在の設定で圧縮し直します。元の画像には戻せません。よろしいですか？",
+  "compression.recompressed":
+    "{total}件中{count}件を圧縮し、{size}削減しました。",
+  "compression.nothingToCompress": "圧縮して小さくなる画像はありませんでした。",
+  "compression.recompressFailed": "画像の再圧縮に失敗しました。",
+  "compression.enabled": "保存前に画像を縮小・圧縮する",
+  "compression.maxDimension": "最大サイズ（長辺）",
+  "compression.format": "形式",
+  "compression.quality": "画質: {percent}%",
+  "compression.note":
+    "圧縮するときに、位置情報などの撮影情報（EXIF）も削除されます。GIFとSVGは圧縮しません。",
+  "compression.recompressing": "再圧縮中... {done} / {total}",
+  "compression.recompress": "保存済みの画像を再圧縮",
+
+  "storage.confirmDeleteImages":
+    "{count}件の画像（{size}）を削除します。画像はゴミ箱に移らず、元に戻せません。よろしいですか？",
+  "storage.summarizing": "集計中...",
+  "storage.loadFailed": "使用量を集計できませんでした。",
+  "storage.byKind": "種類ごとの内訳",
+  "storage.textUsage": "テキスト: {size}",
+  "storage.imageUsage": "画像: {size}",
+  "storage.fileUsage": "その他のファイル: {size}",
+  "storage.excludes": "ゴミ箱の中身と検索用の索引は含みません。",
+  "storage.byMonth": "月ごとの使用量",
+  "storage.month": "月",
+  "storage.text": "テキスト",
+  "storage.images": "画像",
+  "storage.files": "ファイル",
+  "storage.largestPosts": "容量の大きい投稿",
+  "storage.deleteOldImages": "古い画像の削除",
+  "storage.deleteImagesNote":
+    "選んだ期間より前の投稿と返信から画像を削除します。画像はゴミ箱に移らず、元に戻せません。",
+  "storage.age": "期間",
+  "storage.olderThanDays": "{count}日より前",
+  "storage.olderThanYear": "1年より前",
+  "storage.deleting": "削除中...",
+  "storage.deleteImages": "画像{count}件（{size}）を削除",
+  "storage.deleteFailed": "古い画像を削除できませんでした。",
+  "storage.persistence": "データの永続化",
+  "storage.persistUnsupported": "このブラウザは永続化に対応していません。",
+  "storage.persisted":
+    "永続化されています。容量が不足してもブラウザが自動で削除することはありません。",
+  "storage.persistDenied":
+    "ブラウザに許可されませんでした。ブックマークやホーム画面に追加すると許可されやすくなります。",
+  "storage.notPersisted":
+    "永続化されていないため、容量が不足するとブラウザがデータを削除することがあります。",
+  "storage.requestPersist": "永続化をリクエスト",
+  "storage.manage": "容量を管理",
+  "storage.quotaExceeded":
+    "ストレージの空き容量が足りないため、保存できませんでした。古い画像やゴミ箱の中身を削除してください。",
+  "storage.nearlyFull":
+    "ストレージの使用量がクォータの{percent}%を超えました。容量が足りなくなると保存できなくなります。",
+
+  "timeline.editedAt": "{date}に編集・履歴を表示",
+  "timeline.edited": "（編集済み）",
+  "timeline.unread": "ここから未読",
+
+  "reaction.otherEmoji": "その他の絵文字",
+  "reaction.deletedProfile": "削除したプロフィール",
+
+  "profile.postingAs": "{name}として投稿中",
+  "profile.manage": "プロフィールを管理",
+  "profile.imageLoadFailed": "画像を読み込めませんでした。",
+  "profile.confirmDelete":
+    "プロフィール「{name}」を削除しますか？投稿は削除されませんが、編集できなくなります。",
+  "profile.inUse": "使用中",
+  "profile.switch": "切り替え",
+  "profile.name": "表示名",
+  "profile.initials": "文字",
+  "profile.selectImage": "画像を選択",
+  "profile.removeImage": "画像を外す",
+  "profile.add": "プロフィールを追加",
+
+  "filter.starred": "スター付き",
+  "filter.pinned": "ピン留め",
+  "filter.byTag": "#{tag} で絞り込み中（{count}件）",
+  "filter.byFlag": "{flag}で絞り込み中（{count}件）",
+  "filter.byReaction": "{emoji} のリアクションで絞り込み中（{count}件）",
+  "filter.reactions": "リアクション",
+
+  "seed.welcome":
+    "どこでもSlackのTimesチャンネルのようなメモが作れるWebアプリです。書き込んだ内容はキャッシュに保存するため、再度ブラウザを開いても保存されています。必要に応じてメモした内容をマークダウンに出力できます。",
+  "seed.reply":
+    "スレッド機能もついてます。また画像やファイルの添付も可能です。ぜひ色々試してみてください！",
+
+  "share.added": "共有された内容を入力欄に追加しました",
+
+  "db.migrationFailed":
+    "データベースをバージョン{version}に更新できませんでした。データは変更されていません。",
+  "db.openFailed": "データベースを開けませんでした。",
+  "db.reload": "再読み込み",
+  "db.loadFailed": "データを読み込めませんでした",
+  "db.saveFailed": "変更を保存できませんでした",
+  "db.blocked":
+    "別のタブで古いバージョンのアプリが開かれているため、データを更新できません。他のタブを閉じてください。",
+  "db.versionChange":
+    "別のタブでアプリが更新されました。再読み込みしてください。",
+
+  "message.moved": "#{name} に移動しました",
+  "message.trashed": "メッセージをゴミ箱に移動しました",
+  "message.editTargetDeleted":
+    "別のタブで削除されたため、編集を保存できませんでした",
+  "message.edited": "メッセージを編集しました",
+  "message.sendFailed": "メッセージを送信できませんでした",
+
+  "undo.undone": "「{label}」を元に戻しました",
+  "undo.undoFailed": "元に戻せませんでした",
+  "undo.redone": "「{label}」をやり直しました",
+  "undo.redoFailed": "やり直せませんでした",
+  "undo.undo": "元に戻す",
+  "undo.redo": "やり直す",
+
+  "settings.confirmTrashAll":
+    "すべてのチャンネルのメッセージをゴミ箱に移動しますか？",
+  "settings.trashedAll": "すべてのメッセージをゴミ箱に移動しました",
+  "settings.title": "設定",
+  "settings.profiles": "プロフィール",
+  "settings.storageUsage": "ストレージ使用量",
+  "settings.used": "使用済み: {size} MB",
+  "settings.quota": "クォータ: {size} MB",
+  "settings.loadingUsage": "使用量を読み込み中...",
+  "settings.imageCompression": "画像の圧縮",
+  "settings.data": "データ管理",
+  "settings.importing": "インポート中...",
+  "settings.importZip": "ZIPからインポート",
+  "settings.createBackup": "JSONバックアップを作成",
+  "settings.trashAll": "すべてのメッセージをゴミ箱に移動",
+  "settings.language": "言語",
+  "settings.appearance": "表示",
+
+  "import.nothingNew": "インポートできる新しいメッセージはありませんでした。",
+  "import.imported": "{count}件のメッセージをインポートしました。",
+  "import.failed": "ZIPファイルを読み込めませんでした。",
+
+  "reply.targetDeleted": "返信先の投稿が削除されたため、返信できませんでした",
+  "reply.trashed": "返信をゴミ箱に移動しました",
+  "reply.replyingTo": '返信中: "{text}"...',
+
+  "tag.promptRename":
+    "タグの新しい名前（既にあるタグの名前にすると統合します）",
+  "tag.invalid": "タグには空白や記号を含められません",
+  "tag.renamed": "#{from} を #{to} に変更しました（{count}件）",
+
+  "appearance.light": "ライト",
+  "appearance.dark": "ダーク",
+  "appearance.system": "OSに合わせる",
+  "appearance.accentColor": "アクセントの色",
+  "appearance.comfortable": "標準",
+  "appearance.compact": "コンパクト",
+  "appearance.fontSize": "文字の大きさ",
+
+  "palette.placeholder": "操作やチャンネルを検索",
+  "palette.noMatches": "一致する操作はありません。",
+  "palette.export": "ZIPでエクスポート",
+  "palette.openSettings": "設定を開く",
+  "palette.jumpToDate": "日付へ移動",
+  "palette.jump": "移動",
+  "palette.noPostsAfter": "その日以降の投稿はありません",
+
+  "drafts.hasDraft": "下書きあり",
+  "drafts.replyDraft": "返信の下書き",
+  "drafts.editDraft": "編集の下書き",
+};
+
+export type MessageKey = keyof typeof ja;
+
+export default ja;
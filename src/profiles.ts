@@ -0,0 +1,105 @@
+// 投稿者のプロフィール（表示名・アバター・色）に関する定数と関数
+// 投稿と返信には投稿者のプロフィールIDと、書き出し用に名前などの写しを保存する
+// 編集・削除できるかは名前ではなくIDで判定する
+
+export interface Profile {
+  id: number;
+  name: string; // 表示名
+  initials: string; // 画像がないときにアバターに出す文字
+  color: string; // アバターの背景色
+  image?: string; // アバター画像（縮小したdata URL）
+}
+
+// 投稿と返信に保存する投稿者。idのない投稿者（インポートしたものなど）は誰も編集できない
+interface Author {
+  id?: number;
+  name: string;
+  avatar: string; // アバターに出す文字
+  color?: string;
+}
+
+// 既存の自分（Me）の投稿を結び付けるプロフィール。どの環境でも同じIDにして、
+// バックアップを別のブラウザで復元しても自分の投稿として編集できるようにする
+export const DEFAULT_PROFILE_ID = 1;
+export const DEFAULT_PROFILE_NAME = "Me";
+
+// 選択中のプロフィールのID（設定ストアに保存する）
+export const CURRENT_PROFILE_SETTING_KEY = "currentProfileId";
+
+// アバターの背景色の候補
+export const PROFILE_COLORS = [
+  "#1976d2",
+  "#9c27b0",
+  "#2e7d32",
+  "#ed6c02",
+  "#d32f2f",
+  "#0097a7",
+  "#5d4037",
+  "#616161",
+];
+
+// 名前の先頭の1文字（絵文字なども1文字として扱う）を大文字にしてアバターの文字にする
+export const initialsFromName = (name: string): string => {
+  const [first] = new Intl.Segmenter().segment(name.trim());
+  return first ? first.segment.toUpperCase() : "?";
+};
+
+export const createDefaultProfile = (): Profile => ({
+  id: DEFAULT_PROFILE_ID,
+  name: DEFAULT_PROFILE_NAME,
+  initials: initialsFromName(DEFAULT_PROFILE_NAME),
+  color: PROFILE_COLORS[0],
+});
+
+// 新しいプロフィール。IDはチャンネルと同じく作成時刻から採番し、色は順に割り当てる
+export const createProfile = (
+  name: string,
+  existingCount: number,
+  now = new Date()
+): Profile => ({
+  id: now.getTime(),
+  name,
+  initials: initialsFromName(name),
+  color: PROFILE_COLORS[existingCount % PROFILE_COLORS.length],
+});
+
+// プロフィール導入前の自分の投稿者（Me）と、架空の投稿者（Hello）で作っていた初期メッセージ
+// マイグレーションとバックアップの変換で、最初のプロフィールに結び付ける
+export const isLegacyOwnAuthor = (user: { name: string; avatar: string }) =>
+  user.name === DEFAULT_PROFILE_NAME ||
+  (user.name === "Hello" && user.avatar === "A");
+
+// 投稿と返信に保存する投稿者の写し（画像は大きいため含めない）
+export const toAuthor = (profile: Profile): Author => ({
+  id: profile.id,
+  name: profile.name,
+  avatar: profile.initials,
+  color: profile.color,
+});
+
+// アバター画像の一辺のピクセル数
+const AVATAR_IMAGE_SIZE = 128;
+
+// 選んだ画像を中央で正方形に切り抜いて縮小し、data URLにする
+export const resizeAvatarImage = async (file: Blob): Promise<string> => {
+  const bitmap = await createImageBitmap(file);
+  const side = Math.min(bitmap.width, bitmap.height);
+  const canvas = document.createElement("canvas");
+  canvas.width = AVATAR_IMAGE_SIZE;
+  canvas.height = AVATAR_IMAGE_SIZE;
+  canvas
+    .getContext("2d")
+    ?.drawImage(
+      bitmap,
+      (bitmap.width - side) / 2,
+      (bitmap.height - side) / 2,
+      side,
+      side,
+      0,
+      0,
+      AVATAR_IMAGE_SIZE,
+      AVATAR_IMAGE_SIZE
+    );
+  bitmap.close();
+  return canvas.toDataURL("image/webp", 0.85);
+};
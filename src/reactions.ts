@@ -0,0 +1,155 @@
+// 投稿と返信に付ける絵文字のリアクション
+// 誰が付けたかをプロフィールのIDで持ち、同じ人がもう一度選ぶと外れる（Slackと同じ）
+// 名前は表示や書き出しのときにプロフィールから引く
+import { getLocale, t, type Locale } from "./i18n";
+
+export interface Reaction {
+  emoji: string;
+  users: number[]; // リアクションを付けたプロフィールのID（付けた順）
+}
+
+// 付けた人を名前で表したリアクション（Markdownの行に書き出す・読み込む形）
+export interface NamedReaction {
+  emoji: string;
+  users: string[];
+}
+
+// ピッカーに並べる絵文字。先頭の3つは状態の印として使う想定
+export const REACTION_PRESETS = [
+  "✅",
+  "👀",
+  "❗",
+  "👍",
+  "🙏",
+  "🎉",
+  "❤️",
+  "😂",
+  "🤔",
+  "🔥",
+  "⏳",
+  "❌",
+];
+
+// 絵文字のリアクションを付ける・外す。誰も付けていない絵文字は一覧から除く
+export const toggleReaction = (
+  reactions: Reaction[] | undefined,
+  emoji: string,
+  user: number
+): Reaction[] => {
+  const current = reactions ?? [];
+  const existing = current.find((reaction) => reaction.emoji === emoji);
+  if (!existing) return [...current, { emoji, users: [user] }];
+  return current
+    .map((reaction) =>
+      reaction.emoji !== emoji
+        ? reaction
+        : {
+            ...reaction,
+            users: reaction.users.includes(user)
+              ? reaction.users.filter((id) => id !== user)
+              : [...reaction.users, user],
+          }
+    )
+    .filter((reaction) => reaction.users.length > 0);
+};
+
+// プロフィールのIDから名前を引く。削除したプロフィールは共通の名前で表す
+export const reactionUserName = (
+  profiles: { id: number; name: string }[],
+  id: number
+): string =>
+  profiles.find((profile) => profile.id === id)?.name ??
+  t("reaction.deletedProfile");
+
+export const nameReactions = (
+  reactions: Reaction[],
+  profiles: { id: number; name: string }[]
+): NamedReaction[] =>
+  reactions.map(({ emoji, users }) => ({
+    emoji,
+    users: users.map((id) => reactionUserName(profiles, id)),
+  }));
+
+// 名前で表したリアクションを、同じ名前のプロフィールのIDにする
+// 該当するプロフィールがない名前は外し、誰も残らない絵文字は一覧から除く
+export const resolveReactionUsers = (
+  reactions: NamedReaction[],
+  profiles: { id: number; name: string }[]
+): Reaction[] =>
+  reactions
+    .map(({ emoji, users }) => ({
+      emoji,
+      users: [
+        ...new Set(
+          users.flatMap((name) => {
+            const profile = profiles.find((item) => item.name === name);
+            return profile ? [profile.id] : [];
+          })
+        ),
+      ],
+    }))
+    .filter((reaction) => reaction.users.length > 0);
+
+export const hasReaction = (
+  entry: { reactions?: Reaction[] },
+  emoji: string
+): boolean =>
+  entry.reactions?.some((reaction) => reaction.emoji === emoji) ?? false;
+
+// 入力された文字列の先頭の絵文字（1文字として見える単位）を取り出す。絵文字でなければnull
+export const firstEmoji = (input: string): string | null => {
+  const [first] = new Intl.Segmenter().segment(input.trim());
+  if (!first || !/\p{Extended_Pictographic}/u.test(first.segment)) return null;
+  return first.segment;
+};
+
+// Markdownに書き出す行の書式（例: リアクション: ✅ 2（Me, Bob）・👀 1（Me））
+// 書き出すときは選択中の言語の書式を使い、読み込むときはどちらの言語の行も受け付ける
+interface ReactionsLineFormat {
+  prefix: string;
+  itemRegex: RegExp; // 絵文字と、付けた人の名前の一覧を取り出す
+  formatItem: (emoji: string, users: string[]) => string;
+  separator: string;
+}
+
+const REACTIONS_LINE_FORMATS: Record<Locale, ReactionsLineFormat> = {
+  ja: {
+    prefix: "リアクション: ",
+    itemRegex: /^(.+) \d+（(.*)）$/u,
+    formatItem: (emoji, users) =>
+      `${emoji} ${users.length}（${users.join(", ")}）`,
+    separator: "・",
+  },
+  en: {
+    prefix: "Reactions: ",
+    itemRegex: /^(.+) \d+ \((.*)\)$/u,
+    formatItem: (emoji, users) =>
+      `${emoji} ${users.length} (${users.join(", ")})`,
+    separator: " · ",
+  },
+};
+
+export const formatReactionsLine = (reactions: NamedReaction[]): string => {
+  const format = REACTIONS_LINE_FORMATS[getLocale()];
+  return (
+    format.prefix +
+    reactions
+      .map(({ emoji, users }) => format.formatItem(emoji, users))
+      .join(format.separator)
+  );
+};
+
+// 書き出した行を読み込む。リアクションの行でなければnull
+export const parseReactionsLine = (line: string): NamedReaction[] | null => {
+  const format = Object.values(REACTIONS_LINE_FORMATS).find(({ prefix }) =>
+    line.startsWith(prefix)
+  );
+  if (!format) return null;
+  const reactions: NamedReaction[] = [];
+  for (const item of line.slice(format.prefix.length).split(format.separator)) {
+    const match = item.match(format.itemRegex);
+    if (!match) return null;
+    reactions.push({ emoji: match[1], users: match[2].split(", ") });
+  }
+  return reactions;
+};
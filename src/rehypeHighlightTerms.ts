@@ -0,0 +1,40 @@
+import type { Element, ElementContent, Root } from "hast";
+
+// 検索語に一致するテキストを<mark>で囲むrehypeプラグイン
+// 正規表現は検索語を1つのキャプチャグループにしたもの（buildHighlightRegex）を受け取る
+const rehypeHighlightTerms =
+  ({ regex }: { regex: RegExp | null }) =>
+  (tree: Root) => {
+    if (!regex) return;
+
+    const visit = (node: Root | Element) => {
+      const children: ElementContent[] = [];
+      for (const child of node.children as ElementContent[]) {
+        if (child.type === "element") {
+          visit(child);
+          children.push(child);
+        } else if (child.type === "text") {
+          // 分割すると奇数番目が一致部分になる
+          child.value.split(regex).forEach((part, i) => {
+            if (part === "") return;
+            children.push(
+              i % 2 === 1
+                ? {
+                    type: "element",
+                    tagName: "mark",
+                    properties: {},
+                    children: [{ type: "text", value: part }],
+                  }
+                : { type: "text", value: part }
+            );
+          });
+        } else {
+          children.push(child);
+        }
+      }
+      node.children = children;
+    };
+    visit(tree);
+  };
+
+export default rehypeHighlightTerms;
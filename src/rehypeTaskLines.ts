@@ -0,0 +1,33 @@
+import type { Element, ElementContent, Root } from "hast";
+
+const isCheckbox = (node: ElementContent): node is Element =>
+  node.type === "element" &&
+  node.tagName === "input" &&
+  node.properties.type === "checkbox";
+
+// タスクリストのチェックボックスに、本文での行番号（data-task-line）を付けるrehypeプラグイン
+// チェックボックスには位置情報がないため、それを含むリスト項目の開始行を使う
+// rehype-sanitizeの後に実行し、付けた属性が取り除かれないようにする
+const rehypeTaskLines = () => (tree: Root) => {
+  const visit = (node: Root | Element) => {
+    for (const child of node.children) {
+      if (child.type !== "element") continue;
+      const line = child.position?.start.line;
+      if (child.tagName === "li" && line !== undefined) {
+        // 項目の間に空行があるリストでは、チェックボックスは段落の中にある
+        const paragraph = child.children.find(
+          (item): item is Element =>
+            item.type === "element" && item.tagName === "p"
+        );
+        const checkbox =
+          child.children.find(isCheckbox) ??
+          paragraph?.children.find(isCheckbox);
+        if (checkbox) checkbox.properties.dataTaskLine = line;
+      }
+      visit(child);
+    }
+  };
+  visit(tree);
+};
+
+export default rehypeTaskLines;
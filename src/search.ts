@@ -0,0 +1,70 @@
+// 検索用の語の切り出し
+// 英数字は単語単位（前方一致で検索）、日本語などの分かち書きしない文字は
+// 1文字と2文字の組（uni-gram / bi-gram）に分けて索引に登録する
+const LATIN_RUN = /^[\p{Script=Latin}\p{N}_]+$/u;
+const TOKEN_REGEX =
+  /[\p{Script=Latin}\p{N}_]+|[^\p{Script=Latin}\p{N}_\s\p{P}\p{S}]+/gu;
+
+export const normalizeForSearch = (text: string): string =>
+  text.normalize("NFKC").toLowerCase();
+
+// 索引に登録する語の一覧を作る
+export const extractIndexTerms = (text: string): string[] => {
+  const terms = new Set<string>();
+  for (const token of normalizeForSearch(text).match(TOKEN_REGEX) ?? []) {
+    if (LATIN_RUN.test(token)) {
+      terms.add(token);
+      continue;
+    }
+    const chars = [...token];
+    chars.forEach((char, i) => {
+      terms.add(char);
+      if (i + 1 < chars.length) terms.add(char + chars[i + 1]);
+    });
+  }
+  return [...terms];
+};
+
+// 検索語を索引の引き方に変換する。prefixがtrueの語は前方一致で引く
+export interface QueryTerm {
+  term: string;
+  prefix: boolean;
+}
+
+export const extractQueryTerms = (query: string): QueryTerm[] => {
+  const terms: QueryTerm[] = [];
+  for (const token of normalizeForSearch(query).match(TOKEN_REGEX) ?? []) {
+    if (LATIN_RUN.test(token)) {
+      terms.push({ term: token, prefix: true });
+      continue;
+    }
+    const chars = [...token];
+    if (chars.length === 1) {
+      terms.push({ term: token, prefix: false });
+      continue;
+    }
+    for (let i = 0; i + 1 < chars.length; i++) {
+      terms.push({ term: chars[i] + chars[i + 1], prefix: false });
+    }
+  }
+  return terms;
+};
+
+// 空白で区切った検索語（ハイライトと最終的な一致確認に使う）
+export const splitSearchWords = (query: string): string[] =>
+  query.split(/\s+/).filter((word) => word !== "");
+
+// 本文がすべての検索語を含むかを確認する（bi-gramによる誤検出を取り除く）
+export const matchesAllWords = (text: string, words: string[]): boolean => {
+  const normalized = normalizeForSearch(text);
+  return words.every((word) => normalized.includes(normalizeForSearch(word)));
+};
+
+// ハイライト用の正規表現を作る。検索語がなければnull
+export const buildHighlightRegex = (words: string[]): RegExp | null => {
+  if (words.length === 0) return null;
+  const escaped = words
+    .map((word) => word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+    .sort((a, b) => b.length - a.length);
+  return new RegExp(`(${escaped.join("|")})`, "gi");
+};
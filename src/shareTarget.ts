@@ -0,0 +1,75 @@
+// 他のアプリから共有されたテキストと画像を、Service Workerからアプリへ受け渡す
+// Service WorkerはPOSTを受け取ってキャッシュに置き、アプリは起動時にそれを取り出して入力欄に入れる
+
+export interface SharedData {
+  text: string;
+  files: File[];
+}
+
+export const SHARE_TARGET_PATH = "share-target";
+// 共有を受け取ったあとに開くURLに付けるクエリ
+export const SHARE_TARGET_QUERY = "share-target";
+
+const SHARE_CACHE_NAME = "anytimes-share-target";
+const SHARE_META_KEY = "/share-target/meta";
+const shareFileKey = (index: number) => `/share-target/files/${index}`;
+
+interface SharedMeta {
+  text: string;
+  files: { name: string; type: string }[];
+}
+
+// 共有フォームのタイトル・本文・URLを、投稿の本文としてまとめる
+const joinSharedText = (formData: FormData): string => {
+  const parts = ["title", "text", "url"]
+    .map((key) => formData.get(key))
+    .filter((value): value is string => typeof value === "string")
+    .map((value) => value.trim())
+    .filter((value) => value !== "");
+  // 本文にURLが含まれている共有元が多いので、同じ内容は重ねない
+  return parts
+    .filter(
+      (part, index) => !parts.slice(0, index).some((p) => p.includes(part))
+    )
+    .join("\n");
+};
+
+// Service Worker側: 受け取ったフォームをキャッシュに保存する（前回の共有は上書き）
+export const storeSharedData = async (formData: FormData): Promise<void> => {
+  const files = formData
+    .getAll("files")
+    .filter((value): value is File => value instanceof File);
+  const meta: SharedMeta = {
+    text: joinSharedText(formData),
+    files: files.map((file) => ({ name: file.name, type: file.type })),
+  };
+  await caches.delete(SHARE_CACHE_NAME);
+  const cache = await caches.open(SHARE_CACHE_NAME);
+  await Promise.all([
+    cache.put(SHARE_META_KEY, new Response(JSON.stringify(meta))),
+    ...files.map((file, index) =>
+      cache.put(shareFileKey(index), new Response(file))
+    ),
+  ]);
+};
+
+// アプリ側: 保存された共有内容を取り出して削除する。なければnull
+export const consumeSharedData = async (): Promise<SharedData | null> => {
+  if (typeof caches === "undefined") return null;
+  const cache = await caches.open(SHARE_CACHE_NAME);
+  const metaResponse = await cache.match(SHARE_META_KEY);
+  if (!metaResponse) return null;
+  const meta: SharedMeta = await metaResponse.json();
+  const files = await Promise.all(
+    meta.files.map(async ({ name, type }, index) => {
+      const response = await cache.match(shareFileKey(index));
+      if (!response) return null;
+      return new File([await response.blob()], name, { type });
+    })
+  );
+  await caches.delete(SHARE_CACHE_NAME);
+  return {
+    text: meta.text,
+    files: files.filter((file): file is File => file !== null),
+  };
+};
@@ -0,0 +1,130 @@
+import { toLocalDateKey } from "./dateUtils";
+
+// 型定義をファイル内に再定義
+interface Attachment {
+  id: string;
+  name: string;
+  type: string;
+  size: number;
+}
+
+interface Reply {
+  id: number;
+  text: string;
+  createdAt: string;
+  attachments: Attachment[];
+}
+
+interface Message {
+  id: number;
+  text: string;
+  createdAt: string;
+  replies: Reply[];
+  attachments: Attachment[];
+  channelId: number;
+}
+
+// 月ごとの使用量（バイト数）
+export interface MonthlyUsage {
+  month: string; // YYYY-MM
+  textBytes: number;
+  imageBytes: number;
+  fileBytes: number;
+}
+
+export interface PostUsage {
+  id: number;
+  channelId: number;
+  createdAt: string;
+  text: string;
+  bytes: number; // 返信と添付ファイルを含めた大きさ
+}
+
+export interface StorageSummary {
+  textBytes: number;
+  imageBytes: number;
+  fileBytes: number;
+  months: MonthlyUsage[]; // 新しい月から順
+  largestPosts: PostUsage[];
+}
+
+const textEncoder = new TextEncoder();
+
+const isImage = (attachment: Attachment) =>
+  attachment.type.startsWith("image/");
+
+// 添付ファイルの本体を除いたメッセージの大きさ（本文・返信・編集履歴など）
+// IndexedDB上の実際のサイズとは一致しないが、目安として使う
+const textByteLength = (message: Message): number =>
+  textEncoder.encode(JSON.stringify(message)).length;
+
+// メッセージを月ごと・種類ごとに集計し、容量の大きい投稿を選ぶ
+// 返信と添付ファイルは、スレッドの元の投稿の月に含める
+export const summarizeStorage = (
+  messages: Message[],
+  largestCount = 5
+): StorageSummary => {
+  const monthly = new Map<string, MonthlyUsage>();
+  const posts: PostUsage[] = [];
+  const summary = { textBytes: 0, imageBytes: 0, fileBytes: 0 };
+
+  messages.forEach((message) => {
+    const month = toLocalDateKey(new Date(message.createdAt)).slice(0, 7);
+    const usage = monthly.get(month) ?? {
+      month,
+      textBytes: 0,
+      imageBytes: 0,
+      fileBytes: 0,
+    };
+    const textBytes = textByteLength(message);
+    const attachments = [message, ...message.replies].flatMap(
+      (entry) => entry.attachments
+    );
+    const imageBytes = attachments
+      .filter(isImage)
+      .reduce((sum, attachment) => sum + attachment.size, 0);
+    const fileBytes = attachments
+      .filter((attachment) => !isImage(attachment))
+      .reduce((sum, attachment) => sum + attachment.size, 0);
+
+    usage.textBytes += textBytes;
+    usage.imageBytes += imageBytes;
+    usage.fileBytes += fileBytes;
+    monthly.set(month, usage);
+    summary.textBytes += textBytes;
+    summary.imageBytes += imageBytes;
+    summary.fileBytes += fileBytes;
+    posts.push({
+      id: message.id,
+      channelId: message.channelId,
+      createdAt: message.createdAt,
+      text: message.text,
+      bytes: textBytes + imageBytes + fileBytes,
+    });
+  });
+
+  return {
+    ...summary,
+    months: [...monthly.values()].sort((a, b) =>
+      b.month.localeCompare(a.month)
+    ),
+    largestPosts: posts
+      .sort((a, b) => b.bytes - a.bytes)
+      .slice(0, largestCount),
+  };
+};
+
+// before より前の投稿・返信に付いている画像の数と合計サイズ
+export const countImagesBefore = (
+  messages: Message[],
+  before: string
+): { count: number; bytes: number } => {
+  const images = messages
+    .flatMap((message) => [message, ...message.replies])
+    .filter((entry) => entry.createdAt < before)
+    .flatMap((entry) => entry.attachments.filter(isImage));
+  return {
+    count: images.length,
+    bytes: images.reduce((sum, image) => sum + image.size, 0),
+  };
+};
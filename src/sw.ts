@@ -0,0 +1,47 @@
+/// <reference lib="webworker" />
+import {
+  cleanupOutdatedCaches,
+  createHandlerBoundToURL,
+  precacheAndRoute,
+} from "workbox-precaching";
+import { NavigationRoute, registerRoute } from "workbox-routing";
+import {
+  SHARE_TARGET_PATH,
+  SHARE_TARGET_QUERY,
+  storeSharedData,
+} from "./shareTarget";
+
+declare let self: ServiceWorkerGlobalScope;
+
+// ビルド結果をすべてキャッシュし、オフラインでも起動できるようにする
+precacheAndRoute(self.__WB_MANIFEST);
+cleanupOutdatedCaches();
+
+// どのURLで開かれても、キャッシュしたindex.htmlを返す
+registerRoute(new NavigationRoute(createHandlerBoundToURL("index.html")));
+
+// 新しいバージョンは、アプリの「更新」ボタンが押されるまで待機させる
+self.addEventListener("message", (event) => {
+  if (event.data?.type === "SKIP_WAITING") self.skipWaiting();
+});
+
+// 共有ターゲット: 共有されたフォームを保存してから、アプリを開き直す
+self.addEventListener("fetch", (event) => {
+  const url = new URL(event.request.url);
+  if (
+    event.request.method !== "POST" ||
+    url.pathname !==
+      new URL(SHARE_TARGET_PATH, self.registration.scope).pathname
+  ) {
+    return;
+  }
+  event.respondWith(
+    (async () => {
+      await storeSharedData(await event.request.formData());
+      return Response.redirect(
+        new URL(`./?${SHARE_TARGET_QUERY}`, self.registration.scope).href,
+        303
+      );
+    })()
+  );
+});
@@ -0,0 +1,40 @@
+// 同じブラウザで開いている他のタブに、DBへの書き込みを知らせる
+// 受け取ったタブはDBから読み直して表示を更新する（BroadcastChannelは送ったタブ自身には届かない）
+
+// 書き込んだデータの種類
+export type SyncScope =
+  "messages" | "channels" | "trash" | "settings" | "profiles" | "drafts";
+
+export interface SyncEvent {
+  scopes: SyncScope[];
+}
+
+const SYNC_CHANNEL_NAME = "anytimes-sync";
+
+let syncChannel: BroadcastChannel | null = null;
+
+// BroadcastChannelに対応していないブラウザでは同期しない
+const getSyncChannel = (): BroadcastChannel | null => {
+  if (typeof BroadcastChannel === "undefined") return null;
+  syncChannel ??= new BroadcastChannel(SYNC_CHANNEL_NAME);
+  return syncChannel;
+};
+
+export const broadcastChange = (...scopes: SyncScope[]): void => {
+  const event: SyncEvent = { scopes };
+  getSyncChannel()?.postMessage(event);
+};
+
+export const subscribeSync = (
+  listener: (event: SyncEvent) => void
+): (() => void) => {
+  const channel = getSyncChannel();
+  if (!channel) return () => {};
+  const handleMessage = (event: MessageEvent<SyncEvent>) => {
+    listener(event.data);
+  };
+  channel.addEventListener("message", handleMessage);
+  return () => {
+    channel.removeEventListener("message", handleMessage);
+  };
+};
@@ -0,0 +1,50 @@
+// 本文中の #タグ の切り出しと書き換え
+// URLのフラグメント（/#top）や「C#」のように直前に文字があるものはタグとみなさない
+// コードブロックとインラインコードの中は対象にしない
+const TAG_REGEX = /(^|[^\p{L}\p{N}_&#/])#([\p{L}\p{N}_][\p{L}\p{N}_-]*)/gu;
+const CODE_REGEX = /(```[\s\S]*?(?:```|$)|`[^`\n]*`)/g;
+// 「#123」のような数字だけのものは、issue番号などとしてタグにしない
+const DIGITS_ONLY = /^\d+$/;
+
+// 全角・半角や大文字・小文字の違いをまとめたタグ名
+export const normalizeTag = (tag: string): string =>
+  tag.normalize("NFKC").toLowerCase().replace(/^#/, "");
+
+// タグ名として使えるか（リネームの入力チェックに使う）
+export const isValidTag = (tag: string): boolean => {
+  const matches = [...`#${tag}`.matchAll(TAG_REGEX)];
+  return (
+    matches.length === 1 && matches[0][2] === tag && !DIGITS_ONLY.test(tag)
+  );
+};
+
+// コードを除いた部分だけにreplaceを当てる（splitすると奇数番目がコード）
+const mapOutsideCode = (text: string, replace: (part: string) => string) =>
+  text
+    .split(CODE_REGEX)
+    .map((part, i) => (i % 2 === 1 ? part : replace(part)))
+    .join("");
+
+// 本文に含まれるタグを、正規化して重複を除いた順に返す
+export const extractTags = (text: string): string[] => {
+  const tags = new Set<string>();
+  mapOutsideCode(text, (part) => {
+    for (const match of part.matchAll(TAG_REGEX)) {
+      if (!DIGITS_ONLY.test(match[2])) tags.add(normalizeTag(match[2]));
+    }
+    return part;
+  });
+  return [...tags];
+};
+
+// 本文中のタグfromをtoに書き換える（toが既にあるタグなら統合になる）
+export const renameTagInText = (
+  text: string,
+  from: string,
+  to: string
+): string =>
+  mapOutsideCode(text, (part) =>
+    part.replace(TAG_REGEX, (whole, prefix: string, tag: string) =>
+      normalizeTag(tag) === from ? `${prefix}#${to}` : whole
+    )
+  );
@@ -0,0 +1,53 @@
+// 本文中のタスク（- [ ] やること / - [x] 終わったこと）の読み取りと切り替え
+// 行番号は1から数え、Markdownを描画したときのリストの位置（rehypeTaskLines）と対応させる
+
+export interface Task {
+  line: number;
+  checked: boolean;
+  text: string;
+}
+
+// 引用（>）や番号付きリストの中のタスクも対象にする
+const TASK_LINE_REGEX =
+  /^(\s*(?:>\s?)*\s*(?:[-*+]|\d+[.)])\s+\[)([ xX])\](?:\s+(.*))?$/;
+const FENCE_REGEX = /^\s*(```|~~~)/;
+
+// コードブロックの外にあるタスクを、本文の順に返す
+export const extractTasks = (text: string): Task[] => {
+  const tasks: Task[] = [];
+  let fence: string | null = null;
+  text.split("\n").forEach((content, i) => {
+    const fenceMatch = content.match(FENCE_REGEX);
+    if (fenceMatch) {
+      if (fence === null) fence = fenceMatch[1];
+      else if (fence === fenceMatch[1]) fence = null;
+      return;
+    }
+    if (fence !== null) return;
+    const match = content.match(TASK_LINE_REGEX);
+    if (match) {
+      tasks.push({
+        line: i + 1,
+        checked: match[2] !== " ",
+        text: (match[3] ?? "").trim(),
+      });
+    }
+  });
+  return tasks;
+};
+
+// line行目のタスクの完了・未完了を切り替える。タスクの行でなければそのまま返す
+export const toggleTaskAt = (text: string, line: number): string => {
+  const lines = text.split("\n");
+  const match = lines[line - 1]?.match(TASK_LINE_REGEX);
+  if (!match) return text;
+  lines[line - 1] =
+    match[1] +
+    (match[2] === " " ? "x" : " ") +
+    lines[line - 1].slice(match[1].length + 1);
+  return lines.join("\n");
+};
+
+// 未完了のまま何日たったタスクを期限切れとして目立たせるか（設定ストアに保存する）
+export const TASK_OVERDUE_DAYS_SETTING_KEY = "taskOverdueDays";
+export const DEFAULT_TASK_OVERDUE_DAYS = 7;
@@ -0,0 +1,87 @@
+import { createTheme, type Theme } from "@mui/material";
+import githubDarkStyles from "highlight.js/styles/github-dark.css?inline";
+import githubLightStyles from "highlight.js/styles/github.css?inline";
+
+// 見た目の設定（配色・アクセントの色・表示密度・文字の大きさ）
+
+// system: OSの設定（prefers-color-scheme）に合わせる
+export type ThemeMode = "light" | "dark" | "system";
+
+// compact: タイムラインの行間を詰めて、一度に多くの投稿を表示する
+export type Density = "comfortable" | "compact";
+
+export interface AppearanceSettings {
+  mode: ThemeMode;
+  accentColor: string;
+  density: Density;
+  fontScale: number; // 標準の文字の大きさに対する倍率
+}
+
+export const APPEARANCE_SETTING_KEY = "appearance";
+
+export const DEFAULT_APPEARANCE: AppearanceSettings = {
+  mode: "dark",
+  accentColor: "#1976d2",
+  density: "comfortable",
+  fontScale: 1,
+};
+
+// アクセントの色の候補（ほかの色も選べる）
+export const ACCENT_COLORS = [
+  "#1976d2",
+  "#9c27b0",
+  "#2e7d32",
+  "#ed6c02",
+  "#d32f2f",
+  "#0097a7",
+];
+
+export const FONT_SCALES = [0.875, 1, 1.125, 1.25];
+
+// MUIの標準の本文の文字サイズ（px）
+const BASE_FONT_SIZE = 14;
+
+// コードブロックのハイライトの配色（明るさに合わせて読み込むCSS）
+export const CODE_HIGHLIGHT_STYLES: Record<"light" | "dark", string> = {
+  light: githubLightStyles,
+  dark: githubDarkStyles,
+};
+
+// systemのときは、OSがダークモードかどうかで明るさを決める
+export const createAppTheme = (
+  settings: AppearanceSettings,
+  prefersDark: boolean
+): Theme => {
+  const mode =
+    settings.mode === "system"
+      ? prefersDark
+        ? "dark"
+        : "light"
+      : settings.mode;
+  return createTheme({
+    palette: {
+      mode,
+      primary: {
+        main: settings.accentColor,
+      },
+      // ダークモードはSlackに近い背景色にする
+      ...(mode === "dark" && {
+        background: {
+          default: "#1a1d21",
+          paper: "#222529",
+        },
+      }),
+    },
+    typography: {
+      fontSize: BASE_FONT_SIZE * settings.fontScale,
+    },
+    components: {
+      // ライトモードでも検索欄が読めるよう、ヘッダーはアクセントの色で塗らない
+      MuiAppBar: {
+        defaultProps: {
+          color: mode === "dark" ? "primary" : "default",
+        },
+      },
+    },
+  });
+};
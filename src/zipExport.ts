@@ -0,0 +1,192 @@
+import JSZip from "jszip";
+import { loadAttachmentFromDB } from "./db";
+import { formatDate, formatTime, toLocalDateKey } from "./dateUtils";
+import { extractTags } from "./tags";
+import { formatReactionsLine, nameReactions } from "./reactions";
+
+// 型定義をファイル内に再定義
+interface Attachment {
+  id: string;
+  name: string;
+  type: string;
+  size: number;
+}
+
+interface Reaction {
+  emoji: string;
+  users: number[]; // リアクションを付けたプロフィールのID
+}
+
+interface Reply {
+  id: number;
+  user: { name: string; avatar: string };
+  text: string;
+  createdAt: string;
+  attachments: Attachment[];
+  starred?: boolean;
+  reactions?: Reaction[];
+}
+
+interface Message {
+  id: number;
+  user: { name: string; avatar: string };
+  text: string;
+  createdAt: string;
+  replies: Reply[];
+  attachments: Attachment[];
+  channelId: number;
+  pinned?: boolean;
+  starred?: boolean;
+  reactions?: Reaction[];
+}
+
+interface Channel {
+  id: number;
+  name: string;
+}
+
+interface Profile {
+  id: number;
+  name: string;
+}
+
+// 見出しの末尾に付ける、ピン留めとスターの印（読み込み時に取り除いて復元する）
+export const PINNED_MARKER = "📌";
+export const STARRED_MARKER = "⭐";
+
+const headingMarkers = (entry: { pinned?: boolean; starred?: boolean }) =>
+  `${entry.pinned ? ` ${PINNED_MARKER}` : ""}${
+    entry.starred ? ` ${STARRED_MARKER}` : ""
+  }`;
+
+// Markdownのリンク先に書くパス。空白や括弧を含むファイル名でもリンクが切れないようにする
+export const encodeAttachmentPath = (fileName: string): string =>
+  `./${encodeURI(fileName).replace(/\(/g, "%28").replace(/\)/g, "%29")}`;
+
+export const decodeAttachmentPath = (path: string): string => {
+  const fileName = path.replace(/^\.\//, "");
+  try {
+    return decodeURIComponent(fileName);
+  } catch {
+    return fileName;
+  }
+};
+
+// 同じフォルダ内でファイル名が重複しないよう、2つ目以降に番号を付ける
+const uniqueFileName = (name: string, usedNames: Set<string>): string => {
+  const dot = name.lastIndexOf(".");
+  const base = dot > 0 ? name.slice(0, dot) : name;
+  const extension = dot > 0 ? name.slice(dot) : "";
+  let candidate = name;
+  for (let i = 2; usedNames.has(candidate.toLowerCase()); i++) {
+    candidate = `${base}-${i}${extension}`;
+  }
+  usedNames.add(candidate.toLowerCase());
+  return candidate;
+};
+
+// フォルダ名・ファイル名に使えない文字を置き換える
+const safeFileName = (name: string): string =>
+  name.replace(/[/\\:*?"<>|]/g, "_") || "file";
+
+// その日の投稿と返信に付いたタグを、YAMLのフロントマターとして書く
+const buildFrontMatter = (date: string, messages: Message[]): string => {
+  const tags = extractTags(
+    messages
+      .flatMap((msg) => [msg.text, ...msg.replies.map((reply) => reply.text)])
+      .join("\n")
+  );
+  const lines = [`date: ${date}`];
+  if (tags.length > 0) {
+    lines.push("tags:", ...tags.map((tag) => `  - ${JSON.stringify(tag)}`));
+  }
+  return `---\n${lines.join("\n")}\n---\n\n`;
+};
+
+// 1つのチャンネルのメッセージを、日付ごとのフォルダとMarkdownに書き出す
+const appendChannelToZip = async (
+  channelFolder: JSZip,
+  channelMessages: Message[],
+  profiles: Profile[]
+) => {
+  const dailyMessages: { [key: string]: Message[] } = {};
+
+  // 日付ごとにメッセージをグループ化（ブラウザのタイムゾーンでの日付）
+  channelMessages.forEach((msg) => {
+    const date = toLocalDateKey(new Date(msg.createdAt)); // YYYY-MM-DD
+    if (!dailyMessages[date]) {
+      dailyMessages[date] = [];
+    }
+    dailyMessages[date].push(msg);
+  });
+
+  for (const date in dailyMessages) {
+    const dateFolder = channelFolder.folder(date);
+    if (!dateFolder) continue;
+
+    let markdownContent = buildFrontMatter(date, dailyMessages[date]);
+    // 日付の見出しは選択中の言語で書く（読み込むときは使わない）
+    markdownContent += `# ${formatDate(date)}\n\n`;
+    const usedNames = new Set([`${date}.md`]);
+
+    // 添付ファイルストアから読み出し、元のファイル名でZIPに追加する
+    // 画像は埋め込み、それ以外のファイルはリンクとして書き出す
+    const appendAttachments = async (attachments: Attachment[]) => {
+      for (const attachment of attachments) {
+        const blob = await loadAttachmentFromDB(attachment.id);
+        if (!blob) continue;
+        const fileName = uniqueFileName(
+          safeFileName(attachment.name),
+          usedNames
+        );
+        dateFolder.file(fileName, blob);
+        const link = `[${attachment.name.replace(/[[\]]/g, "")}](${encodeAttachmentPath(fileName)})`;
+        markdownContent += attachment.type.startsWith("image/")
+          ? `!${link}\n`
+          : `${link}\n`;
+      }
+    };
+
+    // リアクションは添付ファイルの後ろに、付けた人の名前で1行に書く
+    const appendReactions = (reactions: Reaction[] | undefined) => {
+      if (reactions && reactions.length > 0) {
+        markdownContent += `${formatReactionsLine(nameReactions(reactions, profiles))}\n`;
+      }
+    };
+
+    for (const msg of dailyMessages[date]) {
+      markdownContent += `## ${formatTime(msg.createdAt)} ${msg.user.name}${headingMarkers(msg)}\n`;
+      markdownContent += `${msg.text}\n`;
+      await appendAttachments(msg.attachments);
+      appendReactions(msg.reactions);
+
+      for (const reply of msg.replies) {
+        markdownContent += `### ${formatTime(reply.createdAt)} ${reply.user.name}${headingMarkers(reply)}\n`;
+        markdownContent += `${reply.text}\n`;
+        await appendAttachments(reply.attachments);
+        appendReactions(reply.reactions);
+      }
+      markdownContent += `\n`;
+    }
+    dateFolder.file(`${date}.md`, markdownContent);
+  }
+};
+
+// すべてのチャンネルを チャンネル名/YYYY-MM-DD/YYYY-MM-DD.md の形でZIPにする
+export const exportMessagesToZip = async (
+  messages: Message[],
+  channels: Channel[],
+  profiles: Profile[]
+): Promise<Blob> => {
+  const zip = new JSZip();
+  for (const channel of channels) {
+    const channelMessages = messages.filter(
+      (msg) => msg.channelId === channel.id
+    );
+    if (channelMessages.length === 0) continue;
+    const channelFolder = zip.folder(channel.name);
+    if (!channelFolder) continue;
+    await appendChannelToZip(channelFolder, channelMessages, profiles);
+  }
+  return zip.generateAsync({ type: "blob" });
+};
@@ -0,0 +1,338 @@
+import JSZip from "jszip";
+import { createAttachmentId, type AttachmentRecord } from "./db";
+import { formatTime, toLocalDateKey } from "./dateUtils";
+import { createChannel, normalizeChannelName } from "./channels";
+import { mimeFromFileName } from "./blobUtils";
+import {
+  parseReactionsLine,
+  resolveReactionUsers,
+  type NamedReaction,
+} from "./reactions";
+import { DEFAULT_PROFILE_NAME, initialsFromName, toAuthor } from "./profiles";
+import {
+  decodeAttachmentPath,
+  PINNED_MARKER,
+  STARRED_MARKER,
+} from "./zipExport";
+
+// 型定義をファイル内に再定義
+interface Attachment {
+  id: string;
+  name: string;
+  type: string;
+  size: number;
+}
+
+// 投稿者。idでプロフィールと結び付け、名前などは書き出し用の写し
+interface Author {
+  id?: number;
+  name: string;
+  avatar: string;
+  color?: string;
+}
+
+interface Reaction {
+  emoji: string;
+  users: number[]; // リアクションを付けたプロフィールのID
+}
+
+interface Reply {
+  id: number;
+  user: Author;
+  text: string;
+  createdAt: string;
+  attachments: Attachment[];
+  starred?: boolean;
+  reactions?: Reaction[];
+}
+
+interface Message {
+  id: number;
+  user: Author;
+  text: string;
+  createdAt: string;
+  replies: Reply[];
+  attachments: Attachment[];
+  channelId: number;
+  pinned?: boolean;
+  starred?: boolean;
+  reactions?: Reaction[];
+}
+
+interface Channel {
+  id: number;
+  name: string;
+  archived: boolean;
+  createdAt: string;
+  lastReadAt: string;
+}
+
+interface Profile {
+  id: number;
+  name: string;
+  initials: string;
+  color: string;
+}
+
+// エクスポート時の日付ごとのMarkdownファイル（チャンネル名/YYYY-MM-DD/YYYY-MM-DD.md）
+// チャンネル導入前のエクスポートにはチャンネル名のフォルダがない
+const MARKDOWN_PATH_REGEX =
+  /^(?:(?:.*\/)?([^/]+)\/)?(\d{4}-\d{2}-\d{2})\/\2\.md$/;
+// 見出しの末尾には、ピン留め・スターの印が付くことがある
+const HEADING_MARKERS = `((?:\\s+(?:${PINNED_MARKER}|${STARRED_MARKER}))*)\\s*$`;
+const MESSAGE_HEADING_REGEX = new RegExp(
+  `^## (\\d{1,2}:\\d{2}) (.+?)${HEADING_MARKERS}`,
+  "u"
+);
+// 返信の投稿者は、投稿者を書き出すようになる前のエクスポートにはない
+const REPLY_HEADING_REGEX = new RegExp(
+  `^### (\\d{1,2}:\\d{2})(?: (?!${PINNED_MARKER}|${STARRED_MARKER})(.+?))?${HEADING_MARKERS}`,
+  "u"
+);
+// 添付ファイルの行（画像は ![名前](./ファイル名)、それ以外は [名前](./ファイル名)）
+const ATTACHMENT_LINE_REGEX = /^!?\[[^\]]*\]\((\.\/[^)]+)\)$/;
+
+interface ParsedEntry {
+  kind: "message" | "reply";
+  time: string;
+  name: string;
+  pinned: boolean;
+  starred: boolean;
+  lines: string[];
+}
+
+// Markdownを投稿と返信の単位に分割する
+const parseEntries = (markdown: string): ParsedEntry[] => {
+  const entries: ParsedEntry[] = [];
+  let current: ParsedEntry | null = null;
+
+  for (const line of markdown.replace(/\r\n/g, "\n").split("\n")) {
+    const messageMatch = line.match(MESSAGE_HEADING_REGEX);
+    const replyMatch = line.match(REPLY_HEADING_REGEX);
+    if (messageMatch) {
+      current = {
+        kind: "message",
+        time: messageMatch[1],
+        name: messageMatch[2].trim(),
+        pinned: messageMatch[3].includes(PINNED_MARKER),
+        starred: messageMatch[3].includes(STARRED_MARKER),
+        lines: [],
+      };
+      entries.push(current);
+    } else if (replyMatch) {
+      current = {
+        kind: "reply",
+        time: replyMatch[1],
+        // 投稿者のない返信は、最初のプロフィール（Me）の返信として復元する
+        name: replyMatch[2]?.trim() || DEFAULT_PROFILE_NAME,
+        pinned: false,
+        starred: replyMatch[3].includes(STARRED_MARKER),
+        lines: [],
+      };
+      entries.push(current);
+    } else if (current) {
+      current.lines.push(line);
+    }
+    // 最初の見出しより前の行（フロントマターと # YYYY-MM-DD）は読み飛ばす
+  }
+  return entries;
+};
+
+// 本文と添付ファイル名、リアクションを取り出す
+// 最後の行がリアクションの行ならリアクションとし、その前に並んだリンクのうち
+// ZIP内にファイルがあるものを添付ファイルとみなす
+const splitBody = (
+  lines: string[],
+  hasFile: (fileName: string) => boolean
+): {
+  text: string;
+  fileNames: string[];
+  reactions: NamedReaction[] | null;
+} => {
+  const body = [...lines];
+  const trimTrailingBlankLines = () => {
+    while (body.length > 0 && body[body.length - 1].trim() === "") {
+      body.pop();
+    }
+  };
+  trimTrailingBlankLines();
+  const reactions =
+    body.length > 0 ? parseReactionsLine(body[body.length - 1]) : null;
+  if (reactions) body.pop();
+  const fileNames: string[] = [];
+  while (body.length > 0) {
+    const match = body[body.length - 1].match(ATTACHMENT_LINE_REGEX);
+    const fileName = match ? decodeAttachmentPath(match[1]) : null;
+    if (!fileName || !hasFile(fileName)) break;
+    fileNames.unshift(fileName);
+    body.pop();
+  }
+  trimTrailingBlankLines();
+  return { text: body.join("\n"), fileNames, reactions };
+};
+
+const readAttachment = async (
+  zip: JSZip,
+  folder: string,
+  fileName: string
+): Promise<{ record: AttachmentRecord; attachment: Attachment } | null> => {
+  const file = zip.file(`${folder}/${fileName}`);
+  if (!file) return null;
+  const data = await file.async("uint8array");
+  const id = createAttachmentId();
+  const type = mimeFromFileName(fileName);
+  return {
+    record: { id, blob: new Blob([data], { type }) },
+    attachment: { id, name: fileName, type, size: data.byteLength },
+  };
+};
+
+export interface ImportedData {
+  messages: Message[];
+  attachments: AttachmentRecord[];
+  channels: Channel[]; // 新しく作成したチャンネル
+}
+
+// anytimes-export.zip を読み込み、既存のメッセージにない投稿を復元する
+// チャンネル名のフォルダがないファイルはfallbackChannelIdのチャンネルに入れる
+export const importMessagesFromZip = async (
+  file: Blob,
+  existingMessages: Message[],
+  existingChannels: Channel[],
+  fallbackChannelId: number,
+  profiles: Profile[]
+): Promise<ImportedData> => {
+  const zip = await JSZip.loadAsync(file);
+  const usedIds = new Set<number>();
+  existingMessages.forEach((msg) => {
+    usedIds.add(msg.id);
+    msg.replies.forEach((reply) => usedIds.add(reply.id));
+  });
+  const existingKeys = new Set(
+    existingMessages.map(
+      (msg) =>
+        `${msg.channelId}\n${toLocalDateKey(new Date(msg.createdAt))} ${formatTime(msg.createdAt)}\n${msg.user.name}\n${msg.text}`
+    )
+  );
+
+  // フォルダ名のチャンネルを探し、なければ作成する
+  const channelsByName = new Map(
+    existingChannels.map((channel) => [channel.name.toLowerCase(), channel])
+  );
+  const usedChannelIds = new Set(existingChannels.map((channel) => channel.id));
+  const createdChannels: Channel[] = [];
+  const resolveChannelId = (folderName: string | undefined): number => {
+    if (!folderName) return fallbackChannelId;
+    const name = normalizeChannelName(folderName);
+    const existing = channelsByName.get(name.toLowerCase());
+    if (existing) return existing.id;
+    const channel = createChannel(name);
+    while (usedChannelIds.has(channel.id)) channel.id++;
+    usedChannelIds.add(channel.id);
+    channelsByName.set(name.toLowerCase(), channel);
+    createdChannels.push(channel);
+    return channel.id;
+  };
+
+  // 時刻から採番し、既存IDと重複しないようにずらす
+  const allocateId = (date: string, time: string): number => {
+    const [hours, minutes] = time.split(":").map(Number);
+    const [year, month, day] = date.split("-").map(Number);
+    let id = new Date(year, month - 1, day, hours, minutes).getTime();
+    while (usedIds.has(id)) id++;
+    usedIds.add(id);
+    return id;
+  };
+
+  // 同じ名前のプロフィールがあればその人の投稿とし、なければ誰のものでもない投稿者にする
+  const profilesByName = new Map(
+    profiles.map((profile) => [profile.name, profile])
+  );
+  const resolveAuthor = (name: string): Author => {
+    const profile = profilesByName.get(name);
+    return profile
+      ? toAuthor(profile)
+      : { name, avatar: initialsFromName(name) };
+  };
+
+  const imported: Message[] = [];
+  const attachments: AttachmentRecord[] = [];
+  const markdownFiles = Object.values(zip.files)
+    .filter((entry) => !entry.dir && MARKDOWN_PATH_REGEX.test(entry.name))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  for (const entry of markdownFiles) {
+    const [, channelFolder, date] = entry.name.match(MARKDOWN_PATH_REGEX)!;
+    const channelId = resolveChannelId(channelFolder);
+    const folder = entry.name.substring(0, entry.name.lastIndexOf("/"));
+    const markdown = await entry.async("string");
+
+    const hasFile = (fileName: string) =>
+      zip.file(`${folder}/${fileName}`) !== null;
+
+    let currentMessage: Message | null = null;
+    for (const parsed of parseEntries(markdown)) {
+      const { text, fileNames, reactions } = splitBody(parsed.lines, hasFile);
+      // リアクションは同じ名前のプロフィールのものとし、該当しない名前は取り込まない
+      const entryReactions = reactions
+        ? resolveReactionUsers(reactions, profiles)
+        : [];
+      if (parsed.kind === "message") {
+        const key = `${channelId}\n${date} ${parsed.time.padStart(5, "0")}\n${parsed.name}\n${text}`;
+        if (existingKeys.has(key)) {
+          // 取り込み済みの投稿は返信も含めてスキップする
+          currentMessage = null;
+          continue;
+        }
+        existingKeys.add(key);
+      } else if (!currentMessage) {
+        continue;
+      }
+
+      const entryAttachments: Attachment[] = [];
+      for (const fileName of fileNames) {
+        const read = await readAttachment(zip, folder, fileName);
+        if (!read) continue;
+        attachments.push(read.record);
+        entryAttachments.push(read.attachment);
+      }
+
+      const id = allocateId(date, parsed.time);
+      if (parsed.kind === "message") {
+        currentMessage = {
+          id,
+          user: resolveAuthor(parsed.name),
+          text,
+          createdAt: new Date(id).toISOString(),
+          replies: [],
+          attachments: entryAttachments,
+          channelId,
+          ...(parsed.pinned && { pinned: true }),
+          ...(parsed.starred && { starred: true }),
+          ...(entryReactions.length > 0 && { reactions: entryReactions }),
+        };
+        imported.push(currentMessage);
+      } else {
+        currentMessage!.replies.push({
+          id,
+          user: resolveAuthor(parsed.name),
+          text,
+          createdAt: new Date(id).toISOString(),
+          attachments: entryAttachments,
+          ...(parsed.starred && { starred: true }),
+          ...(entryReactions.length > 0 && { reactions: entryReactions }),
+        });
+      }
+    }
+  }
+
+  // 投稿が1件も取り込まれなかったチャンネルは作成しない
+  const importedChannelIds = new Set(imported.map((msg) => msg.channelId));
+  return {
+    messages: imported,
+    attachments,
+    channels: createdChannels.filter((channel) =>
+      importedChannelIds.has(channel.id)
+    ),
+  };
+};
@@ -1,8 +1,65 @@
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react";
+import { VitePWA } from "vite-plugin-pwa";
+
+const base = "/astro-vite-anytime-times/";
 
 // https://vite.dev/config/
 export default defineConfig({
-  base: "/astro-vite-anytime-times/",
-  plugins: [react()],
+  base,
+  plugins: [
+    react(),
+    // 共有ターゲットを受け取るため、Service Workerは src/sw.ts に自前で書く
+    VitePWA({
+      strategies: "injectManifest",
+      srcDir: "src",
+      filename: "sw.ts",
+      registerType: "prompt",
+      injectRegister: false,
+      injectManifest: {
+        globPatterns: ["**/*.{js,css,html,svg,png,ico,woff2}"],
+      },
+      manifest: {
+        name: "Anytimes",
+        short_name: "Anytimes",
+        description: "ひとりで気軽に書き込めるtimesアプリ",
+        lang: "ja",
+        theme_color: "#1976d2",
+        background_color: "#1a1d21",
+        display: "standalone",
+        start_url: base,
+        scope: base,
+        icons: [
+          {
+            src: "pwa-192x192.png",
+            sizes: "192x192",
+            type: "image/png",
+          },
+          {
+            src: "pwa-512x512.png",
+            sizes: "512x512",
+            type: "image/png",
+          },
+          {
+            src: "maskable-icon-512x512.png",
+            sizes: "512x512",
+            type: "image/png",
+            purpose: "maskable",
+          },
+        ],
+        // 他のアプリの「共有」から、テキストや画像を新しい投稿として受け取る
+        share_target: {
+          action: `${base}share-target`,
+          method: "POST",
+          enctype: "multipart/form-data",
+          params: {
+            title: "title",
+            text: "text",
+            url: "url",
+            files: [{ name: "files", accept: ["image/*"] }],
+          },
+        },
+      },
+    }),
+  ],
 });